@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GenerationProvider } from '../services/providers';
+import { createMockProvider } from '../services/providers/mock';
+import { DEFAULT_DESIGN_SYSTEM } from '../services/designSystems';
+import { defaultTemplate } from '../services/promptTemplates';
+import { parseSessionExport } from '../services/sessionTransfer';
+import { BatchOptions, createTaskQueue, runBatch } from './batch';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+describe('createTaskQueue', () => {
+    it('runs at most `limit` tasks at once, starting the rest in order', async () => {
+        const run = createTaskQueue(2);
+        const started: number[] = [];
+        let active = 0;
+        let peak = 0;
+        const results = await Promise.all([0, 1, 2, 3, 4].map(i => run(async () => {
+            started.push(i);
+            peak = Math.max(peak, ++active);
+            await tick();
+            active--;
+            return i * 10;
+        })));
+        expect(results).toEqual([0, 10, 20, 30, 40]);
+        expect(started).toEqual([0, 1, 2, 3, 4]);
+        expect(peak).toBe(2);
+    });
+
+    it('frees the slot of a failed task', async () => {
+        const run = createTaskQueue(1);
+        const failed = run(async () => { throw new Error('boom'); });
+        const next = run(async () => 'ran');
+        await expect(failed).rejects.toThrow('boom');
+        expect(await next).toBe('ran');
+        expect(await run(async () => 'again')).toBe('again');
+    });
+});
+
+/** Wraps the offline mock, counting streams in flight and failing those whose prompt mentions `failOn`. */
+const instrumentedMock = (failOn?: string) => {
+    const mock = createMockProvider('stub-model');
+    const stats = { active: 0, peak: 0, streams: 0 };
+    const provider: GenerationProvider = {
+        ...mock,
+        async *streamText(request) {
+            stats.streams++;
+            stats.peak = Math.max(stats.peak, ++stats.active);
+            try {
+                if (failOn && request.prompt.includes(failOn)) throw new Error('Backend exploded');
+                yield* mock.streamText(request);
+            } finally {
+                stats.active--;
+            }
+        }
+    };
+    return { provider, stats };
+};
+
+describe('runBatch', () => {
+    let outDir: string;
+    let logs: string[];
+
+    beforeEach(async () => {
+        outDir = await mkdtemp(path.join(tmpdir(), 'signal-canvas-batch-'));
+        logs = [];
+    });
+
+    afterEach(() => rm(outDir, { recursive: true, force: true }));
+
+    const options = (provider: GenerationProvider, overrides: Partial<BatchOptions> = {}): BatchOptions => ({
+        provider,
+        styleTemplate: defaultTemplate('styleDirections'),
+        artifactTemplate: defaultTemplate('artifact'),
+        designSystem: DEFAULT_DESIGN_SYSTEM,
+        count: 2,
+        concurrency: 2,
+        outDir,
+        log: message => logs.push(message),
+        ...overrides
+    });
+
+    it('keeps model calls within the concurrency limit across prompts', async () => {
+        const { provider, stats } = instrumentedMock();
+        const { sessions } = await runBatch(['Reactor panel', 'Crew roster', 'Star chart'], options(provider, { count: 3 }));
+        expect(stats.streams).toBe(9);
+        expect(stats.peak).toBe(2);
+        expect(sessions.flatMap(s => s.artifacts.map(a => a.status))).toEqual(Array(9).fill('complete'));
+    });
+
+    it('writes each completed artifact, each session and the combined export', async () => {
+        const { provider } = instrumentedMock();
+        const { sessions, files } = await runBatch(['Reactor panel'], options(provider));
+        expect(files.map(f => f.split(path.sep).join('/'))).toEqual([
+            expect.stringMatching(/^01-reactor-panel\/01-[a-z0-9-]+\.html$/),
+            expect.stringMatching(/^01-reactor-panel\/02-[a-z0-9-]+\.html$/),
+            '01-reactor-panel/session.json',
+            'sessions.json'
+        ]);
+        expect(await readFile(path.join(outDir, files[0]), 'utf8')).toContain(sessions[0].artifacts[0].html);
+        expect(parseSessionExport(await readFile(path.join(outDir, 'sessions.json'), 'utf8')).map(s => s.id)).toEqual([sessions[0].id]);
+    });
+
+    it('records a failed prompt on its artifacts and finishes the others', async () => {
+        const { provider } = instrumentedMock('Broken widget');
+        const { sessions, files } = await runBatch(['Broken widget', 'Reactor panel'], options(provider));
+
+        const [broken, fine] = sessions;
+        expect(broken.artifacts.map(a => a.status)).toEqual(['error', 'error']);
+        expect(broken.artifacts[0].error).toContain('Backend exploded');
+        expect(fine.artifacts.map(a => a.status)).toEqual(['complete', 'complete']);
+        expect(logs.filter(line => line.includes('✗'))).toHaveLength(2);
+
+        // The failed session is still saved, without documents for its artifacts.
+        expect(files.filter(f => f.startsWith('01-'))).toEqual([path.join('01-broken-widget', 'session.json')]);
+        expect(files.filter(f => f.startsWith('02-'))).toHaveLength(3);
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Artifact, DesignSystem, PromptTemplate, Session, UsageRecord } from '../types';
+import { generateId } from '../utils';
+import { GenerationProvider, describeError } from '../services/providers';
+import { generateArtifactHtml, generateStyleDirections } from '../services/pipeline';
+import { htmlToStandaloneDocument } from '../services/exporters';
+import { serializeSessions } from '../services/sessionTransfer';
+
+export interface BatchOptions {
+    provider: GenerationProvider;
+    /** Used for style directions when their template pins a different model. */
+    styleProvider?: GenerationProvider;
+    styleTemplate: PromptTemplate;
+    artifactTemplate: PromptTemplate;
+    designSystem: DesignSystem;
+    /** Artifacts per prompt. */
+    count: number;
+    /** Model calls in flight at once, across all prompts. */
+    concurrency: number;
+    temperature?: number;
+    seed?: number;
+    outDir: string;
+    signal?: AbortSignal;
+    log: (message: string) => void;
+}
+
+export interface BatchResult {
+    sessions: Session[];
+    /** Files written, relative to `outDir`. */
+    files: string[];
+}
+
+/** Runs at most `limit` tasks at once; the rest wait in submission order. */
+export function createTaskQueue(limit: number) {
+    let active = 0;
+    const waiting: (() => void)[] = [];
+
+    return async <T,>(task: () => Promise<T>): Promise<T> => {
+        if (active < limit) active++;
+        // A finishing task hands its slot straight to the next one, so `active` never overshoots.
+        else await new Promise<void>(resolve => waiting.push(resolve));
+        try {
+            return await task();
+        } finally {
+            const next = waiting.shift();
+            if (next) next();
+            else active--;
+        }
+    };
+}
+
+const slugify = (text: string, fallback: string) =>
+    text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || fallback;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Runs the app's generation pipeline for each prompt (style directions,
+ * then one artifact stream per direction) and writes the results:
+ *
+ *   <outDir>/01-<prompt>/01-<style>.html   one standalone document per completed artifact
+ *   <outDir>/01-<prompt>/session.json      the session, as the app stores it
+ *   <outDir>/sessions.json                 every session, importable from the archive drawer
+ */
+export async function runBatch(prompts: string[], options: BatchOptions): Promise<BatchResult> {
+    const { provider, designSystem, count, signal, log } = options;
+    const run = createTaskQueue(options.concurrency);
+    const shared = { provider, designSystem, temperature: options.temperature, seed: options.seed, signal };
+
+    const generateSession = async (prompt: string, index: number): Promise<Session> => {
+        const id = generateId();
+        const tag = `[${index + 1}/${prompts.length}]`;
+        const sessionUsage: UsageRecord[] = [];
+
+        const styles = await run(() => generateStyleDirections({
+            ...shared,
+            provider: options.styleProvider ?? provider,
+            template: options.styleTemplate,
+            prompt,
+            count,
+            onRecord: (record) => { if (record) sessionUsage.push(record); },
+            onRetry: (attempt) => log(`${tag} rate limited; style directions retry ${attempt}`)
+        }));
+        log(`${tag} ${prompt} → ${styles.join(', ')}`);
+
+        const artifacts = await Promise.all(styles.map((styleName, i) => run(async (): Promise<Artifact> => {
+            const usage: UsageRecord[] = [];
+            const artifact: Artifact = { id: `${id}_${i}`, styleName, html: '', status: 'streaming' };
+            try {
+                artifact.html = await generateArtifactHtml({
+                    ...shared,
+                    template: options.artifactTemplate,
+                    prompt,
+                    styleName,
+                    onRecord: (record) => { if (record) usage.push(record); },
+                    onRetry: (attempt) => log(`${tag} rate limited; "${styleName}" retry ${attempt}`)
+                });
+                artifact.status = 'complete';
+                log(`${tag} ✓ ${styleName}`);
+            } catch (e) {
+                artifact.status = 'error';
+                artifact.error = describeError(e);
+                log(`${tag} ✗ ${styleName}: ${artifact.error}`);
+            }
+            return usage.length ? { ...artifact, usage } : artifact;
+        })));
+
+        return {
+            id,
+            prompt,
+            timestamp: Date.now(),
+            artifacts,
+            designSystem,
+            ...(sessionUsage.length ? { usage: sessionUsage } : {})
+        };
+    };
+
+    const sessions = await Promise.all(prompts.map(generateSession));
+
+    const files: string[] = [];
+    const write = async (file: string, content: string) => {
+        await mkdir(path.dirname(path.join(options.outDir, file)), { recursive: true });
+        await writeFile(path.join(options.outDir, file), content);
+        files.push(file);
+    };
+    for (const [i, session] of sessions.entries()) {
+        const dir = `${pad(i + 1)}-${slugify(session.prompt, session.id)}`;
+        for (const [j, artifact] of session.artifacts.entries()) {
+            if (artifact.status !== 'complete') continue;
+            await write(path.join(dir, `${pad(j + 1)}-${slugify(artifact.styleName, 'artifact')}.html`), htmlToStandaloneDocument(artifact.html, designSystem));
+        }
+        await write(path.join(dir, 'session.json'), JSON.stringify(session, null, 2));
+    }
+    await write('sessions.json', serializeSessions(sessions));
+
+    return { sessions, files };
+}
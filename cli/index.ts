@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { PromptTemplate, PromptTemplateKind } from '../types';
+import { MAX_GENERATION_COUNT } from '../constants';
+import { DEFAULT_MODELS, GenerationProvider, ProviderId } from '../services/providers';
+import { createGeminiProvider } from '../services/providers/gemini';
+import { createMockProvider } from '../services/providers/mock';
+import { createOpenAiProvider } from '../services/providers/openai';
+import { BUILT_IN_DESIGN_SYSTEMS, DEFAULT_DESIGN_SYSTEM, parseDesignSystem } from '../services/designSystems';
+import { defaultTemplate, parseTemplateExport } from '../services/promptTemplates';
+import { DEFAULT_PRICES, formatCost, sessionUsage, summarizeUsage } from '../services/usage';
+import { runBatch } from './batch';
+
+const USAGE = `Usage: npm run generate -- [options] [prompt...]
+
+Generates artifacts with the same pipeline as the app and writes them as
+standalone HTML files plus session JSON.
+
+Options:
+  -f, --file <path>          read prompts from a file, one per line ("-" for stdin)
+  -n, --count <1-${MAX_GENERATION_COUNT}>        artifacts per prompt (default 3)
+  -o, --out <dir>            output directory (default generated)
+  -c, --concurrency <n>      model calls in flight at once (default 4)
+      --temperature <0-2>    overrides the templates' temperature
+      --seed <int>           asks the model for repeatable output
+  -d, --design-system <id>   built-in preset id or a preset JSON file (default ${DEFAULT_DESIGN_SYSTEM.id})
+      --templates <path>     prompt templates exported from the app
+  -p, --provider <id>        gemini, openai or mock (default gemini)
+  -m, --model <name>         model name (default per provider)
+      --base-url <url>       OpenAI-compatible endpoint (default https://api.openai.com/v1)
+      --dry-run              use the offline mock; no network, no key
+  -h, --help
+
+Gemini reads GEMINI_API_KEY and OpenAI-compatible endpoints OPENAI_API_KEY,
+from the environment or .env.local.`;
+
+const fail = (message: string): never => {
+    console.error(`${message}\n\nRun with --help for usage.`);
+    process.exit(2);
+};
+
+const toNumber = (value: string | undefined, name: string, min: number, max: number, integer = true) => {
+    if (value === undefined) return undefined;
+    const n = Number(value);
+    if (!Number.isFinite(n) || n < min || n > max || (integer && !Number.isInteger(n))) {
+        fail(`--${name} must be ${integer ? 'an integer' : 'a number'} from ${min} to ${max}`);
+    }
+    return n;
+};
+
+const readStdin = async () => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk);
+    return Buffer.concat(chunks).toString('utf8');
+};
+
+const readPrompts = async (file: string) => {
+    const text = file === '-' ? await readStdin() : await readFile(file, 'utf8');
+    // Blank lines and `#` comments are skipped.
+    return text.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+};
+
+const loadDesignSystem = async (value: string | undefined) => {
+    if (!value) return DEFAULT_DESIGN_SYSTEM;
+    const builtIn = BUILT_IN_DESIGN_SYSTEMS.find(ds => ds.id === value);
+    if (builtIn) return builtIn;
+    if (!value.endsWith('.json')) fail(`Unknown design system "${value}"; built-in: ${BUILT_IN_DESIGN_SYSTEMS.map(ds => ds.id).join(', ')}`);
+    return parseDesignSystem(await readFile(value, 'utf8'));
+};
+
+// An exported file may hold several templates per kind; the first one of each kind is used.
+const loadTemplates = async (file: string | undefined) => {
+    const templates = file ? parseTemplateExport(await readFile(file, 'utf8')) : [];
+    return (kind: PromptTemplateKind): PromptTemplate => templates.find(t => t.kind === kind) ?? defaultTemplate(kind);
+};
+
+const createCliProvider = (id: ProviderId, model: string, baseUrl: string): GenerationProvider => {
+    const env = process.env;
+    switch (id) {
+        case 'mock': return createMockProvider(model);
+        case 'openai': return createOpenAiProvider(model, baseUrl, env.OPENAI_API_KEY ?? '');
+        default:
+            if (!env.GEMINI_API_KEY && !env.API_KEY) fail('GEMINI_API_KEY is not set; use --dry-run to try the pipeline offline');
+            return createGeminiProvider(model, env.GEMINI_API_KEY || env.API_KEY);
+    }
+};
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            file: { type: 'string', short: 'f' },
+            count: { type: 'string', short: 'n' },
+            out: { type: 'string', short: 'o' },
+            concurrency: { type: 'string', short: 'c' },
+            temperature: { type: 'string' },
+            seed: { type: 'string' },
+            'design-system': { type: 'string', short: 'd' },
+            templates: { type: 'string' },
+            provider: { type: 'string', short: 'p' },
+            model: { type: 'string', short: 'm' },
+            'base-url': { type: 'string' },
+            'dry-run': { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    try {
+        process.loadEnvFile('.env.local');
+    } catch {
+        // No file; the environment is the only source.
+    }
+
+    const prompts = [...positionals, ...(values.file ? await readPrompts(values.file) : [])];
+    if (!prompts.length) fail('No prompts given');
+    const count = toNumber(values.count, 'count', 1, MAX_GENERATION_COUNT) ?? 3;
+    const concurrency = toNumber(values.concurrency, 'concurrency', 1, 64) ?? 4;
+    const temperature = toNumber(values.temperature, 'temperature', 0, 2, false);
+    const seed = toNumber(values.seed, 'seed', Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER);
+    const designSystem = await loadDesignSystem(values['design-system']);
+
+    const providerId = (values['dry-run'] ? 'mock' : values.provider ?? 'gemini') as ProviderId;
+    if (!(providerId in DEFAULT_MODELS)) fail(`Unknown provider "${providerId}"`);
+    const templateFor = await loadTemplates(values.templates);
+    const styleTemplate = templateFor('styleDirections');
+    const artifactTemplate = templateFor('artifact');
+    // Like in the app, a template's pinned model wins over the configured one.
+    const model = values.model ?? DEFAULT_MODELS[providerId];
+    const baseUrl = values['base-url'] ?? 'https://api.openai.com/v1';
+    const providerFor = (template: PromptTemplate) =>
+        createCliProvider(providerId, providerId === 'mock' ? model : template.model?.trim() || model, baseUrl);
+    const outDir = path.resolve(values.out ?? 'generated');
+
+    // Ctrl+C cancels the streams in flight; whatever finished is still written.
+    const controller = new AbortController();
+    process.once('SIGINT', () => {
+        console.error('Cancelling...');
+        controller.abort();
+    });
+
+    const { sessions, files } = await runBatch(prompts, {
+        provider: providerFor(artifactTemplate),
+        styleProvider: providerFor(styleTemplate),
+        styleTemplate,
+        artifactTemplate,
+        designSystem,
+        count,
+        concurrency,
+        temperature,
+        seed,
+        outDir,
+        signal: controller.signal,
+        log: (message) => console.error(message)
+    });
+
+    const artifacts = sessions.flatMap(s => s.artifacts);
+    const failed = artifacts.filter(a => a.status !== 'complete').length;
+    const usage = summarizeUsage(sessions.flatMap(sessionUsage), DEFAULT_PRICES);
+    console.error(
+        `${artifacts.length - failed}/${artifacts.length} artifacts, ${usage.inputTokens + usage.outputTokens} tokens` +
+        `${usage.estimated ? ' (estimated)' : ''}, ~${formatCost(usage.cost)}, written to ${outDir}`
+    );
+    files.forEach(file => console.log(path.join(outDir, file)));
+    if (failed) process.exitCode = 1;
+}
+
+main().catch(e => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exit(1);
+});
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { AccessibilityReport, AccessibilityRule } from '../types';
+import { ACCESSIBILITY_RULES, scoreGrade } from '../services/accessibility';
+import { SparklesIcon } from './Icons';
+
+interface AccessibilityPanelProps {
+    report?: AccessibilityReport;
+    /** Disables the fix action, e.g. while something else is generating. */
+    disabled: boolean;
+    onFix: () => void;
+}
+
+const AccessibilityPanel = ({ report, disabled, onFix }: AccessibilityPanelProps) => {
+    if (!report) {
+        return <p className="settings-hint">The audit runs once the artifact has finished rendering.</p>;
+    }
+
+    const rules = Object.keys(ACCESSIBILITY_RULES) as AccessibilityRule[];
+
+    return (
+        <div className="accessibility-panel">
+            <div className="accessibility-summary">
+                <span className={`accessibility-score ${scoreGrade(report.score)}`}>{report.score}</span>
+                <div>
+                    <strong>{report.findings.length ? `${report.findings.length} finding${report.findings.length === 1 ? '' : 's'}` : 'No problems found'}</strong>
+                    <span>Audited {new Date(report.timestamp).toLocaleTimeString()}</span>
+                </div>
+                <div className="spacer"></div>
+                <button onClick={onFix} disabled={disabled || !report.findings.length}>
+                    <SparklesIcon /> Fix Accessibility
+                </button>
+            </div>
+
+            {rules.map(rule => {
+                const findings = report.findings.filter(f => f.rule === rule);
+                return (
+                    <section key={rule} className="accessibility-rule">
+                        <h3>
+                            {ACCESSIBILITY_RULES[rule]}
+                            <span className={findings.length ? 'failed' : 'passed'}>{findings.length || 'Pass'}</span>
+                        </h3>
+                        {findings.length > 0 && (
+                            <ul>
+                                {findings.map((finding, i) => (
+                                    <li key={i} className={`severity-${finding.severity}`}>
+                                        <p>{finding.message}</p>
+                                        <code title={finding.selector}>{finding.snippet ?? finding.selector}</code>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </section>
+                );
+            })}
+
+            <p className="settings-hint">
+                Automated checks catch common problems only. Contrast is skipped over gradients and images, where the backdrop cannot be measured.
+            </p>
+        </div>
+    );
+};
+
+export default AccessibilityPanel;
@@ -4,21 +4,85 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useEffect, useRef, useMemo } from 'react';
-import { Artifact } from '../types';
+import React, { useEffect, useRef, useMemo, useState } from 'react';
+import { AccessibilityReport, Artifact, DesignSystem, DiagnosticEntry, ViewportSettings } from '../types';
+import { downloadBlob, resolveViewportSize, wrapArtifactHtml } from '../utils';
+import { auditPreview, capturePreview, readPreviewMessage, setPreviewInspecting } from '../services/previewRuntime';
+import { instrumentHtml, locateElement } from '../services/elementEdit';
+import { scoreFindings, scoreGrade } from '../services/accessibility';
+import { getSandboxFlags } from '../services/sandbox';
+import { AlertIcon, PointerIcon, RetryIcon, ShieldIcon, StarIcon } from './Icons';
+import ViewportFrame from './ViewportFrame';
+import ViewportToolbar from './ViewportToolbar';
 
 interface ArtifactCardProps {
     artifact: Artifact;
+    designSystem: DesignSystem;
     isFocused: boolean;
     onClick: () => void;
+    onCancel: () => void;
+    onRetry: () => void;
+    onToggleTrusted: () => void;
+    onToggleStar: () => void;
+    /** Errors reported by the running preview; shown as a badge when non-zero. */
+    errorCount: number;
+    onDiagnostic: (entry: Omit<DiagnosticEntry, 'id'>) => void;
+    onDiagnosticsReset: () => void;
+    onShowDiagnostics: () => void;
+    accessibility?: AccessibilityReport;
+    onAudit: (report: AccessibilityReport) => void;
+    onShowAccessibility: () => void;
+    /** Rewrites element `node` of `sourceHtml` (its index from `instrumentHtml`) per `instruction`. */
+    onEditElement: (node: number, instruction: string, sourceHtml: string) => void;
+    isEditDisabled: boolean;
 }
 
+/** The element picked in inspect mode, tied to the HTML it was picked from. */
+interface InspectSelection {
+    node: number;
+    sourceHtml: string;
+}
+
+const DEFAULT_VIEWPORT: ViewportSettings = {
+    presetId: 'fit',
+    width: 1024,
+    height: 768,
+    rotated: false,
+    fit: true,
+    colorScheme: null
+};
+
+const auditFrame = (frame: HTMLIFrameElement, onAudit: (report: AccessibilityReport) => void) =>
+    auditPreview(frame)
+        .then(findings => onAudit({ score: scoreFindings(findings), findings, timestamp: Date.now() }))
+        .catch(e => console.warn("Accessibility audit failed:", e));
+
 const ArtifactCard = React.memo(({ 
     artifact, 
+    designSystem,
     isFocused, 
-    onClick 
+    onClick,
+    onCancel,
+    onRetry,
+    onToggleTrusted,
+    onToggleStar,
+    errorCount,
+    onDiagnostic,
+    onDiagnosticsReset,
+    onShowDiagnostics,
+    accessibility,
+    onAudit,
+    onShowAccessibility,
+    onEditElement,
+    isEditDisabled
 }: ArtifactCardProps) => {
     const codeRef = useRef<HTMLPreElement>(null);
+    const frameRef = useRef<HTMLIFrameElement>(null);
+    const [viewport, setViewport] = useState<ViewportSettings>(DEFAULT_VIEWPORT);
+    const [isCapturing, setIsCapturing] = useState(false);
+    const [isInspecting, setIsInspecting] = useState(false);
+    const [selection, setSelection] = useState<InspectSelection | null>(null);
+    const [instruction, setInstruction] = useState('');
 
     useEffect(() => {
         if (codeRef.current) {
@@ -26,61 +90,101 @@ const ArtifactCard = React.memo(({
         }
     }, [artifact.html]);
 
+    // Handlers are recreated on every parent render; read them through a ref
+    // so the listeners below are attached once.
+    const previewHandlersRef = useRef({ onDiagnostic, onDiagnosticsReset, onAudit });
+    previewHandlersRef.current = { onDiagnostic, onDiagnosticsReset, onAudit };
+    const isCompleteRef = useRef(artifact.status === 'complete');
+    isCompleteRef.current = artifact.status === 'complete';
+    const htmlRef = useRef(artifact.html);
+    htmlRef.current = artifact.html;
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const frameWindow = frameRef.current?.contentWindow;
+            if (!frameWindow || event.source !== frameWindow) return;
+            const message = readPreviewMessage(event.data);
+            if (message?.type === 'reset') previewHandlersRef.current.onDiagnosticsReset();
+            else if (message?.type === 'entry') previewHandlersRef.current.onDiagnostic(message.entry);
+            else if (message?.type === 'select') setSelection({ node: message.node, sourceHtml: htmlRef.current });
+        };
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    // Audit every load of a finished artifact (a revision switch reloads the
+    // frame), and once more when streaming finishes without a reload.
+    useEffect(() => {
+        const frame = frameRef.current;
+        if (!frame) return;
+        const runAudit = () => {
+            if (isCompleteRef.current) auditFrame(frame, previewHandlersRef.current.onAudit);
+        };
+        frame.addEventListener('load', runAudit);
+        return () => frame.removeEventListener('load', runAudit);
+    }, []);
+
+    useEffect(() => {
+        if (artifact.status === 'complete' && frameRef.current) auditFrame(frameRef.current, previewHandlersRef.current.onAudit);
+    }, [artifact.status]);
+
     const isBlurring = artifact.status === 'streaming';
+    // Inspect mode lives in focus mode only and ends with it.
+    const inspecting = isInspecting && isFocused && artifact.status === 'complete';
 
-    // Wrap the generated HTML in a standard environment to ensure Tailwind and dark mode consistency
-    const wrappedSrcDoc = useMemo(() => {
-        if (!artifact.html) return '';
-        
-        // Check if the model already provided a full HTML document
-        if (artifact.html.includes('<html') || artifact.html.includes('<body')) {
-            return artifact.html;
+    useEffect(() => {
+        if (!inspecting) {
+            setSelection(null);
+            return;
         }
+        // Instrumenting changes the srcdoc, so picking is switched on after each load.
+        const frame = frameRef.current;
+        if (!frame) return;
+        const enable = () => setPreviewInspecting(frame, true).catch(e => console.warn("Inspect mode failed:", e));
+        frame.addEventListener('load', enable);
+        return () => frame.removeEventListener('load', enable);
+    }, [inspecting]);
 
-        return `
-            <!DOCTYPE html>
-            <html class="dark">
-            <head>
-                <script src="https://cdn.tailwindcss.com"></script>
-                <script>
-                    tailwind.config = {
-                        darkMode: 'class',
-                        theme: {
-                            extend: {
-                                colors: {
-                                    krypton: {
-                                        glow: '#22d3ee',
-                                        deep: '#0891b2',
-                                        bg: '#030407'
-                                    }
-                                }
-                            }
-                        }
-                    }
-                </script>
-                <link href="https://fonts.googleapis.com/css2?family=JetBrains+Mono:wght@400;700&display=swap" rel="stylesheet">
-                <style>
-                    body { 
-                        background-color: #030407; 
-                        color: #e0faff; 
-                        font-family: 'JetBrains Mono', monospace;
-                        margin: 0;
-                        padding: 1.5rem;
-                        min-height: 100vh;
-                        overflow-x: hidden;
-                    }
-                    /* Custom HUD scrollbar */
-                    ::-webkit-scrollbar { width: 4px; }
-                    ::-webkit-scrollbar-track { background: rgba(0,0,0,0.2); }
-                    ::-webkit-scrollbar-thumb { background: #164e63; border-radius: 2px; }
-                </style>
-            </head>
-            <body>
-                ${artifact.html}
-            </body>
-            </html>
-        `;
-    }, [artifact.html]);
+    // A selection from an older version of the HTML no longer points at the same element.
+    const selected = useMemo(
+        () => selection && selection.sourceHtml === artifact.html ? locateElement(artifact.html, selection.node) : null,
+        [selection, artifact.html]
+    );
+
+    const handleApplyEdit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (!selected || !instruction.trim() || isEditDisabled) return;
+        onEditElement(selected.index, instruction.trim(), artifact.html);
+        setInstruction('');
+    };
+
+    // Viewport controls only apply in focus mode; the grid always shows the card filled.
+    const activeViewport = isFocused ? viewport : DEFAULT_VIEWPORT;
+    const viewportSize = resolveViewportSize(activeViewport);
+    const colorScheme = activeViewport.colorScheme ?? undefined;
+
+    const wrappedSrcDoc = useMemo(
+        () => wrapArtifactHtml(inspecting ? instrumentHtml(artifact.html) : artifact.html, designSystem, { colorScheme, trusted: artifact.trusted }),
+        [artifact.html, designSystem, colorScheme, artifact.trusted, inspecting]
+    );
+
+    const handleScreenshot = async () => {
+        if (!frameRef.current) return;
+        setIsCapturing(true);
+        try {
+            const dataUrl = await capturePreview(frameRef.current);
+            const blob = await (await fetch(dataUrl)).blob();
+            const slug = artifact.styleName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'artifact';
+            const { width, height } = frameRef.current.getBoundingClientRect();
+            const size = viewportSize ?? { width: Math.round(width), height: Math.round(height) };
+            downloadBlob(blob, `${slug}-${size.width}x${size.height}.png`);
+        } catch (e: any) {
+            console.error("Screenshot failed:", e);
+            window.alert(`Screenshot failed: ${e?.message ?? e}`);
+        } finally {
+            setIsCapturing(false);
+        }
+    };
 
     return (
         <div 
@@ -89,7 +193,69 @@ const ArtifactCard = React.memo(({
         >
             <div className="artifact-header">
                 <span className="artifact-style-tag">{artifact.styleName}</span>
+                {(artifact.starred || artifact.status === 'complete') && (
+                    <button
+                        className={`artifact-star ${artifact.starred ? 'starred' : ''}`}
+                        title={artifact.starred ? 'Remove from gallery' : 'Save to gallery'}
+                        onClick={(e) => { e.stopPropagation(); onToggleStar(); }}
+                    >
+                        <StarIcon />
+                    </button>
+                )}
+                {errorCount > 0 && !isBlurring && (
+                    <button
+                        className="artifact-diagnostics-badge"
+                        title={`${errorCount} error${errorCount === 1 ? '' : 's'} in the running preview`}
+                        onClick={(e) => { e.stopPropagation(); onShowDiagnostics(); }}
+                    >
+                        <AlertIcon /> {errorCount}
+                    </button>
+                )}
+                {accessibility && artifact.status === 'complete' && (
+                    <button
+                        className={`artifact-a11y-badge ${scoreGrade(accessibility.score)}`}
+                        title={`Accessibility score ${accessibility.score}/100, ${accessibility.findings.length} finding${accessibility.findings.length === 1 ? '' : 's'}`}
+                        onClick={(e) => { e.stopPropagation(); onShowAccessibility(); }}
+                    >
+                        A11Y {accessibility.score}
+                    </button>
+                )}
+                {isFocused && artifact.status === 'complete' && (
+                    <button
+                        className={`artifact-inspect ${inspecting ? 'active' : ''}`}
+                        title={inspecting ? 'Stop inspecting' : 'Pick an element in the preview to edit it'}
+                        onClick={(e) => { e.stopPropagation(); setIsInspecting(!inspecting); }}
+                    >
+                        <PointerIcon /> Inspect
+                    </button>
+                )}
+                {isFocused && (
+                    <button
+                        className={`artifact-trust ${artifact.trusted ? 'trusted' : ''}`}
+                        title={artifact.trusted ? 'Trusted: scripts can reach the app. Click to sandbox again.' : 'Sandboxed: isolated origin, CSP and sanitized markup'}
+                        onClick={(e) => { e.stopPropagation(); onToggleTrusted(); }}
+                    >
+                        <ShieldIcon /> {artifact.trusted ? 'Trusted' : 'Sandboxed'}
+                    </button>
+                )}
+                {isBlurring && (
+                    <button
+                        className="artifact-cancel"
+                        title="Abort"
+                        onClick={(e) => { e.stopPropagation(); onCancel(); }}
+                    >
+                        &times;
+                    </button>
+                )}
             </div>
+            {isFocused && artifact.status === 'complete' && (
+                <ViewportToolbar
+                    settings={viewport}
+                    onChange={setViewport}
+                    onScreenshot={handleScreenshot}
+                    isCapturing={isCapturing}
+                />
+            )}
             <div className="artifact-card-inner">
                 {isBlurring && (
                     <div className="generating-overlay">
@@ -98,12 +264,45 @@ const ArtifactCard = React.memo(({
                         </pre>
                     </div>
                 )}
-                <iframe 
-                    srcDoc={wrappedSrcDoc} 
-                    title={artifact.id} 
-                    sandbox="allow-scripts allow-forms allow-modals allow-popups allow-presentation allow-same-origin"
-                    className="artifact-iframe"
+                {artifact.status === 'error' && (
+                    <div className="artifact-error-overlay">
+                        <span className="artifact-error-label">Signal Lost</span>
+                        <p>{artifact.error ?? 'Generation failed'}</p>
+                        <button onClick={(e) => { e.stopPropagation(); onRetry(); }}>
+                            <RetryIcon /> Retry
+                        </button>
+                    </div>
+                )}
+                <ViewportFrame
+                    frameRef={frameRef}
+                    srcDoc={wrappedSrcDoc}
+                    title={artifact.id}
+                    width={viewportSize?.width ?? null}
+                    height={viewportSize?.height ?? null}
+                    fit={activeViewport.fit}
+                    sandbox={getSandboxFlags(artifact.trusted)}
                 />
+                {inspecting && (
+                    <div className="artifact-inspector" onClick={(e) => e.stopPropagation()}>
+                        {selected ? (
+                            <>
+                                <div className="artifact-inspector-path" title={selected.path}>{selected.path}</div>
+                                <pre className="artifact-inspector-source">{selected.outerHtml}</pre>
+                                <form onSubmit={handleApplyEdit}>
+                                    <input
+                                        value={instruction}
+                                        placeholder={`Change this <${selected.tagName}>...`}
+                                        onChange={(e) => setInstruction(e.target.value)}
+                                        autoFocus
+                                    />
+                                    <button type="submit" disabled={!instruction.trim() || isEditDisabled}>Apply</button>
+                                </form>
+                            </>
+                        ) : (
+                            <p className="artifact-inspector-hint">Click an element in the preview to edit it.</p>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
     );
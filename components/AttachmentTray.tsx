@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Attachment } from '../types';
+import { attachmentUrl } from '../services/attachments';
+
+interface AttachmentTrayProps {
+    attachments: Attachment[];
+    error: string | null;
+    onRemove: (id: string) => void;
+}
+
+const AttachmentTray = ({ attachments, error, onRemove }: AttachmentTrayProps) => {
+    if (!attachments.length && !error) return null;
+
+    return (
+        <div className="attachment-tray">
+            {attachments.map(attachment => (
+                <div key={attachment.id} className="attachment-thumb" title={`${attachment.name} (${attachment.width}×${attachment.height})`}>
+                    <img src={attachmentUrl(attachment)} alt={attachment.name} />
+                    <button onClick={() => onRemove(attachment.id)} title="Remove Image" aria-label={`Remove ${attachment.name}`}>
+                        &times;
+                    </button>
+                </div>
+            ))}
+            {error && <span className="attachment-error">{error}</span>}
+        </div>
+    );
+};
+
+export default AttachmentTray;
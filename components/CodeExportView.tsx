@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { EXPORT_FORMATS, ExportFormat, componentFileName, exportComponent, htmlToStandaloneDocument } from '../services/exporters';
+import { buildProjectBundle } from '../services/projectBundle';
+import { buildComponentsArchive, detectRepeatedComponents, toComponentName } from '../services/subComponents';
+import { DesignSystem } from '../types';
+import { downloadBlob } from '../utils';
+import { CodeIcon, CopyIcon, DownloadIcon, ReactIcon, CheckIcon, PackageIcon, TerminalIcon } from './Icons';
+import SourceEditor from './SourceEditor';
+
+interface CodeExportViewProps {
+    html: string;
+    designSystem: DesignSystem;
+    trusted?: boolean;
+    /** Enables the editor tab; edits are handed back as complete HTML. */
+    onSave?: (html: string) => void;
+    /** The artifact cannot be saved right now, e.g. while it is streaming. */
+    readOnly?: boolean;
+    /** Opens on this repeated sub-component (see `detectRepeatedComponents`) instead of the whole artifact. */
+    initialComponent?: number;
+}
+
+const CodeExportView = ({ html, designSystem, trusted, onSave, readOnly, initialComponent }: CodeExportViewProps) => {
+    const [format, setFormat] = useState<ExportFormat>('html');
+    const [isEditing, setIsEditing] = useState(!!onSave && initialComponent === undefined);
+    const [copied, setCopied] = useState(false);
+    const [scope, setScope] = useState<number | null>(initialComponent ?? null);
+    const [names, setNames] = useState<Record<number, string>>({});
+
+    const components = useMemo(() => detectRepeatedComponents(html), [html]);
+    const componentName = (i: number) => toComponentName(names[i] ?? components[i].name);
+    // A scope can outlive its component when the artifact changes; fall back to the whole artifact.
+    const component = scope !== null && components[scope] ? { name: componentName(scope), html: components[scope].html } : null;
+    const scopedHtml = component?.html ?? html;
+
+    const codeToDisplay = useMemo(
+        () => exportComponent(scopedHtml, format, component?.name),
+        [format, scopedHtml, component?.name]
+    );
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(codeToDisplay);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    const fileName = component ? componentFileName(format, component.name) : EXPORT_FORMATS[format].fileName;
+
+    const handleDownload = () => {
+        const content = format === 'html' ? htmlToStandaloneDocument(scopedHtml, designSystem) : codeToDisplay;
+        downloadBlob(new Blob([content], { type: EXPORT_FORMATS[format].mimeType }), fileName);
+    };
+
+    const handleDownloadBundle = () => {
+        downloadBlob(buildProjectBundle(scopedHtml, format, designSystem), `signal-canvas-${format}.zip`);
+    };
+
+    const handleDownloadComponents = () => {
+        const named = components.map((c, i) => ({ name: componentName(i), html: c.html }));
+        downloadBlob(buildComponentsArchive(named, format, designSystem), `signal-canvas-components-${format}.zip`);
+    };
+
+    const handleScopeChange = (value: string) => {
+        setScope(value === '' ? null : Number(value));
+        if (value !== '') setIsEditing(false);
+    };
+
+    return (
+        <div className="code-export-view">
+            <div className="export-tabs">
+                {onSave && (
+                    <button className={isEditing ? 'active' : ''} onClick={() => { setIsEditing(true); setScope(null); }}>
+                        <TerminalIcon /> Edit
+                    </button>
+                )}
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => (
+                    <button 
+                        key={f}
+                        className={!isEditing && format === f ? 'active' : ''} 
+                        onClick={() => { setFormat(f); setIsEditing(false); }}
+                    >
+                        {f === 'react' ? <ReactIcon /> : <CodeIcon />} {EXPORT_FORMATS[f].label}
+                    </button>
+                ))}
+                <div className="spacer"></div>
+                <button className="icon-btn" onClick={handleCopy} title="Copy Code">
+                    {copied ? <CheckIcon /> : <CopyIcon />}
+                </button>
+                <button className="icon-btn" onClick={handleDownload} title={`Download ${fileName}`}>
+                    <DownloadIcon />
+                </button>
+                <button className="icon-btn" onClick={handleDownloadBundle} title="Download Project Bundle (ZIP)">
+                    <PackageIcon />
+                </button>
+            </div>
+            {components.length > 0 && (
+                <div className="export-scope">
+                    <select value={component ? String(scope) : ''} onChange={(e) => handleScopeChange(e.target.value)} title="Export the whole artifact or one repeated sub-component">
+                        <option value="">Whole artifact</option>
+                        {components.map((c, i) => (
+                            <option key={i} value={i}>{componentName(i)} ({c.count}&times; &lt;{c.tagName}&gt;)</option>
+                        ))}
+                    </select>
+                    {component && (
+                        <input
+                            value={names[scope!] ?? components[scope!].name}
+                            onChange={(e) => setNames(prev => ({ ...prev, [scope!]: e.target.value }))}
+                            placeholder="Component name"
+                            title="Component name"
+                        />
+                    )}
+                    <button onClick={handleDownloadComponents} title={`Download every sub-component as ${EXPORT_FORMATS[format].label} (ZIP)`}>
+                        <PackageIcon /> All Components
+                    </button>
+                </div>
+            )}
+            {/* Kept mounted while another tab is shown so the draft and its undo history survive. */}
+            {onSave && (
+                <div hidden={!isEditing}>
+                    <SourceEditor html={html} designSystem={designSystem} trusted={trusted} readOnly={readOnly} onSave={onSave} />
+                </div>
+            )}
+            {!isEditing && <pre className="code-block"><code>{codeToDisplay}</code></pre>}
+        </div>
+    );
+};
+
+export default CodeExportView;
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { DesignSystem } from '../types';
+import { VIEWPORT_PRESETS } from '../constants';
+import { ComparisonCandidate } from '../services/revisions';
+import { formatHtml } from '../services/htmlFormat';
+import { countChanges, diffLines } from '../services/lineDiff';
+import { wrapArtifactHtml } from '../utils';
+import ViewportFrame from './ViewportFrame';
+
+interface ComparisonViewProps {
+    candidates: ComparisonCandidate[];
+    initialSelection: string[];
+    designSystem: DesignSystem;
+    onClose: () => void;
+}
+
+const MAX_PANES = 4;
+const DIFF_MARKERS = { equal: ' ', insert: '+', delete: '-' };
+
+const ComparisonView = ({ candidates, initialSelection, designSystem, onClose }: ComparisonViewProps) => {
+    const [panes, setPanes] = useState<string[]>(initialSelection);
+    const [viewportId, setViewportId] = useState('fit');
+    const [showDiff, setShowDiff] = useState(false);
+
+    const byKey = useMemo(() => new Map(candidates.map(c => [c.key, c])), [candidates]);
+    const viewport = VIEWPORT_PRESETS.find(v => v.id === viewportId) ?? VIEWPORT_PRESETS[0];
+
+    // Candidates can disappear while open (e.g. a session is deleted); drop panes that no longer resolve.
+    const visiblePanes = panes.filter(key => byKey.has(key));
+    const [left, right] = visiblePanes.map(key => byKey.get(key)!);
+
+    const diff = useMemo(
+        () => showDiff && left && right ? diffLines(formatHtml(left.html), formatHtml(right.html)) : [],
+        [showDiff, left, right]
+    );
+    const changes = countChanges(diff);
+
+    useEffect(() => {
+        // Capture so Escape closes the comparison without also leaving focus mode underneath.
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key !== 'Escape') return;
+            e.stopPropagation();
+            onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [onClose]);
+
+    const setPane = (index: number, key: string) => setPanes(visiblePanes.map((k, i) => i === index ? key : k));
+    const removePane = (index: number) => setPanes(visiblePanes.filter((_, i) => i !== index));
+    const addPane = () => {
+        const next = candidates.find(c => !visiblePanes.includes(c.key)) ?? candidates[0];
+        if (next) setPanes([...visiblePanes, next.key]);
+    };
+
+    return (
+        <div className="comparison-view">
+            <div className="comparison-toolbar">
+                <h2>Compare</h2>
+                <div className="comparison-viewports">
+                    {VIEWPORT_PRESETS.map(v => (
+                        <button key={v.id} className={v.id === viewportId ? 'active' : ''} onClick={() => setViewportId(v.id)}>
+                            {v.label}
+                        </button>
+                    ))}
+                </div>
+                <button className={showDiff ? 'active' : ''} onClick={() => setShowDiff(d => !d)} disabled={visiblePanes.length < 2}>
+                    Source Diff
+                </button>
+                <button onClick={addPane} disabled={showDiff || visiblePanes.length >= MAX_PANES}>+ Pane</button>
+                <button onClick={onClose} className="close-button">&times;</button>
+            </div>
+
+            {showDiff && left && right ? (
+                <div className="comparison-diff">
+                    <div className="comparison-diff-header">
+                        <span>{left.label} → {right.label}</span>
+                        <span className="diff-stat-add">+{changes.added}</span>
+                        <span className="diff-stat-remove">-{changes.removed}</span>
+                    </div>
+                    <pre>
+                        {diff.map((line, i) => (
+                            <div key={i} className={`diff-line diff-${line.op}`}>
+                                <span className="diff-gutter">{line.oldLine ?? ''}</span>
+                                <span className="diff-gutter">{line.newLine ?? ''}</span>
+                                <span className="diff-marker">{DIFF_MARKERS[line.op]}</span>
+                                {line.text}
+                            </div>
+                        ))}
+                    </pre>
+                </div>
+            ) : (
+                <div className="comparison-panes" style={{ gridTemplateColumns: `repeat(${visiblePanes.length}, minmax(0, 1fr))` }}>
+                    {visiblePanes.map((key, i) => (
+                        <div key={i} className="comparison-pane">
+                            <div className="comparison-pane-header">
+                                <select value={key} onChange={(e) => setPane(i, e.target.value)}>
+                                    {candidates.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+                                </select>
+                                {visiblePanes.length > 2 && (
+                                    <button onClick={() => removePane(i)} title="Remove Pane">&times;</button>
+                                )}
+                            </div>
+                            <ViewportFrame
+                                srcDoc={wrapArtifactHtml(byKey.get(key)!.html, designSystem)}
+                                title={byKey.get(key)!.label}
+                                width={viewport.width}
+                                height={viewport.height}
+                            />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ComparisonView;
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Session } from '../types';
+import { getSessionDesignSystem } from '../services/designSystems';
+import { EXPORT_FORMATS, ExportFormat } from '../services/exporters';
+import { buildGalleryArchive, countTags, filterGallery, listGalleryEntries } from '../services/gallery';
+import { SANDBOX_FLAGS } from '../services/sandbox';
+import { downloadBlob, wrapArtifactHtml } from '../utils';
+import { StarIcon } from './Icons';
+import TagEditor from './TagEditor';
+
+interface ComponentGalleryProps {
+    sessions: Session[];
+    /** Puts the artifact back on the main stage, focused. */
+    onOpen: (sessionId: string, artifactId: string) => void;
+    onToggleStar: (sessionId: string, artifactId: string) => void;
+    onChangeTags: (sessionId: string, artifactId: string, tags: string[]) => void;
+    onClose: () => void;
+}
+
+const ComponentGallery = ({ sessions, onOpen, onToggleStar, onChangeTags, onClose }: ComponentGalleryProps) => {
+    const [query, setQuery] = useState('');
+    const [tag, setTag] = useState<string | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(() => new Set());
+    const [format, setFormat] = useState<ExportFormat>('html');
+
+    const entries = useMemo(() => listGalleryEntries(sessions), [sessions]);
+    const tags = useMemo(() => countTags(entries.map(e => e.artifact)), [entries]);
+    const visible = useMemo(() => filterGallery(entries, { query, tag }), [entries, query, tag]);
+    // Selection only counts what is still in view, so a filter change never exports hidden entries.
+    const selectedVisible = visible.filter(e => selected.has(e.artifact.id));
+
+    useEffect(() => {
+        // Capture so Escape closes the gallery without also leaving focus mode underneath.
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key !== 'Escape') return;
+            e.stopPropagation();
+            onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [onClose]);
+
+    const toggleSelected = (id: string) => setSelected(prev => {
+        const next = new Set(prev);
+        if (!next.delete(id)) next.add(id);
+        return next;
+    });
+
+    const handleSelectAll = () => setSelected(selectedVisible.length === visible.length
+        ? new Set()
+        : new Set(visible.map(e => e.artifact.id)));
+
+    const handleExport = () => {
+        const targets = selectedVisible.length ? selectedVisible : visible;
+        downloadBlob(buildGalleryArchive(targets, format), `signal-canvas-gallery-${new Date().toISOString().slice(0, 10)}.zip`);
+    };
+
+    return (
+        <div className="comparison-view component-gallery">
+            <div className="comparison-toolbar">
+                <h2>Gallery</h2>
+                <input
+                    className="component-gallery-search"
+                    type="search"
+                    placeholder="Filter by prompt, style or tag..."
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                />
+                <span className="component-gallery-count">{visible.length} of {entries.length}</span>
+                <button onClick={handleSelectAll} disabled={!visible.length}>
+                    {visible.length && selectedVisible.length === visible.length ? 'Select None' : 'Select All'}
+                </button>
+                <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} title="Export format">
+                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => <option key={f} value={f}>{EXPORT_FORMATS[f].label}</option>)}
+                </select>
+                <button onClick={handleExport} disabled={!visible.length}>
+                    Export {selectedVisible.length ? `${selectedVisible.length} Selected` : 'All'}
+                </button>
+                <button onClick={onClose} className="close-button">&times;</button>
+            </div>
+
+            {tags.length > 0 && (
+                <div className="component-gallery-tags">
+                    <button className={tag === null ? 'active' : ''} onClick={() => setTag(null)}>All</button>
+                    {tags.map(t => (
+                        <button key={t.tag} className={tag === t.tag ? 'active' : ''} onClick={() => setTag(tag === t.tag ? null : t.tag)}>
+                            {t.tag} <span>{t.count}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <div className="component-gallery-grid">
+                {visible.map(({ session, artifact }) => (
+                    <div key={artifact.id} className={`component-gallery-card ${selected.has(artifact.id) ? 'selected' : ''}`}>
+                        <div className="component-gallery-thumb" onClick={() => onOpen(session.id, artifact.id)} title="Open on the stage">
+                            <iframe
+                                srcDoc={wrapArtifactHtml(artifact.html, getSessionDesignSystem(session))}
+                                title={artifact.styleName}
+                                sandbox={SANDBOX_FLAGS}
+                                loading="lazy"
+                                tabIndex={-1}
+                            />
+                        </div>
+                        <div className="component-gallery-meta">
+                            <label>
+                                <input type="checkbox" checked={selected.has(artifact.id)} onChange={() => toggleSelected(artifact.id)} />
+                                <strong>{artifact.styleName}</strong>
+                            </label>
+                            <button className="artifact-star starred" title="Remove from gallery" onClick={() => onToggleStar(session.id, artifact.id)}>
+                                <StarIcon />
+                            </button>
+                        </div>
+                        <p className="component-gallery-prompt">{session.prompt}</p>
+                        <TagEditor
+                            tags={artifact.tags ?? []}
+                            suggestions={tags.map(t => t.tag)}
+                            onChange={(next) => onChangeTags(session.id, artifact.id, next)}
+                        />
+                    </div>
+                ))}
+                {visible.length === 0 && (
+                    <p className="component-gallery-empty">
+                        {entries.length ? 'No saved components match.' : 'Star an artifact to save it here.'}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ComponentGallery;
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { DesignSystem } from '../types';
+import { parseDesignSystem } from '../services/designSystems';
+import { downloadBlob } from '../utils';
+
+interface DesignSystemPanelProps {
+    designSystems: DesignSystem[];
+    activeId: string;
+    onSelect: (id: string) => void;
+    onImport: (designSystem: DesignSystem) => void;
+    onDelete: (id: string) => void;
+}
+
+const isCustom = (ds: DesignSystem) => ds.id.startsWith('custom-');
+
+const DesignSystemPanel = ({ designSystems, activeId, onSelect, onImport, onDelete }: DesignSystemPanelProps) => {
+    const [source, setSource] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const handleImport = (json: string) => {
+        try {
+            onImport(parseDesignSystem(json));
+            setSource('');
+            setError(null);
+        } catch (e: any) {
+            setError(e?.message ?? String(e));
+        }
+    };
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (file) handleImport(await file.text());
+    };
+
+    const handleDownloadTemplate = (ds: DesignSystem) => {
+        const { id, ...template } = ds;
+        downloadBlob(new Blob([JSON.stringify(template, null, 2)], { type: 'application/json' }), `${id}.design-system.json`);
+    };
+
+    return (
+        <div className="design-system-panel">
+            <ul className="design-system-list">
+                {designSystems.map(ds => (
+                    <li
+                        key={ds.id}
+                        className={`design-system-item ${ds.id === activeId ? 'active' : ''}`}
+                        onClick={() => onSelect(ds.id)}
+                    >
+                        <div className="design-system-swatches">
+                            {[ds.palette.background, ds.palette.surface, ds.palette.accent, ds.palette.text].map((color, i) => (
+                                <span key={i} style={{ background: color }} />
+                            ))}
+                        </div>
+                        <div className="design-system-info">
+                            <strong>{ds.name}</strong>
+                            <span>{ds.description}</span>
+                        </div>
+                        <div className="design-system-actions">
+                            <button title="Download as JSON" onClick={(e) => { e.stopPropagation(); handleDownloadTemplate(ds); }}>JSON</button>
+                            {isCustom(ds) && (
+                                <button title="Delete Preset" onClick={(e) => { e.stopPropagation(); onDelete(ds.id); }}>&times;</button>
+                            )}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+
+            <div className="settings-panel">
+                <label>
+                    <span>Import Custom Preset</span>
+                    <textarea
+                        rows={6}
+                        value={source}
+                        placeholder='{ "name": "Acme Brand", "palette": { "background": "#fff", "accent": "#e11d48" } }'
+                        onChange={(e) => setSource(e.target.value)}
+                    />
+                </label>
+                {error && <p className="settings-error">{error}</p>}
+                <div className="design-system-import">
+                    <button type="button" onClick={() => handleImport(source)} disabled={!source.trim()}>Import</button>
+                    <label className="design-system-file">
+                        Load File
+                        <input type="file" accept="application/json,.json" onChange={handleFile} />
+                    </label>
+                </div>
+                <p className="settings-hint">
+                    Only <code>name</code> and <code>palette</code> are required. Download any preset above for the full shape.
+                    The active preset applies to new sessions; existing sessions keep the one they were generated with.
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default DesignSystemPanel;
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { DesignSystem } from '../types';
+import { TOKEN_CATEGORIES, TOKEN_FORMATS, TokenCategory, TokenFormat, countTokens, extractDesignTokens, formatTokens } from '../services/designTokens';
+import { detectRepeatedComponents } from '../services/subComponents';
+import { downloadBlob } from '../utils';
+import { CheckIcon, CodeIcon, CopyIcon, DownloadIcon, PaletteIcon } from './Icons';
+
+interface DesignTokensPanelProps {
+    html: string;
+    designSystem: DesignSystem;
+    /** Opens the source drawer on repeated component `index`. */
+    onExportComponent: (index: number) => void;
+}
+
+type TokensView = 'overview' | TokenFormat;
+
+const DesignTokensPanel = ({ html, designSystem, onExportComponent }: DesignTokensPanelProps) => {
+    const [view, setView] = useState<TokensView>('overview');
+    const [copied, setCopied] = useState(false);
+
+    const tokens = useMemo(() => extractDesignTokens(html, designSystem), [html, designSystem]);
+    const components = useMemo(() => detectRepeatedComponents(html), [html]);
+    // The overview copies and downloads as JSON.
+    const format: TokenFormat = view === 'overview' ? 'json' : view;
+    const output = useMemo(() => formatTokens(tokens, format), [tokens, format]);
+    const categories = (Object.keys(TOKEN_CATEGORIES) as TokenCategory[]).filter(c => tokens[c].length);
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(output);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    const handleDownload = () => {
+        const { fileName, mimeType } = TOKEN_FORMATS[format];
+        downloadBlob(new Blob([output], { type: mimeType }), fileName);
+    };
+
+    return (
+        <div className="design-tokens-panel">
+            <div className="export-tabs">
+                <button className={view === 'overview' ? 'active' : ''} onClick={() => setView('overview')}>
+                    <PaletteIcon /> Tokens <span className="diagnostics-count">{countTokens(tokens)}</span>
+                </button>
+                {(Object.keys(TOKEN_FORMATS) as TokenFormat[]).map(f => (
+                    <button key={f} className={view === f ? 'active' : ''} onClick={() => setView(f)}>
+                        <CodeIcon /> {TOKEN_FORMATS[f].label}
+                    </button>
+                ))}
+                <div className="spacer"></div>
+                <button className="icon-btn" onClick={handleCopy} title={`Copy ${TOKEN_FORMATS[format].label}`}>
+                    {copied ? <CheckIcon /> : <CopyIcon />}
+                </button>
+                <button className="icon-btn" onClick={handleDownload} title={`Download ${TOKEN_FORMATS[format].fileName}`}>
+                    <DownloadIcon />
+                </button>
+            </div>
+
+            {view !== 'overview' ? (
+                <pre className="code-block"><code>{output}</code></pre>
+            ) : (
+                <>
+                    {categories.length === 0 && <p className="settings-hint">No Tailwind tokens found in this artifact.</p>}
+                    {categories.map(category => (
+                        <section key={category} className="design-tokens-category">
+                            <h3>{TOKEN_CATEGORIES[category]}</h3>
+                            <ul>
+                                {tokens[category].map(token => (
+                                    <li key={token.name}>
+                                        {category === 'colors' && <span className="design-token-swatch" style={{ background: token.value ?? 'transparent' }}></span>}
+                                        <code>{token.name}</code>
+                                        <span className="design-token-value">{token.value ?? 'not in theme'}</span>
+                                        <span className="design-token-uses" title="Uses">&times;{token.uses}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    ))}
+
+                    <section className="design-tokens-category">
+                        <h3>Repeated Structures</h3>
+                        {components.length === 0 ? (
+                            <p className="settings-hint">No structure repeats in this artifact.</p>
+                        ) : (
+                            <ul>
+                                {components.map((component, i) => (
+                                    <li key={i}>
+                                        <code>{component.name}</code>
+                                        <span className="design-token-value">{component.count}&times; &lt;{component.tagName}&gt;</span>
+                                        <button onClick={() => onExportComponent(i)}>Export</button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </section>
+
+                    <p className="settings-hint">
+                        Tokens are read from the Tailwind classes, inline styles and style blocks the artifact uses, resolved against Tailwind's defaults and the design system's theme.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default DesignTokensPanel;
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { DiagnosticEntry } from '../types';
+
+interface DiagnosticsPanelProps {
+    entries: DiagnosticEntry[];
+    onClear: () => void;
+}
+
+type DiagnosticsFilter = 'all' | 'errors' | 'console' | 'network';
+
+const FILTERS: { id: DiagnosticsFilter; label: string; matches: (entry: DiagnosticEntry) => boolean }[] = [
+    { id: 'all', label: 'All', matches: () => true },
+    { id: 'errors', label: 'Errors', matches: entry => entry.level === 'error' || entry.kind === 'csp' },
+    { id: 'console', label: 'Console', matches: entry => entry.kind === 'console' },
+    { id: 'network', label: 'Network', matches: entry => entry.kind === 'network' || entry.kind === 'csp' }
+];
+
+const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const DiagnosticsPanel = ({ entries, onClear }: DiagnosticsPanelProps) => {
+    const [filter, setFilter] = useState<DiagnosticsFilter>('all');
+
+    const counts = useMemo(
+        () => Object.fromEntries(FILTERS.map(f => [f.id, entries.filter(f.matches).length])) as Record<DiagnosticsFilter, number>,
+        [entries]
+    );
+    const visible = useMemo(() => entries.filter(FILTERS.find(f => f.id === filter)!.matches), [entries, filter]);
+
+    return (
+        <div className="diagnostics-panel">
+            <div className="export-tabs">
+                {FILTERS.map(f => (
+                    <button key={f.id} className={filter === f.id ? 'active' : ''} onClick={() => setFilter(f.id)}>
+                        {f.label} <span className="diagnostics-count">{counts[f.id]}</span>
+                    </button>
+                ))}
+                <div className="spacer"></div>
+                <button onClick={onClear} disabled={!entries.length}>Clear</button>
+            </div>
+
+            {visible.length === 0 ? (
+                <p className="settings-hint">
+                    {entries.length ? 'Nothing matches this filter.' : 'No console output, errors or network activity since the preview loaded.'}
+                </p>
+            ) : (
+                <ul className="diagnostics-list">
+                    {visible.map(entry => (
+                        <li key={entry.id} className={`diagnostics-entry level-${entry.level}`}>
+                            <span className="diagnostics-time">{formatTime(entry.timestamp)}</span>
+                            <span className="diagnostics-kind">{entry.kind === 'console' ? entry.level : entry.kind}</span>
+                            <div className="diagnostics-message">
+                                <pre>{entry.message}</pre>
+                                {entry.detail && (
+                                    <details>
+                                        <summary>Details</summary>
+                                        <pre>{entry.detail}</pre>
+                                    </details>
+                                )}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <p className="settings-hint">
+                Sandboxed previews cannot reach the network, so fetch and XHR attempts show up here as blocked requests.
+            </p>
+        </div>
+    );
+};
+
+export default DiagnosticsPanel;
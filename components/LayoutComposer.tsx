@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { DesignSystem, LayoutOption } from '../types';
+import { VIEWPORT_PRESETS } from '../constants';
+import { ComparisonCandidate } from '../services/revisions';
+import { BUILT_IN_LAYOUTS, composeLayout, listLayoutSlots } from '../services/layouts';
+import { EXPORT_FORMATS, exportComponent, htmlToStandaloneDocument } from '../services/exporters';
+import { downloadBlob, wrapArtifactHtml } from '../utils';
+import ViewportFrame from './ViewportFrame';
+
+interface LayoutComposerProps {
+    candidates: ComparisonCandidate[];
+    /** Candidate keys placed into the first slots, in order. */
+    initialSelection: string[];
+    designSystem: DesignSystem;
+    /** Asks the model for layouts suited to the session. */
+    onProposeLayouts: () => Promise<LayoutOption[]>;
+    onClose: () => void;
+}
+
+const LayoutComposer = ({ candidates, initialSelection, designSystem, onProposeLayouts, onClose }: LayoutComposerProps) => {
+    const [layouts, setLayouts] = useState<LayoutOption[]>(BUILT_IN_LAYOUTS);
+    const [layoutIndex, setLayoutIndex] = useState(0);
+    const [assignments, setAssignments] = useState<Record<string, string>>(() =>
+        Object.fromEntries(listLayoutSlots(BUILT_IN_LAYOUTS[0]).map((slot, i) => [slot, initialSelection[i]]).filter(([, key]) => key))
+    );
+    const [viewportId, setViewportId] = useState('fit');
+    const [isProposing, setIsProposing] = useState(false);
+    const [proposalError, setProposalError] = useState<string | null>(null);
+
+    const byKey = useMemo(() => new Map(candidates.map(c => [c.key, c])), [candidates]);
+    const layout = layouts[layoutIndex] ?? layouts[0];
+    const slots = useMemo(() => listLayoutSlots(layout), [layout]);
+    const viewport = VIEWPORT_PRESETS.find(v => v.id === viewportId) ?? VIEWPORT_PRESETS[0];
+
+    // Candidates can disappear while open (e.g. a session is deleted); such slots read as empty.
+    const slotHtml = useMemo(
+        () => Object.fromEntries(slots.map(slot => [slot, byKey.get(assignments[slot])?.html])),
+        [slots, assignments, byKey]
+    );
+    const previewDoc = useMemo(
+        () => wrapArtifactHtml(composeLayout(layout, slotHtml, { placeholders: true }), designSystem),
+        [layout, slotHtml, designSystem]
+    );
+
+    useEffect(() => {
+        // Capture so Escape closes the composer without also leaving focus mode underneath.
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key !== 'Escape') return;
+            e.stopPropagation();
+            onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [onClose]);
+
+    // Switching layouts carries the placed artifacts over, in slot order.
+    const selectLayout = (index: number) => {
+        const placed = slots.map(slot => assignments[slot]).filter(Boolean);
+        const next = listLayoutSlots(layouts[index]);
+        setAssignments(Object.fromEntries(next.map((slot, i) => [slot, placed[i]]).filter(([, key]) => key)));
+        setLayoutIndex(index);
+    };
+
+    const assign = (slot: string, key: string) => setAssignments(prev => ({ ...prev, [slot]: key }));
+
+    const handlePropose = async () => {
+        setIsProposing(true);
+        setProposalError(null);
+        try {
+            const proposed = await onProposeLayouts();
+            if (!proposed.length) throw new Error('The model did not return any usable layouts');
+            setLayouts(prev => [...prev, ...proposed]);
+        } catch (e: any) {
+            setProposalError(e?.message ?? String(e));
+        } finally {
+            setIsProposing(false);
+        }
+    };
+
+    const handleExport = (format: 'html' | 'react') => {
+        const page = composeLayout(layout, slotHtml);
+        const content = format === 'html' ? htmlToStandaloneDocument(page, designSystem) : exportComponent(page, 'react');
+        const fileName = format === 'html' ? 'signal-canvas-layout.html' : 'GeneratedLayout.tsx';
+        downloadBlob(new Blob([content], { type: EXPORT_FORMATS[format].mimeType }), fileName);
+    };
+
+    const hasContent = slots.some(slot => slotHtml[slot]);
+
+    return (
+        <div className="comparison-view layout-composer">
+            <div className="comparison-toolbar">
+                <h2>Compose</h2>
+                <div className="comparison-viewports">
+                    {VIEWPORT_PRESETS.map(v => (
+                        <button key={v.id} className={v.id === viewportId ? 'active' : ''} onClick={() => setViewportId(v.id)}>
+                            {v.label}
+                        </button>
+                    ))}
+                </div>
+                <button onClick={() => handleExport('html')} disabled={!hasContent}>Export HTML</button>
+                <button onClick={() => handleExport('react')} disabled={!hasContent}>Export React</button>
+                <button onClick={onClose} className="close-button">&times;</button>
+            </div>
+
+            <div className="layout-composer-body">
+                <aside className="layout-composer-sidebar">
+                    <h3>Layout</h3>
+                    <div className="layout-composer-layouts">
+                        {layouts.map((option, i) => (
+                            <button
+                                key={i}
+                                className={i === layoutIndex ? 'active' : ''}
+                                onClick={() => selectLayout(i)}
+                                title={option.name}
+                            >
+                                <div className="layout-composer-thumb">
+                                    <iframe
+                                        srcDoc={wrapArtifactHtml(composeLayout(option, {}, { placeholders: true }), designSystem)}
+                                        title={option.name}
+                                        sandbox=""
+                                        tabIndex={-1}
+                                    />
+                                </div>
+                                <span>{option.name}</span>
+                            </button>
+                        ))}
+                    </div>
+                    <button className="layout-composer-propose" onClick={handlePropose} disabled={isProposing}>
+                        {isProposing ? 'Proposing…' : 'Propose Layouts'}
+                    </button>
+                    {proposalError && <p className="settings-error">{proposalError}</p>}
+
+                    <h3>Slots</h3>
+                    {slots.map(slot => (
+                        <label key={slot} className="layout-composer-slot">
+                            <span>{slot.replace(/-/g, ' ')}</span>
+                            <select value={byKey.has(assignments[slot]) ? assignments[slot] : ''} onChange={(e) => assign(slot, e.target.value)}>
+                                <option value="">— Empty —</option>
+                                {candidates.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+                            </select>
+                        </label>
+                    ))}
+                </aside>
+
+                <div className="layout-composer-preview">
+                    <ViewportFrame srcDoc={previewDoc} title={layout.name} width={viewport.width} height={viewport.height} />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LayoutComposer;
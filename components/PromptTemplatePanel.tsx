@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { DesignSystem, PromptTemplate, PromptTemplateKind } from '../types';
+import {
+    ActiveTemplateIds,
+    TEMPLATE_KINDS,
+    cloneTemplate,
+    isBuiltInTemplate,
+    parseTemplateExport,
+    resolveTemplate,
+    serializeTemplates,
+    unknownTemplateVariables
+} from '../services/promptTemplates';
+import { previewPromptTemplate } from '../services/prompts';
+import { downloadBlob } from '../utils';
+
+interface PromptTemplatePanelProps {
+    /** Built-in and custom templates of every kind. */
+    templates: PromptTemplate[];
+    activeIds: ActiveTemplateIds;
+    /** Supplies the sample values for previews. */
+    designSystem: DesignSystem;
+    onActivate: (kind: PromptTemplateKind, id: string) => void;
+    onSave: (template: PromptTemplate) => void;
+    onDelete: (id: string) => void;
+    onImport: (templates: PromptTemplate[]) => void;
+}
+
+const PromptTemplatePanel = ({ templates, activeIds, designSystem, onActivate, onSave, onDelete, onImport }: PromptTemplatePanelProps) => {
+    const [kind, setKind] = useState<PromptTemplateKind>('artifact');
+    const [selectedIds, setSelectedIds] = useState<ActiveTemplateIds>(activeIds);
+    // Unsaved edits to the selected template; dropped when another one is selected.
+    const [draft, setDraft] = useState<PromptTemplate | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const ofKind = templates.filter(t => t.kind === kind);
+    const active = resolveTemplate(templates, activeIds, kind);
+    const selected = ofKind.find(t => t.id === selectedIds[kind]) ?? active;
+    const current = draft?.id === selected.id ? draft : selected;
+    const readOnly = isBuiltInTemplate(current);
+    const unknown = unknownTemplateVariables(current);
+
+    const select = (template: PromptTemplate) => {
+        setSelectedIds(prev => ({ ...prev, [template.kind]: template.id }));
+        setDraft(null);
+        setError(null);
+    };
+
+    const update = (patch: Partial<PromptTemplate>) => setDraft({ ...current, ...patch });
+
+    const handleClone = (template: PromptTemplate) => {
+        const copy = cloneTemplate(template);
+        onSave(copy);
+        select(copy);
+    };
+
+    const handleSave = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (!current.name.trim() || !current.body.trim()) {
+            setError('A template needs a name and a body');
+            return;
+        }
+        onSave({ ...current, name: current.name.trim(), model: current.model?.trim() || undefined });
+        setDraft(null);
+        setError(null);
+    };
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            onImport(parseTemplateExport(await file.text()));
+            setError(null);
+        } catch (e: any) {
+            setError(e?.message ?? String(e));
+        }
+    };
+
+    const handleExport = () => {
+        const custom = templates.filter(t => !isBuiltInTemplate(t));
+        downloadBlob(new Blob([serializeTemplates(custom)], { type: 'application/json' }), 'signal-canvas-prompt-templates.json');
+    };
+
+    return (
+        <div className="design-system-panel">
+            <div className="template-kinds">
+                {(Object.keys(TEMPLATE_KINDS) as PromptTemplateKind[]).map(k => (
+                    <button key={k} className={k === kind ? 'active' : ''} onClick={() => { setKind(k); setDraft(null); setError(null); }}>
+                        {TEMPLATE_KINDS[k].label}
+                    </button>
+                ))}
+            </div>
+
+            <ul className="design-system-list">
+                {ofKind.map(t => (
+                    <li key={t.id} className={`design-system-item ${t.id === current.id ? 'active' : ''}`} onClick={() => select(t)}>
+                        <div className="design-system-info">
+                            <strong>{t.name}{t.id === active.id && <em className="template-in-use">In Use</em>}</strong>
+                            <span>{t.model ?? 'Configured model'} · {t.temperature !== undefined ? `temperature ${t.temperature}` : 'default temperature'}</span>
+                        </div>
+                        <div className="design-system-actions">
+                            {t.id !== active.id && (
+                                <button title="Use for new requests" onClick={(e) => { e.stopPropagation(); onActivate(kind, t.id); }}>Use</button>
+                            )}
+                            <button title="Clone as an editable copy" onClick={(e) => { e.stopPropagation(); handleClone(t); }}>Clone</button>
+                            {!isBuiltInTemplate(t) && (
+                                <button title="Delete Template" onClick={(e) => { e.stopPropagation(); onDelete(t.id); }}>&times;</button>
+                            )}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+
+            <form className="settings-panel" onSubmit={handleSave}>
+                <label>
+                    <span>Name</span>
+                    <input type="text" value={current.name} readOnly={readOnly} onChange={(e) => update({ name: e.target.value })} />
+                </label>
+                <label>
+                    <span>Template</span>
+                    <textarea rows={10} value={current.body} readOnly={readOnly} spellCheck={false} onChange={(e) => update({ body: e.target.value })} />
+                </label>
+                {unknown.length > 0 && (
+                    <p className="settings-error">Unknown variable{unknown.length === 1 ? '' : 's'}: {unknown.map(v => `{{${v}}}`).join(', ')}. They are sent as written.</p>
+                )}
+                <dl className="template-variables">
+                    {Object.entries(TEMPLATE_KINDS[kind].variables).map(([name, description]) => (
+                        <React.Fragment key={name}>
+                            <dt>{`{{${name}}}`}</dt>
+                            <dd>{description}</dd>
+                        </React.Fragment>
+                    ))}
+                </dl>
+                <div className="template-options">
+                    <label>
+                        <span>Model</span>
+                        <input type="text" value={current.model ?? ''} placeholder="Configured model" readOnly={readOnly} onChange={(e) => update({ model: e.target.value })} />
+                    </label>
+                    <label>
+                        <span>Temperature</span>
+                        <input
+                            type="number" min="0" max="2" step="0.1"
+                            value={current.temperature ?? ''}
+                            placeholder="Default"
+                            readOnly={readOnly}
+                            onChange={(e) => update({ temperature: e.target.value === '' ? undefined : Math.min(2, Math.max(0, Number(e.target.value))) })}
+                        />
+                    </label>
+                </div>
+                <label>
+                    <span>Preview ({designSystem.name})</span>
+                    <pre className="template-preview">{previewPromptTemplate(current, designSystem)}</pre>
+                </label>
+                {error && <p className="settings-error">{error}</p>}
+                {readOnly
+                    ? <p className="settings-hint">Built-in templates are read-only. Clone one to edit it.</p>
+                    : <button type="submit" disabled={draft?.id !== current.id}>Save</button>}
+            </form>
+
+            <div className="settings-panel">
+                <div className="design-system-import">
+                    <label className="design-system-file">
+                        Import
+                        <input type="file" accept="application/json,.json" onChange={handleFile} />
+                    </label>
+                    <button type="button" onClick={handleExport} disabled={templates.every(isBuiltInTemplate)}>Export Custom</button>
+                </div>
+                <p className="settings-hint">
+                    A template's model and temperature apply to every call made with it; the provider connection stays as configured.
+                    Custom templates may change the output format the app expects; if generations stop parsing, switch back to the built-in one.
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default PromptTemplatePanel;
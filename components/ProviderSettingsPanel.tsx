@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { DEFAULT_MODELS, PROVIDER_LABELS, ProviderId, ProviderSettings } from '../services/providers';
+
+interface ProviderSettingsPanelProps {
+    settings: ProviderSettings;
+    onSave: (settings: ProviderSettings) => void;
+}
+
+const ProviderSettingsPanel = ({ settings, onSave }: ProviderSettingsPanelProps) => {
+    const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+    const update = (patch: Partial<ProviderSettings>) => setDraft(d => ({ ...d, ...patch }));
+
+    const handleProviderChange = (providerId: ProviderId) => {
+        // Only swap the model when it is still the previous provider's default.
+        const keepModel = draft.model && draft.model !== DEFAULT_MODELS[draft.providerId];
+        update({ providerId, model: keepModel ? draft.model : DEFAULT_MODELS[providerId] });
+    };
+
+    return (
+        <form className="settings-panel" onSubmit={(e) => { e.preventDefault(); onSave(draft); }}>
+            <label>
+                <span>Provider</span>
+                <select value={draft.providerId} onChange={(e) => handleProviderChange(e.target.value as ProviderId)}>
+                    {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                        <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+                    ))}
+                </select>
+            </label>
+            <label>
+                <span>Model</span>
+                <input
+                    type="text"
+                    value={draft.model}
+                    placeholder={DEFAULT_MODELS[draft.providerId]}
+                    onChange={(e) => update({ model: e.target.value })}
+                />
+            </label>
+            {draft.providerId === 'openai' && (
+                <>
+                    <label>
+                        <span>Base URL</span>
+                        <input type="url" value={draft.baseUrl} onChange={(e) => update({ baseUrl: e.target.value })} />
+                    </label>
+                    <label>
+                        <span>API Key</span>
+                        <input type="password" value={draft.apiKey} autoComplete="off" onChange={(e) => update({ apiKey: e.target.value })} />
+                    </label>
+                </>
+            )}
+            {draft.providerId === 'gemini' && (
+                <p className="settings-hint">Requests go through the app server, which holds GEMINI_API_KEY. The key never reaches the browser.</p>
+            )}
+            {draft.providerId === 'mock' && (
+                <p className="settings-hint">Streams canned HTML locally. No network or API key required.</p>
+            )}
+            <button type="submit">Apply</button>
+        </form>
+    );
+};
+
+export default ProviderSettingsPanel;
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Artifact } from '../types';
+import { getRevisionIndex, getRevisions } from '../services/revisions';
+import { ArrowLeftIcon, ArrowRightIcon, ArrowUpIcon } from './Icons';
+
+interface RefineBarProps {
+    artifact: Artifact;
+    disabled: boolean;
+    onRefine: (instruction: string) => void;
+    onSelectRevision: (index: number) => void;
+}
+
+const RefineBar = ({ artifact, disabled, onRefine, onSelectRevision }: RefineBarProps) => {
+    const [instruction, setInstruction] = useState('');
+
+    const revisions = getRevisions(artifact);
+    const revisionIndex = getRevisionIndex(artifact);
+
+    const submit = () => {
+        const trimmed = instruction.trim();
+        if (!trimmed || disabled) return;
+        onRefine(trimmed);
+        setInstruction('');
+    };
+
+    return (
+        <div className="refine-bar">
+            <div className="refine-input">
+                <input
+                    type="text"
+                    value={instruction}
+                    placeholder='Refine this component, e.g. "make the chart a line graph"'
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && submit()}
+                    disabled={disabled}
+                />
+                <button className="send-button" onClick={submit} disabled={disabled || !instruction.trim()}>
+                    <ArrowUpIcon />
+                </button>
+            </div>
+            {revisions.length > 1 && (
+                <div className="revision-stepper">
+                    <button onClick={() => onSelectRevision(revisionIndex - 1)} disabled={disabled || revisionIndex <= 0} title="Previous Revision">
+                        <ArrowLeftIcon />
+                    </button>
+                    <select value={revisionIndex} onChange={(e) => onSelectRevision(Number(e.target.value))} disabled={disabled}>
+                        {revisions.map((rev, i) => (
+                            <option key={rev.id} value={i}>REV {i + 1} — {rev.label}</option>
+                        ))}
+                    </select>
+                    <button onClick={() => onSelectRevision(revisionIndex + 1)} disabled={disabled || revisionIndex >= revisions.length - 1} title="Next Revision">
+                        <ArrowRightIcon />
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RefineBar;
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { Session } from '../types';
+import { getSessionDesignSystem } from '../services/designSystems';
+import { SANDBOX_FLAGS } from '../services/sandbox';
+import { wrapArtifactHtml } from '../utils';
+import { DownloadIcon } from './Icons';
+
+interface SessionHistoryProps {
+    isOpen: boolean;
+    sessions: Session[];
+    currentSessionIndex: number;
+    onSelect: (index: number) => void;
+    onDelete: (sessionId: string) => void;
+    onClearAll: () => void;
+    onExport: (sessions: Session[]) => void;
+    onImport: (file: File) => void;
+    onClose: () => void;
+}
+
+const formatTimestamp = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const isToday = date.toDateString() === new Date().toDateString();
+    return isToday
+        ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+const SessionHistory = ({
+    isOpen,
+    sessions,
+    currentSessionIndex,
+    onSelect,
+    onDelete,
+    onClearAll,
+    onExport,
+    onImport,
+    onClose
+}: SessionHistoryProps) => {
+    const [query, setQuery] = useState('');
+
+    // Newest first, keeping each session's real index so selection maps back into `sessions`.
+    const entries = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        return sessions
+            .map((session, index) => ({ session, index }))
+            .filter(({ session }) => !needle || session.prompt.toLowerCase().includes(needle))
+            .reverse();
+    }, [sessions, query]);
+
+    if (!isOpen) return null;
+
+    return (
+        <aside className="session-history">
+            <div className="session-history-header">
+                <h2>Archive</h2>
+                <button onClick={onClose} className="close-button">&times;</button>
+            </div>
+            <input
+                className="session-history-search"
+                type="search"
+                placeholder="Search prompts..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+            />
+            <ol className="session-history-list">
+                {entries.map(({ session, index }) => (
+                    <li
+                        key={session.id}
+                        className={`session-history-item ${index === currentSessionIndex ? 'active' : ''}`}
+                        onClick={() => onSelect(index)}
+                    >
+                        <div className="session-history-meta">
+                            <span className="session-history-prompt">{session.prompt}</span>
+                            <time>{formatTimestamp(session.timestamp)}</time>
+                            <button
+                                className="session-history-export"
+                                title="Export Session"
+                                onClick={(e) => { e.stopPropagation(); onExport([session]); }}
+                            >
+                                <DownloadIcon />
+                            </button>
+                            <button
+                                className="session-history-delete"
+                                title="Delete Session"
+                                onClick={(e) => { e.stopPropagation(); onDelete(session.id); }}
+                            >
+                                &times;
+                            </button>
+                        </div>
+                        <div className="session-history-thumbs">
+                            {session.artifacts.map(artifact => (
+                                <div key={artifact.id} className="session-history-thumb">
+                                    {artifact.status === 'complete' && (
+                                        <iframe
+                                            srcDoc={wrapArtifactHtml(artifact.html, getSessionDesignSystem(session))}
+                                            title={artifact.styleName}
+                                            sandbox={SANDBOX_FLAGS}
+                                            loading="lazy"
+                                            tabIndex={-1}
+                                        />
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </li>
+                ))}
+                {entries.length === 0 && (
+                    <li className="session-history-empty">No matching sessions.</li>
+                )}
+            </ol>
+            <div className="session-history-footer">
+                <label className="session-history-clear">
+                    Import
+                    <input
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) onImport(file); }}
+                    />
+                </label>
+                {sessions.length > 0 && (
+                    <>
+                        <button className="session-history-clear" onClick={() => onExport(sessions)}>Export All</button>
+                        <button className="session-history-clear danger" onClick={onClearAll}>Purge Archive</button>
+                    </>
+                )}
+            </div>
+        </aside>
+    );
+};
+
+export default SessionHistory;
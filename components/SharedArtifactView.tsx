@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { SharedArtifact, readPermalink } from '../services/permalink';
+import { SANDBOX_FLAGS } from '../services/sandbox';
+import { wrapArtifactHtml } from '../utils';
+import { GridIcon } from './Icons';
+import ViewportFrame from './ViewportFrame';
+
+interface SharedArtifactViewProps {
+    /** The `#share=...` fragment the page was opened with. */
+    fragment: string;
+}
+
+/**
+ * Read-only view of an artifact opened from a permalink. Shared markup is
+ * always treated as untrusted, whatever its author had set.
+ */
+const SharedArtifactView = ({ fragment }: SharedArtifactViewProps) => {
+    const [shared, setShared] = useState<SharedArtifact | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        readPermalink(fragment)
+            .then(setShared)
+            .catch((e: Error) => setError(e.message));
+    }, [fragment]);
+
+    const srcDoc = useMemo(() => shared ? wrapArtifactHtml(shared.html, shared.designSystem) : '', [shared]);
+
+    const openApp = () => {
+        window.location.href = `${window.location.origin}${window.location.pathname}`;
+    };
+
+    return (
+        <div className="shared-artifact">
+            <header className="shared-artifact-header">
+                <div>
+                    <span className="artifact-style-tag">{shared?.styleName ?? 'Shared Artifact'}</span>
+                    {shared && <p>{shared.prompt}</p>}
+                </div>
+                <span className="shared-artifact-badge">Read Only</span>
+                <button onClick={openApp}><GridIcon /> Open Signal Canvas</button>
+            </header>
+            {error && <p className="shared-artifact-error">{error}</p>}
+            {shared && (
+                <div className="shared-artifact-frame">
+                    <ViewportFrame srcDoc={srcDoc} title={shared.styleName} width={null} sandbox={SANDBOX_FLAGS} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SharedArtifactView;
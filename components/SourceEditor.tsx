@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DesignSystem } from '../types';
+import { wrapArtifactHtml } from '../utils';
+import { formatHtml } from '../services/htmlFormat';
+import { highlightHtml } from '../services/htmlHighlight';
+import { INDENT } from '../services/componentParts';
+import { getSandboxFlags } from '../services/sandbox';
+import { ArrowLeftIcon, ArrowRightIcon, CheckIcon, CodeIcon, RetryIcon } from './Icons';
+
+interface SourceEditorProps {
+    html: string;
+    designSystem: DesignSystem;
+    trusted?: boolean;
+    /** Disables saving, e.g. while the artifact is streaming. */
+    readOnly?: boolean;
+    onSave: (html: string) => void;
+}
+
+const PREVIEW_DEBOUNCE_MS = 400;
+// Keystrokes closer together than this are undone as one step.
+const UNDO_GROUP_MS = 800;
+const MAX_UNDO_STEPS = 200;
+
+interface EditorSnapshot {
+    value: string;
+    selectionStart: number;
+    selectionEnd: number;
+}
+
+/**
+ * A highlighted text area with its own undo history. The browser's native
+ * undo is lost whenever the value is replaced from script (formatting, tab
+ * insertion, reverting), so history is tracked here instead.
+ */
+const SourceEditor = ({ html, designSystem, trusted, readOnly = false, onSave }: SourceEditorProps) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const highlightRef = useRef<HTMLPreElement>(null);
+    const [draft, setDraft] = useState(html);
+    const [previewHtml, setPreviewHtml] = useState(html);
+    const [undoStack, setUndoStack] = useState<EditorSnapshot[]>([]);
+    const [redoStack, setRedoStack] = useState<EditorSnapshot[]>([]);
+    const lastEditRef = useRef(0);
+    const savedRef = useRef(html);
+
+    // Follow the artifact (a saved edit, a revision switch) unless there are unsaved changes.
+    useEffect(() => {
+        setDraft(current => current === savedRef.current ? html : current);
+        savedRef.current = html;
+    }, [html]);
+
+    useEffect(() => {
+        const timer = setTimeout(() => setPreviewHtml(draft), PREVIEW_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [draft]);
+
+    const tokens = useMemo(() => highlightHtml(draft), [draft]);
+    const srcDoc = useMemo(
+        () => wrapArtifactHtml(previewHtml, designSystem, { trusted }),
+        [previewHtml, designSystem, trusted]
+    );
+
+    const isDirty = draft !== html;
+
+    const snapshot = (): EditorSnapshot => ({
+        value: draft,
+        selectionStart: textareaRef.current?.selectionStart ?? draft.length,
+        selectionEnd: textareaRef.current?.selectionEnd ?? draft.length
+    });
+
+    const restoreSelection = (start: number, end = start) => {
+        requestAnimationFrame(() => textareaRef.current?.setSelectionRange(start, end));
+    };
+
+    /** Replaces the draft, recording an undo step unless this continues the current typing burst. */
+    const applyEdit = (value: string, { group = false } = {}) => {
+        if (value === draft) return;
+        const now = Date.now();
+        if (!group || now - lastEditRef.current > UNDO_GROUP_MS) {
+            setUndoStack(stack => [...stack, snapshot()].slice(-MAX_UNDO_STEPS));
+        }
+        lastEditRef.current = group ? now : 0;
+        setRedoStack([]);
+        setDraft(value);
+    };
+
+    const undo = () => {
+        const previous = undoStack[undoStack.length - 1];
+        if (!previous) return;
+        setUndoStack(stack => stack.slice(0, -1));
+        setRedoStack(stack => [...stack, snapshot()]);
+        lastEditRef.current = 0;
+        setDraft(previous.value);
+        restoreSelection(previous.selectionStart, previous.selectionEnd);
+    };
+
+    const redo = () => {
+        const next = redoStack[redoStack.length - 1];
+        if (!next) return;
+        setRedoStack(stack => stack.slice(0, -1));
+        setUndoStack(stack => [...stack, snapshot()]);
+        lastEditRef.current = 0;
+        setDraft(next.value);
+        restoreSelection(next.selectionStart, next.selectionEnd);
+    };
+
+    const handleFormat = () => applyEdit(formatHtml(draft));
+
+    const handleSave = () => {
+        if (readOnly || !isDirty) return;
+        onSave(draft);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        const mod = e.metaKey || e.ctrlKey;
+        const key = e.key.toLowerCase();
+        if (mod && key === 'z') {
+            e.preventDefault();
+            if (e.shiftKey) redo(); else undo();
+        } else if (mod && key === 'y') {
+            e.preventDefault();
+            redo();
+        } else if (mod && key === 's') {
+            e.preventDefault();
+            handleSave();
+        } else if (e.key === 'Tab' && !mod && !e.altKey) {
+            e.preventDefault();
+            const { selectionStart, selectionEnd } = e.currentTarget;
+            applyEdit(draft.slice(0, selectionStart) + INDENT + draft.slice(selectionEnd));
+            restoreSelection(selectionStart + INDENT.length);
+        }
+    };
+
+    const syncScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+        if (!highlightRef.current) return;
+        highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+        highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    };
+
+    return (
+        <div className="source-editor">
+            <div className="export-tabs">
+                <button onClick={undo} disabled={!undoStack.length} title="Undo (Ctrl+Z)"><ArrowLeftIcon /> Undo</button>
+                <button onClick={redo} disabled={!redoStack.length} title="Redo (Ctrl+Shift+Z)"><ArrowRightIcon /> Redo</button>
+                <button onClick={handleFormat} title="Format Document"><CodeIcon /> Format</button>
+                <div className="spacer"></div>
+                <button onClick={() => applyEdit(html)} disabled={!isDirty} title="Discard Unsaved Changes"><RetryIcon /> Revert</button>
+                <button className="source-editor-save" onClick={handleSave} disabled={readOnly || !isDirty} title="Save as Revision (Ctrl+S)">
+                    <CheckIcon /> Save
+                </button>
+            </div>
+
+            <div className="source-editor-code">
+                <pre ref={highlightRef} className="source-editor-highlight" aria-hidden="true">
+                    {tokens.map((token, i) => <span key={i} className={`hl-${token.type}`}>{token.text}</span>)}
+                    {/* A trailing newline only gets a line box if something follows it. */}
+                    {'\n'}
+                </pre>
+                <textarea
+                    ref={textareaRef}
+                    value={draft}
+                    spellCheck={false}
+                    autoCapitalize="off"
+                    autoComplete="off"
+                    onChange={(e) => applyEdit(e.target.value, { group: true })}
+                    onKeyDown={handleKeyDown}
+                    onScroll={syncScroll}
+                />
+            </div>
+
+            <div className="source-editor-preview">
+                <span className="source-editor-status">
+                    {readOnly ? 'Generating…' : isDirty ? 'Unsaved changes' : 'Saved'}
+                </span>
+                <iframe srcDoc={srcDoc} title="Live Preview" sandbox={getSandboxFlags(trusted)} />
+            </div>
+        </div>
+    );
+};
+
+export default SourceEditor;
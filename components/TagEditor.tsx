@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useId, useState } from 'react';
+import { addTag, removeTag } from '../services/gallery';
+
+interface TagEditorProps {
+    tags: string[];
+    /** Tags already used elsewhere, offered as completions. */
+    suggestions: string[];
+    onChange: (tags: string[]) => void;
+}
+
+/** Tag chips with an input: Enter or comma adds, Backspace on an empty input removes the last one. */
+const TagEditor = ({ tags, suggestions, onChange }: TagEditorProps) => {
+    const [draft, setDraft] = useState('');
+    const listId = useId();
+
+    const commit = () => {
+        if (!draft.trim()) return;
+        onChange(addTag(tags, draft));
+        setDraft('');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            commit();
+        } else if (e.key === 'Backspace' && !draft && tags.length) {
+            onChange(tags.slice(0, -1));
+        }
+    };
+
+    return (
+        <div className="tag-editor" onClick={(e) => e.stopPropagation()}>
+            {tags.map(tag => (
+                <span key={tag} className="tag-chip">
+                    {tag}
+                    <button onClick={() => onChange(removeTag(tags, tag))} title={`Remove "${tag}"`}>&times;</button>
+                </span>
+            ))}
+            <input
+                value={draft}
+                list={listId}
+                placeholder={tags.length ? 'Add tag' : 'Add tags...'}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={commit}
+            />
+            <datalist id={listId}>
+                {suggestions.filter(s => !tags.includes(s)).map(s => <option key={s} value={s} />)}
+            </datalist>
+        </div>
+    );
+};
+
+export default TagEditor;
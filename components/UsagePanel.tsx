@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Session } from '../types';
+import {
+    UsageLedger,
+    UsageSettings,
+    UsageTotals,
+    costOf,
+    dateKey,
+    formatCost,
+    sessionUsage,
+    summarizeLedger,
+    summarizeUsage
+} from '../services/usage';
+
+interface UsagePanelProps {
+    /** The session on screen, if any. */
+    session?: Session;
+    ledger: UsageLedger;
+    settings: UsageSettings;
+    /** Listed in the price table even before it has a price. */
+    currentModel: string;
+    onSaveSettings: (settings: UsageSettings) => void;
+}
+
+interface PriceRow { model: string; input: string; output: string; }
+
+const formatTokens = (count: number) => count >= 10000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+const formatMs = (ms: number | null) => ms === null ? '—' : ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+
+const toRows = (settings: UsageSettings, currentModel: string): PriceRow[] => {
+    const rows = Object.entries(settings.prices).map(([model, p]) => ({ model, input: String(p.input), output: String(p.output) }));
+    return settings.prices[currentModel] ? rows : [{ model: currentModel, input: '', output: '' }, ...rows];
+};
+
+const TotalsGrid = ({ totals }: { totals: UsageTotals }) => (
+    <dl className="usage-totals">
+        <div><dt>Cost</dt><dd>{formatCost(totals.cost)}</dd></div>
+        <div><dt>Calls</dt><dd>{totals.calls}</dd></div>
+        <div><dt>Input</dt><dd>{formatTokens(totals.inputTokens)}</dd></div>
+        <div><dt>Output</dt><dd>{formatTokens(totals.outputTokens)}</dd></div>
+    </dl>
+);
+
+const UsagePanel = ({ session, ledger, settings, currentModel, onSaveSettings }: UsagePanelProps) => {
+    const [budget, setBudget] = useState(settings.dailyBudget === null ? '' : String(settings.dailyBudget));
+    const [rows, setRows] = useState<PriceRow[]>(() => toRows(settings, currentModel));
+    const [error, setError] = useState<string | null>(null);
+
+    const today = summarizeLedger(ledger, settings.prices, [dateKey()]);
+    const allTime = summarizeLedger(ledger, settings.prices);
+    const records = session ? sessionUsage(session) : [];
+    const summary = summarizeUsage(records, settings.prices);
+    const overBudget = settings.dailyBudget !== null && today.cost >= settings.dailyBudget;
+
+    const updateRow = (index: number, patch: Partial<PriceRow>) => setRows(prev => prev.map((r, i) => i === index ? { ...r, ...patch } : r));
+
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const dailyBudget = budget.trim() === '' ? null : Number(budget);
+        if (dailyBudget !== null && !(dailyBudget >= 0)) {
+            setError('The daily budget must be a positive number of dollars');
+            return;
+        }
+        const prices: UsageSettings['prices'] = {};
+        for (const row of rows) {
+            if (!row.model.trim()) continue;
+            const input = Number(row.input || 0);
+            const output = Number(row.output || 0);
+            if (!(input >= 0) || !(output >= 0)) {
+                setError(`Prices for ${row.model} must be positive numbers`);
+                return;
+            }
+            prices[row.model.trim()] = { input, output };
+        }
+        setError(null);
+        onSaveSettings({ prices, dailyBudget });
+    };
+
+    return (
+        <div className="usage-panel">
+            <section>
+                <h3>Today</h3>
+                <TotalsGrid totals={today} />
+                {settings.dailyBudget !== null && (
+                    <div className={`usage-budget ${overBudget ? 'exceeded' : ''}`}>
+                        <div className="usage-budget-bar">
+                            <div style={{ width: `${Math.min(100, settings.dailyBudget ? today.cost / settings.dailyBudget * 100 : 100)}%` }}></div>
+                        </div>
+                        <span>
+                            {overBudget
+                                ? `Daily budget of ${formatCost(settings.dailyBudget)} reached. New runs are blocked until tomorrow or until the budget is raised.`
+                                : `${formatCost(today.cost)} of ${formatCost(settings.dailyBudget)} daily budget`}
+                        </span>
+                    </div>
+                )}
+            </section>
+
+            <section>
+                <h3>Last 90 Days</h3>
+                <TotalsGrid totals={allTime} />
+                {allTime.unpricedCalls > 0 && (
+                    <p className="settings-hint">{allTime.unpricedCalls} call{allTime.unpricedCalls === 1 ? '' : 's'} used models without a price and are not in the cost.</p>
+                )}
+            </section>
+
+            {session && (
+                <section>
+                    <h3>This Session</h3>
+                    <TotalsGrid totals={summary} />
+                    <dl className="usage-totals">
+                        <div><dt>First Token</dt><dd>{formatMs(summary.averageFirstTokenMs)}</dd></div>
+                        <div><dt>Latency</dt><dd>{formatMs(summary.averageLatencyMs)}</dd></div>
+                        <div><dt>Retries</dt><dd>{summary.retries}</dd></div>
+                    </dl>
+                    {records.length > 0 ? (
+                        <table className="usage-calls">
+                            <thead>
+                                <tr><th>Call</th><th>Tokens</th><th>Cost</th><th>Time</th></tr>
+                            </thead>
+                            <tbody>
+                                {[{ name: 'Session', usage: session.usage ?? [] }, ...session.artifacts.map(a => ({ name: a.styleName, usage: a.usage ?? [] }))]
+                                    .flatMap(({ name, usage }) => usage.map(r => ({ ...r, name })))
+                                    .map((r, i) => {
+                                        const cost = costOf(r.model, r.inputTokens, r.outputTokens, settings.prices);
+                                        return (
+                                            <tr key={i} title={`${r.model}${r.retries ? `, ${r.retries} retr${r.retries === 1 ? 'y' : 'ies'}` : ''}`}>
+                                                <td><strong>{r.name}</strong><span>{r.label}</span></td>
+                                                <td>{r.estimated ? '~' : ''}{formatTokens(r.inputTokens)} / {formatTokens(r.outputTokens)}</td>
+                                                <td>{cost === null ? '—' : formatCost(cost)}</td>
+                                                <td>{formatMs(r.latencyMs)}</td>
+                                            </tr>
+                                        );
+                                    })}
+                            </tbody>
+                        </table>
+                    ) : (
+                        <p className="settings-hint">No calls recorded for this session.</p>
+                    )}
+                    {summary.estimated && <p className="settings-hint">~ The backend reported no token counts; these are estimated from the text.</p>}
+                </section>
+            )}
+
+            <form className="settings-panel" onSubmit={handleSubmit}>
+                <h3>Budget &amp; Prices</h3>
+                <label>
+                    <span>Daily Budget (USD)</span>
+                    <input type="number" min="0" step="0.01" value={budget} placeholder="No limit" onChange={(e) => setBudget(e.target.value)} />
+                </label>
+                <div className="usage-prices">
+                    <span>Model</span><span>Input $/M</span><span>Output $/M</span><span></span>
+                    {rows.map((row, i) => (
+                        <React.Fragment key={i}>
+                            <input type="text" value={row.model} placeholder="model-name" onChange={(e) => updateRow(i, { model: e.target.value })} />
+                            <input type="number" min="0" step="0.01" value={row.input} onChange={(e) => updateRow(i, { input: e.target.value })} />
+                            <input type="number" min="0" step="0.01" value={row.output} onChange={(e) => updateRow(i, { output: e.target.value })} />
+                            <button type="button" onClick={() => setRows(prev => prev.filter((_, j) => j !== i))} title="Remove">&times;</button>
+                        </React.Fragment>
+                    ))}
+                </div>
+                <button type="button" className="usage-add-price" onClick={() => setRows(prev => [...prev, { model: '', input: '', output: '' }])}>+ Model</button>
+                {error && <p className="settings-error">{error}</p>}
+                <p className="settings-hint">Costs are estimates from these prices, not the provider's invoice. Models without a price count as free and cannot trip the budget.</p>
+                <button type="submit">Save</button>
+            </form>
+        </div>
+    );
+};
+
+export default UsagePanel;
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { SANDBOX_FLAGS } from '../services/sandbox';
+
+interface ViewportFrameProps {
+    srcDoc: string;
+    title: string;
+    /** Simulated viewport width in CSS pixels; `null` fills the container. */
+    width: number | null;
+    /** Simulated viewport height; `null` fills the container's height. */
+    height?: number | null;
+    /** Scale the viewport down to fit the container instead of scrolling. */
+    fit?: boolean;
+    sandbox?: string;
+    frameRef?: React.Ref<HTMLIFrameElement>;
+}
+
+/**
+ * Renders an iframe at a fixed viewport size and scales it down to fit its
+ * container, so media queries see the simulated width rather than the pane's.
+ */
+const ViewportFrame = ({ srcDoc, title, width, height = null, fit = true, sandbox = SANDBOX_FLAGS, frameRef }: ViewportFrameProps) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [size, setSize] = useState({ width: 0, height: 0 });
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    let stageStyle: React.CSSProperties = { width: '100%', height: '100%' };
+    let frameStyle: React.CSSProperties = { width: '100%', height: '100%' };
+    let scale = 1;
+
+    if (width && size.width) {
+        scale = fit ? Math.min(1, size.width / width, height ? size.height / height : 1) : 1;
+        const frameHeight = height ?? size.height / scale;
+        stageStyle = { width: width * scale, height: frameHeight * scale };
+        frameStyle = { width, height: frameHeight, transform: `scale(${scale})` };
+    }
+
+    return (
+        <div ref={containerRef} className={`viewport-frame ${fit ? '' : 'scrollable'}`}>
+            <div className="viewport-frame-stage" style={stageStyle}>
+                <iframe ref={frameRef} srcDoc={srcDoc} title={title} sandbox={sandbox} style={frameStyle} />
+            </div>
+            {width && (
+                <span className="viewport-frame-size">
+                    {width}{height ? ` × ${height}` : 'px'}{scale < 1 ? ` @ ${Math.round(scale * 100)}%` : ''}
+                </span>
+            )}
+        </div>
+    );
+};
+
+export default ViewportFrame;
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ViewportSettings } from '../types';
+import { VIEWPORT_PRESETS } from '../constants';
+import { resolveViewportSize } from '../utils';
+import { CameraIcon, RotateIcon } from './Icons';
+
+interface ViewportToolbarProps {
+    settings: ViewportSettings;
+    onChange: (settings: ViewportSettings) => void;
+    onScreenshot: () => void;
+    isCapturing: boolean;
+}
+
+const MIN_SIZE = 120;
+const MAX_SIZE = 3840;
+
+const SCHEME_CYCLE: ViewportSettings['colorScheme'][] = [null, 'dark', 'light'];
+const SCHEME_LABELS = { auto: 'Auto', dark: 'Dark', light: 'Light' };
+
+const clampSize = (value: number) => Math.min(MAX_SIZE, Math.max(MIN_SIZE, Math.round(value) || MIN_SIZE));
+
+const ViewportToolbar = ({ settings, onChange, onScreenshot, isCapturing }: ViewportToolbarProps) => {
+    const update = (patch: Partial<ViewportSettings>) => onChange({ ...settings, ...patch });
+    const isFill = !resolveViewportSize(settings);
+
+    const handlePresetChange = (presetId: string) => {
+        const preset = VIEWPORT_PRESETS.find(p => p.id === presetId);
+        // Seed the custom size from the preset being left so switching to custom is not a jump.
+        const seed = resolveViewportSize(settings);
+        update(presetId === 'custom'
+            ? { presetId, width: seed?.width ?? settings.width, height: seed?.height ?? settings.height, rotated: false }
+            : { presetId, rotated: preset?.width ? settings.rotated : false });
+    };
+
+    const nextScheme = SCHEME_CYCLE[(SCHEME_CYCLE.indexOf(settings.colorScheme) + 1) % SCHEME_CYCLE.length];
+
+    return (
+        <div className="viewport-toolbar" onClick={(e) => e.stopPropagation()}>
+            <select value={settings.presetId} onChange={(e) => handlePresetChange(e.target.value)} title="Device">
+                {VIEWPORT_PRESETS.map(p => (
+                    <option key={p.id} value={p.id}>{p.width ? `${p.label} ${p.width}×${p.height}` : p.label}</option>
+                ))}
+                <option value="custom">Custom</option>
+            </select>
+            {settings.presetId === 'custom' && (
+                <span className="viewport-size-inputs">
+                    <input
+                        type="number"
+                        min={MIN_SIZE}
+                        max={MAX_SIZE}
+                        value={settings.width}
+                        onChange={(e) => update({ width: clampSize(Number(e.target.value)) })}
+                        aria-label="Viewport Width"
+                    />
+                    ×
+                    <input
+                        type="number"
+                        min={MIN_SIZE}
+                        max={MAX_SIZE}
+                        value={settings.height}
+                        onChange={(e) => update({ height: clampSize(Number(e.target.value)) })}
+                        aria-label="Viewport Height"
+                    />
+                </span>
+            )}
+            <button onClick={() => update({ rotated: !settings.rotated })} disabled={isFill} title="Rotate">
+                <RotateIcon />
+            </button>
+            <button
+                className={settings.fit ? 'active' : ''}
+                onClick={() => update({ fit: !settings.fit })}
+                disabled={isFill}
+                title="Zoom to Fit"
+            >
+                Fit
+            </button>
+            <button onClick={() => update({ colorScheme: nextScheme })} title="Color Scheme">
+                {SCHEME_LABELS[settings.colorScheme ?? 'auto']}
+            </button>
+            <button onClick={onScreenshot} disabled={isCapturing} title="Save Screenshot (PNG)">
+                <CameraIcon />
+            </button>
+        </div>
+    );
+};
+
+export default ViewportToolbar;
@@ -11,4 +11,21 @@ export const INITIAL_PLACEHOLDERS = [
     "Make a brutalist music player",
     "Generate a sleek pricing table",
     "Ask for anything"
-];
\ No newline at end of file
+];
+
+export interface ViewportPreset {
+    id: string;
+    label: string;
+    /** CSS pixel size of the simulated viewport; `null` fills the available space. */
+    width: number | null;
+    height: number | null;
+}
+
+export const VIEWPORT_PRESETS: ViewportPreset[] = [
+    { id: 'fit', label: 'Fit', width: null, height: null },
+    { id: 'mobile', label: 'Mobile', width: 375, height: 667 },
+    { id: 'tablet', label: 'Tablet', width: 768, height: 1024 },
+    { id: 'desktop', label: 'Desktop', width: 1280, height: 800 }
+];
+
+export const MAX_GENERATION_COUNT = 9;
@@ -6,17 +6,92 @@
 
 // Vibe coded by ammaar@google.com for Third Signal Lab
 
-import { GoogleGenAI } from '@google/genai';
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
 
-import { Artifact, Session, ComponentVariation, LayoutOption } from './types';
-import { INITIAL_PLACEHOLDERS } from './constants';
-import { generateId } from './utils';
+import { AccessibilityReport, Artifact, Attachment, Session, ComponentVariation, LayoutOption, DesignSystem, DiagnosticEntry, PromptTemplate, PromptTemplateKind, UsageRecord } from './types';
+import { INITIAL_PLACEHOLDERS, MAX_GENERATION_COUNT } from './constants';
+import { downloadBlob, generateId, wrapArtifactHtml } from './utils';
+import { createSessionStore } from './services/sessionStore';
+import {
+    candidateKey,
+    commitRevision,
+    currentCandidateKey,
+    getRevisionIndex,
+    listComparisonCandidates,
+    selectRevision
+} from './services/revisions';
+import { StreamParseError, extractJsonArray, parseJsonStream, stripCodeFences } from './services/streamParser';
+import { createProvider, describeError, isAbortError, loadProviderSettings, saveProviderSettings, ProviderSettings } from './services/providers';
+import { withRetry } from './services/retry';
+import { generateArtifactHtml, generateStyleDirections } from './services/pipeline';
+import { SANDBOX_FLAGS } from './services/sandbox';
+import {
+    BUILT_IN_DESIGN_SYSTEMS,
+    DEFAULT_DESIGN_SYSTEM,
+    getSessionDesignSystem,
+    loadActiveDesignSystemId,
+    loadCustomDesignSystems,
+    saveActiveDesignSystemId,
+    saveCustomDesignSystems
+} from './services/designSystems';
+import {
+    buildAccessibilityFixPrompt,
+    buildElementEditPrompt,
+    buildLayoutOptionsPrompt,
+    buildPlaceholderPrompt,
+    buildRefinePrompt,
+    buildVariationsPrompt
+} from './services/prompts';
+import { describeFindings } from './services/accessibility';
+import { AttachmentError, MAX_ATTACHMENTS, readImageAttachment } from './services/attachments';
+import { SessionImportError, exportFileName, mergeImport, parseSessionExport, planImport, serializeSessions } from './services/sessionTransfer';
+import { PermalinkError, buildPermalink, isPermalink } from './services/permalink';
+import { parseLayoutOptions } from './services/layouts';
+import { countTags } from './services/gallery';
+import { locateElement, replaceElement } from './services/elementEdit';
+import {
+    ActiveTemplateIds,
+    DEFAULT_PROMPT_TEMPLATES,
+    loadActiveTemplateIds,
+    loadCustomTemplates,
+    resolveTemplate,
+    saveActiveTemplateIds,
+    saveCustomTemplates
+} from './services/promptTemplates';
+import {
+    UsageSettings,
+    addToLedger,
+    createUsageMeter,
+    dateKey,
+    formatCost,
+    isOverBudget,
+    loadUsageLedger,
+    loadUsageSettings,
+    saveUsageLedger,
+    saveUsageSettings,
+    summarizeLedger
+} from './services/usage';
 
 import KryptonHudBackground from './components/DottedGlowBackground';
 import ArtifactCard from './components/ArtifactCard';
 import SideDrawer from './components/SideDrawer';
+import SessionHistory from './components/SessionHistory';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import DesignSystemPanel from './components/DesignSystemPanel';
+import RefineBar from './components/RefineBar';
+import CodeExportView from './components/CodeExportView';
+import ComparisonView from './components/ComparisonView';
+import LayoutComposer from './components/LayoutComposer';
+import ComponentGallery from './components/ComponentGallery';
+import TagEditor from './components/TagEditor';
+import UsagePanel from './components/UsagePanel';
+import PromptTemplatePanel from './components/PromptTemplatePanel';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import AccessibilityPanel from './components/AccessibilityPanel';
+import DesignTokensPanel from './components/DesignTokensPanel';
+import AttachmentTray from './components/AttachmentTray';
+import SharedArtifactView from './components/SharedArtifactView';
 import { 
     ThinkingIcon, 
     CodeIcon, 
@@ -25,84 +100,28 @@ import {
     ArrowRightIcon, 
     ArrowUpIcon, 
     GridIcon,
+    LayersIcon,
+    SettingsIcon,
+    StopIcon,
+    PaletteIcon,
+    TerminalIcon,
+    ImageIcon,
+    CheckIcon,
     CopyIcon,
-    DownloadIcon,
-    ReactIcon,
-    CheckIcon
+    GaugeIcon,
+    TemplateIcon,
+    StarIcon
 } from './components/Icons';
 
-function CodeExportView({ html }: { html: string }) {
-    const [format, setFormat] = useState<'html' | 'react'>('html');
-    const [copied, setCopied] = useState(false);
+const sessionStore = createSessionStore();
 
-    const getReactCode = (rawHtml: string) => {
-        let jsx = rawHtml
-            .replace(/class=/g, 'className=')
-            .replace(/for=/g, 'htmlFor=');
-        
-        return `import React from 'react';\n\nexport default function GeneratedComponent() {\n  return (\n    <>\n      ${jsx.split('\n').map(line => '      ' + line).join('\n').trim()}\n    </>\n  );\n}`;
-    };
-
-    const codeToDisplay = format === 'html' ? html : getReactCode(html);
+// Per artifact; the oldest entries are dropped first.
+const MAX_DIAGNOSTICS_PER_ARTIFACT = 200;
 
-    const handleCopy = () => {
-        navigator.clipboard.writeText(codeToDisplay);
-        setCopied(true);
-        setTimeout(() => setCopied(false), 2000);
-    };
+const countErrors = (entries: DiagnosticEntry[] = []) => entries.filter(entry => entry.level === 'error').length;
 
-    const handleDownload = () => {
-        const fullHtml = `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Signal Canvas Export</title>
-    <script src="https://cdn.tailwindcss.com"></script>
-    <style>
-        body { margin: 0; padding: 20px; background: #030407; color: #e0faff; font-family: sans-serif; }
-    </style>
-</head>
-<body>
-    ${html}
-</body>
-</html>`;
-        const blob = new Blob([fullHtml], { type: 'text/html' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'signal-canvas-component.html';
-        a.click();
-        URL.revokeObjectURL(url);
-    };
-
-    return (
-        <div className="code-export-view">
-            <div className="export-tabs">
-                <button 
-                    className={format === 'html' ? 'active' : ''} 
-                    onClick={() => setFormat('html')}
-                >
-                    <CodeIcon /> HTML
-                </button>
-                <button 
-                    className={format === 'react' ? 'active' : ''} 
-                    onClick={() => setFormat('react')}
-                >
-                    <ReactIcon /> React
-                </button>
-                <div className="spacer"></div>
-                <button className="icon-btn" onClick={handleCopy} title="Copy Code">
-                    {copied ? <CheckIcon /> : <CopyIcon />}
-                </button>
-                <button className="icon-btn" onClick={handleDownload} title="Download HTML">
-                    <DownloadIcon />
-                </button>
-            </div>
-            <pre className="code-block"><code>{codeToDisplay}</code></pre>
-        </div>
-    );
-}
+// Four cards read better as a 2x2 grid than as 3 + 1.
+const gridColumns = (count: number) => count === 4 ? 2 : Math.min(count, 3);
 
 function App() {
   const [sessions, setSessions] = useState<Session[]>([]);
@@ -110,6 +129,8 @@ function App() {
   const [focusedArtifactIndex, setFocusedArtifactIndex] = useState<number | null>(null);
   
   const [inputValue, setInputValue] = useState<string>('');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isEngaging, setIsEngaging] = useState<boolean>(false);
   const [placeholderIndex, setPlaceholderIndex] = useState(0);
@@ -117,20 +138,99 @@ function App() {
   
   const [drawerState, setDrawerState] = useState<{
       isOpen: boolean;
-      mode: 'code' | 'variations' | null;
+      mode: 'code' | 'variations' | 'settings' | 'design' | 'diagnostics' | 'accessibility' | 'usage' | 'templates' | 'tokens' | null;
       title: string;
       data: any; 
   }>({ isOpen: false, mode: null, title: '', data: null });
 
   const [componentVariations, setComponentVariations] = useState<ComponentVariation[]>([]);
+  const [variationErrors, setVariationErrors] = useState<StreamParseError[]>([]);
+
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const provider = useMemo(() => createProvider(providerSettings), [providerSettings]);
+
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [usageLedger, setUsageLedger] = useState(loadUsageLedger);
+  const overBudget = isOverBudget(usageLedger, usageSettings);
+
+  const [customTemplates, setCustomTemplates] = useState<PromptTemplate[]>(loadCustomTemplates);
+  const [activeTemplateIds, setActiveTemplateIds] = useState<ActiveTemplateIds>(loadActiveTemplateIds);
+  const promptTemplates = useMemo(() => [...DEFAULT_PROMPT_TEMPLATES, ...customTemplates], [customTemplates]);
+
+  // The template in use for a prompt, and the provider to send it with: a template can pin its own model.
+  const getTemplate = useCallback((kind: PromptTemplateKind) => {
+      const template = resolveTemplate(promptTemplates, activeTemplateIds, kind);
+      const model = template.model?.trim();
+      const templateProvider = model && model !== provider.model ? createProvider({ ...providerSettings, model }) : provider;
+      return { template, templateProvider };
+  }, [promptTemplates, activeTemplateIds, provider, providerSettings]);
+
+  const [customDesignSystems, setCustomDesignSystems] = useState<DesignSystem[]>(loadCustomDesignSystems);
+  const [activeDesignSystemId, setActiveDesignSystemId] = useState<string>(loadActiveDesignSystemId);
+  const designSystems = useMemo(() => [...BUILT_IN_DESIGN_SYSTEMS, ...customDesignSystems], [customDesignSystems]);
+  const designSystem = designSystems.find(ds => ds.id === activeDesignSystemId) ?? DEFAULT_DESIGN_SYSTEM;
+
+  const [isHydrated, setIsHydrated] = useState<boolean>(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [generationCount, setGenerationCount] = useState<number>(3);
+  const [comparisonSelection, setComparisonSelection] = useState<string[] | null>(null);
+  const [layoutSelection, setLayoutSelection] = useState<string[] | null>(null);
+  const [isGalleryOpen, setIsGalleryOpen] = useState<boolean>(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  // What each running preview reported, keyed by artifact id. Cleared whenever the preview reloads.
+  const [diagnostics, setDiagnostics] = useState<Record<string, DiagnosticEntry[]>>({});
+  // Latest accessibility audit of each artifact's rendered preview, keyed by artifact id.
+  const [audits, setAudits] = useState<Record<string, AccessibilityReport>>({});
 
   const inputRef = useRef<HTMLInputElement>(null);
   const gridScrollRef = useRef<HTMLDivElement>(null);
+  const sessionsRef = useRef<Session[]>(sessions);
+  const persistedRef = useRef(new Map<string, Session>());
+  const persistTimerRef = useRef<number | null>(null);
+  // In-flight runs keyed by artifact id (and by session id for the style-direction phase).
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+
+  sessionsRef.current = sessions;
+  // Prompt suggestions are fetched once, after a delay; they use the settings current at that point.
+  const placeholderSettingsRef = useRef({ getTemplate, overBudget, designSystem });
+  placeholderSettingsRef.current = { getTemplate, overBudget, designSystem };
 
   useEffect(() => {
       inputRef.current?.focus();
   }, []);
 
+  // Restore the archive from the previous visit.
+  useEffect(() => {
+      // StrictMode runs this twice in development; only the last run may restore.
+      let cancelled = false;
+      sessionStore.loadSessions()
+          .then(restored => {
+              if (cancelled || restored.length === 0) return;
+              restored.forEach(s => persistedRef.current.set(s.id, s));
+              setSessions(prev => [...restored, ...prev]);
+              setCurrentSessionIndex(i => i === -1 ? restored.length - 1 : i + restored.length);
+          })
+          .catch(e => console.warn("Failed to restore sessions", e))
+          .finally(() => {
+              if (!cancelled) setIsHydrated(true);
+          });
+      return () => { cancelled = true; };
+  }, []);
+
+  // Persist sessions as they change. Streaming updates arrive once per chunk,
+  // so writes are throttled and only sessions whose object identity changed are saved.
+  useEffect(() => {
+      if (!isHydrated || persistTimerRef.current !== null) return;
+      persistTimerRef.current = window.setTimeout(() => {
+          persistTimerRef.current = null;
+          for (const session of sessionsRef.current) {
+              if (persistedRef.current.get(session.id) === session) continue;
+              persistedRef.current.set(session.id, session);
+              sessionStore.saveSession(session).catch(e => console.warn("Failed to persist session", e));
+          }
+      }, 500);
+  }, [sessions, isHydrated]);
+
   useEffect(() => {
     if (focusedArtifactIndex !== null && window.innerWidth <= 1024) {
         if (gridScrollRef.current) {
@@ -150,143 +250,309 @@ function App() {
   useEffect(() => {
       const fetchDynamicPlaceholders = async () => {
           try {
-              const apiKey = process.env.API_KEY;
-              if (!apiKey) return;
-              const ai = new GoogleGenAI({ apiKey });
-              const response = await ai.models.generateContent({
-                  model: 'gemini-3-flash-preview',
-                  contents: { 
-                      role: 'user', 
-                      parts: [{ 
-                          text: 'Generate 20 futuristic Kryptonian HUD UI component prompts (e.g. "Crystalline thermal map", "Neural sync relay", "Orbital trajectory graph"). Return ONLY a raw JSON array of strings.' 
-                      }] 
-                  }
-              });
-              const text = response.text || '[]';
-              const jsonMatch = text.match(/\[[\s\S]*\]/);
-              if (jsonMatch) {
-                  const newPlaceholders = JSON.parse(jsonMatch[0]);
-                  if (Array.isArray(newPlaceholders) && newPlaceholders.length > 0) {
-                      const shuffled = newPlaceholders.sort(() => 0.5 - Math.random()).slice(0, 10);
-                      setPlaceholders(prev => [...prev, ...shuffled]);
-                  }
+              const settings = placeholderSettingsRef.current;
+              const { template, templateProvider } = settings.getTemplate('placeholders');
+              if (!templateProvider.isConfigured || settings.overBudget) return;
+              const prompt = buildPlaceholderPrompt(settings.designSystem, template);
+              const meter = createUsageMeter(templateProvider.model, 'Prompt Suggestions', prompt);
+              const text = await templateProvider.generateText({ prompt, temperature: template.temperature, onUsage: meter.onUsage });
+              recordUsage(meter.finish(text));
+              const newPlaceholders = extractJsonArray(text)?.filter((p): p is string => typeof p === 'string');
+              if (newPlaceholders && newPlaceholders.length > 0) {
+                  const shuffled = newPlaceholders.sort(() => 0.5 - Math.random()).slice(0, 10);
+                  setPlaceholders(prev => [...prev, ...shuffled]);
               }
           } catch (e) {
               console.warn("Silently failed to fetch dynamic placeholders", e);
           }
       };
-      setTimeout(fetchDynamicPlaceholders, 1000);
+      const timer = setTimeout(fetchDynamicPlaceholders, 1000);
+      return () => clearTimeout(timer);
   }, []);
 
+  const updateArtifact = useCallback((sessionId: string, artifactId: string, update: (artifact: Artifact) => Artifact) => {
+      setSessions(prev => prev.map(sess => sess.id === sessionId ? {
+          ...sess,
+          artifacts: sess.artifacts.map(art => art.id === artifactId ? update(art) : art)
+      } : sess));
+  }, []);
+
+  useEffect(() => saveUsageLedger(usageLedger), [usageLedger]);
+
+  // Every call goes into the daily ledger, and onto its session or artifact when it has one.
+  const recordUsage = useCallback((record: UsageRecord | null, sessionId?: string, artifactId?: string) => {
+      if (!record) return;
+      setUsageLedger(prev => addToLedger(prev, record));
+      if (sessionId && artifactId) {
+          updateArtifact(sessionId, artifactId, art => ({ ...art, usage: [...(art.usage ?? []), record] }));
+      } else if (sessionId) {
+          setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, usage: [...(s.usage ?? []), record] } : s));
+      }
+  }, [updateArtifact]);
+
+  /** False, showing the usage panel, once today's budget is spent. */
+  const checkBudget = useCallback(() => {
+      if (!overBudget) return true;
+      setDrawerState({ isOpen: true, mode: 'usage', title: 'Usage', data: null });
+      return false;
+  }, [overBudget]);
+
   const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setInputValue(event.target.value);
   };
 
-  const parseJsonStream = async function* (responseStream: AsyncGenerator<{ text: string }>) {
-      let buffer = '';
-      for await (const chunk of responseStream) {
-          const text = chunk.text;
-          if (typeof text !== 'string') continue;
-          buffer += text;
-          let braceCount = 0;
-          let start = buffer.indexOf('{');
-          while (start !== -1) {
-              braceCount = 0;
-              let end = -1;
-              for (let i = start; i < buffer.length; i++) {
-                  if (buffer[i] === '{') braceCount++;
-                  else if (buffer[i] === '}') braceCount--;
-                  if (braceCount === 0 && i > start) {
-                      end = i;
-                      break;
-                  }
-              }
-              if (end !== -1) {
-                  const jsonString = buffer.substring(start, end + 1);
-                  try {
-                      yield JSON.parse(jsonString);
-                      buffer = buffer.substring(end + 1);
-                      start = buffer.indexOf('{');
-                  } catch (e) {
-                      start = buffer.indexOf('{', start + 1);
-                  }
-              } else {
-                  break; 
-              }
+  const handleAddFiles = async (files: File[]) => {
+      const images = files.filter(file => file.type.startsWith('image/'));
+      if (!images.length) return;
+      setAttachmentError(null);
+      const room = MAX_ATTACHMENTS - attachments.length;
+      if (images.length > room) setAttachmentError(`Up to ${MAX_ATTACHMENTS} images per prompt`);
+      for (const file of images.slice(0, Math.max(room, 0))) {
+          try {
+              const attachment = await readImageAttachment(file);
+              setAttachments(prev => prev.length < MAX_ATTACHMENTS ? [...prev, attachment] : prev);
+          } catch (e) {
+              if (!(e instanceof AttachmentError)) console.error("Attachment failed:", e);
+              setAttachmentError(e instanceof Error ? e.message : String(e));
           }
       }
   };
 
+  const handlePaste = (event: React.ClipboardEvent<HTMLInputElement>) => {
+      const files: File[] = Array.from(event.clipboardData.files);
+      if (!files.some(file => file.type.startsWith('image/'))) return;
+      event.preventDefault();
+      handleAddFiles(files);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+      if (!event.dataTransfer.files.length) return;
+      event.preventDefault();
+      handleAddFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const handleRemoveAttachment = (id: string) => {
+      setAttachments(prev => prev.filter(a => a.id !== id));
+      setAttachmentError(null);
+  };
+
   const handleGenerateVariations = useCallback(async () => {
     const currentSession = sessions[currentSessionIndex];
-    if (!currentSession || focusedArtifactIndex === null) return;
+    if (!currentSession || focusedArtifactIndex === null || !checkBudget()) return;
     const currentArtifact = currentSession.artifacts[focusedArtifactIndex];
 
     setIsLoading(true);
     setComponentVariations([]);
+    setVariationErrors([]);
     setDrawerState({ isOpen: true, mode: 'variations', title: 'System Mutations', data: currentArtifact.id });
 
+    const { template, templateProvider } = getTemplate('variations');
+    const prompt = buildVariationsPrompt(currentSession.prompt, getSessionDesignSystem(currentSession), generationCount, template);
+    const meter = createUsageMeter(templateProvider.model, 'Mutations', prompt);
     try {
-        const apiKey = process.env.API_KEY;
-        if (!apiKey) throw new Error("API_KEY missing.");
-        const ai = new GoogleGenAI({ apiKey });
-
-        const prompt = `
-Generate 3 radical technical mutations for: "${currentSession.prompt}".
-Personas: "Orbital Command", "Quantum Relay", "Deep Core Archive".
-Required JSON Output Format: \`{ "name": "Persona Name", "html": "..." }\`
-        `.trim();
-
-        const responseStream = await ai.models.generateContentStream({
-            model: 'gemini-3-flash-preview',
-             contents: [{ parts: [{ text: prompt }], role: 'user' }],
-             config: { temperature: 1.2 }
-        });
+        const request = { prompt, temperature: template.temperature, onUsage: meter.onUsage };
+        // The app server parses mutations itself and sends them whole; other providers stream raw JSON.
+        const parsedByServer = !!templateProvider.streamVariations;
+        const events = templateProvider.streamVariations
+            ? templateProvider.streamVariations(request)
+            : parseJsonStream<ComponentVariation>(meter.tap(templateProvider.streamText(request)));
 
-        for await (const variation of parseJsonStream(responseStream)) {
-            if (variation.name && variation.html) {
-                setComponentVariations(prev => [...prev, variation]);
+        for await (const event of events) {
+            if (parsedByServer) meter.onChunk(event.type === 'value' ? JSON.stringify(event.value) : event.error.raw);
+            if (event.type === 'error') {
+                console.warn("Malformed mutation:", event.error);
+                setVariationErrors(prev => [...prev, event.error]);
+            } else if (event.value?.name && event.value?.html) {
+                setComponentVariations(prev => [...prev, event.value]);
             }
         }
     } catch (e: any) {
         console.error("Variations error:", e);
     } finally {
+        recordUsage(meter.finish(), currentSession.id);
         setIsLoading(false);
     }
-  }, [sessions, currentSessionIndex, focusedArtifactIndex]);
+  }, [sessions, currentSessionIndex, focusedArtifactIndex, getTemplate, checkBudget, recordUsage]);
 
-  const applyVariation = (html: string) => {
+  const applyVariation = (variation: ComponentVariation) => {
       if (focusedArtifactIndex === null) return;
       setSessions(prev => prev.map((sess, i) => 
           i === currentSessionIndex ? {
               ...sess,
               artifacts: sess.artifacts.map((art, j) => 
-                j === focusedArtifactIndex ? { ...art, html, status: 'complete' } : art
+                j === focusedArtifactIndex ? commitRevision(art, variation.html, `Mutation: ${variation.name}`) : art
               )
           } : sess
       ));
       setDrawerState(s => ({ ...s, isOpen: false }));
   };
 
+  /**
+   * Streams a model-edited version of a complete artifact and records it as
+   * a revision labelled `label`. `buildPrompt` receives the version being edited;
+   * `apply`, when given, turns the model output into the new full HTML.
+   */
+  const refineArtifact = useCallback(async (
+      sessionId: string,
+      artifactId: string,
+      label: string,
+      buildPrompt: (base: Artifact, session: Session) => string,
+      apply?: (output: string, base: Artifact) => string
+  ) => {
+    const currentSession = sessions.find(s => s.id === sessionId);
+    const base = currentSession?.artifacts.find(a => a.id === artifactId);
+    if (!currentSession || !base || base.status !== 'complete' || isLoading || !checkBudget()) return;
+
+    setIsLoading(true);
+    const controller = new AbortController();
+    abortControllersRef.current.set(base.id, controller);
+    updateArtifact(currentSession.id, base.id, art => ({ ...art, html: '', status: 'streaming' }));
+
+    const prompt = buildPrompt(base, currentSession);
+    const meter = createUsageMeter(provider.model, label, prompt);
+    try {
+        const final = await withRetry(async () => {
+            let acc = '';
+            for await (const chunk of provider.streamText({ prompt, signal: controller.signal, onUsage: meter.onUsage })) {
+                meter.onChunk(chunk);
+                acc += chunk;
+                const partial = stripCodeFences(acc, true);
+                updateArtifact(currentSession.id, base.id, art => ({ ...art, html: partial }));
+            }
+            return stripCodeFences(acc);
+        }, { signal: controller.signal, onRetry: meter.onRetry });
+        if (!final) throw new Error('The model returned no HTML');
+
+        const html = apply ? apply(final, base) : final;
+        updateArtifact(currentSession.id, base.id, art => commitRevision(art, html, label, base));
+    } catch (e) {
+        // A failed or cancelled edit must not cost the user the version they had.
+        if (!isAbortError(e)) console.error("Refinement error:", e);
+        updateArtifact(currentSession.id, base.id, () => base);
+    } finally {
+        recordUsage(meter.finish(), currentSession.id, base.id);
+        abortControllersRef.current.delete(base.id);
+        setIsLoading(false);
+    }
+  }, [sessions, isLoading, provider, updateArtifact, checkBudget, recordUsage]);
+
+  const handleRefine = useCallback((instruction: string) => {
+    const currentSession = sessions[currentSessionIndex];
+    if (!currentSession || focusedArtifactIndex === null) return;
+    refineArtifact(currentSession.id, currentSession.artifacts[focusedArtifactIndex].id, instruction, (base, session) =>
+        buildRefinePrompt(session.prompt, instruction, base.html, getSessionDesignSystem(session))
+    );
+  }, [sessions, currentSessionIndex, focusedArtifactIndex, refineArtifact]);
+
+  const handleFixAccessibility = (sessionId: string, artifactId: string) => {
+      const report = audits[artifactId];
+      if (!report?.findings.length) return;
+      setDrawerState(s => ({ ...s, isOpen: false }));
+      refineArtifact(sessionId, artifactId, 'Fix Accessibility', (base, session) =>
+          buildAccessibilityFixPrompt(session.prompt, describeFindings(report.findings), base.html, getSessionDesignSystem(session))
+      );
+  };
+
+  const handleEditElement = (sessionId: string, artifactId: string, node: number, instruction: string, sourceHtml: string) => {
+      const artifact = sessions.find(s => s.id === sessionId)?.artifacts.find(a => a.id === artifactId);
+      const located = artifact?.html === sourceHtml ? locateElement(sourceHtml, node) : null;
+      if (!located) {
+          window.alert('The artifact changed since the element was selected. Select it again.');
+          return;
+      }
+      refineArtifact(sessionId, artifactId, `Edit <${located.tagName}>: ${instruction}`,
+          (base, session) => buildElementEditPrompt(session.prompt, instruction, located.outerHtml, located.path, getSessionDesignSystem(session)),
+          (output, base) => replaceElement(base.html, node, output)
+      );
+  };
+
+  const handleSelectRevision = (index: number) => {
+      const currentSession = sessions[currentSessionIndex];
+      if (!currentSession || focusedArtifactIndex === null) return;
+      const artifact = currentSession.artifacts[focusedArtifactIndex];
+      updateArtifact(currentSession.id, artifact.id, art => selectRevision(art, index));
+  };
+
   const handleShowCode = () => {
       const currentSession = sessions[currentSessionIndex];
       if (currentSession && focusedArtifactIndex !== null) {
           const artifact = currentSession.artifacts[focusedArtifactIndex];
-          setDrawerState({ isOpen: true, mode: 'code', title: 'System Source', data: artifact.html });
+          setDrawerState({ isOpen: true, mode: 'code', title: 'System Source', data: { sessionId: currentSession.id, artifactId: artifact.id } });
       }
   };
 
+  const handleShowTokens = () => {
+      const currentSession = sessions[currentSessionIndex];
+      if (currentSession && focusedArtifactIndex !== null) {
+          const artifact = currentSession.artifacts[focusedArtifactIndex];
+          setDrawerState({ isOpen: true, mode: 'tokens', title: `Design Tokens: ${artifact.styleName}`, data: { sessionId: currentSession.id, artifactId: artifact.id } });
+      }
+  };
+
+  // Hand edits from the source drawer are recorded like any other revision, so they can be stepped back through.
+  const handleSaveSource = (sessionId: string, artifactId: string, html: string) => {
+      updateArtifact(sessionId, artifactId, art => commitRevision(art, html, 'Manual Edit'));
+  };
+
+  /**
+   * Streams one artifact into its card. Rate-limit failures are retried with
+   * backoff; any other failure, or cancellation, leaves the card in 'error'.
+   */
+  const streamArtifact = useCallback(async (
+      sessionId: string,
+      artifactId: string,
+      sessionPrompt: string,
+      styleName: string,
+      ds: DesignSystem,
+      images: Attachment[] = [],
+      controller = new AbortController()
+  ) => {
+      abortControllersRef.current.set(artifactId, controller);
+      updateArtifact(sessionId, artifactId, art => ({ ...art, html: '', status: 'streaming', error: undefined }));
+
+      const { template, templateProvider } = getTemplate('artifact');
+      try {
+          const final = await generateArtifactHtml({
+              provider: templateProvider,
+              template,
+              prompt: sessionPrompt,
+              styleName,
+              designSystem: ds,
+              images,
+              signal: controller.signal,
+              onPartial: (partial) => updateArtifact(sessionId, artifactId, art => ({ ...art, html: partial })),
+              onRecord: (record) => recordUsage(record, sessionId, artifactId),
+              onRetry: (attempt, delayMs) => console.warn(`Rate limited; retry ${attempt} for ${artifactId} in ${Math.round(delayMs)}ms`)
+          });
+
+          updateArtifact(sessionId, artifactId, art =>
+              art.revisions ? commitRevision(art, final, 'Regenerated') : { ...art, html: final, status: 'complete' }
+          );
+      } catch (e) {
+          if (!isAbortError(e)) console.error(e);
+          updateArtifact(sessionId, artifactId, art => ({ ...art, status: 'error', error: describeError(e) }));
+      } finally {
+          if (abortControllersRef.current.get(artifactId) === controller) {
+              abortControllersRef.current.delete(artifactId);
+          }
+      }
+  }, [getTemplate, updateArtifact, recordUsage]);
+
   const handleSendMessage = useCallback(async (manualPrompt?: string) => {
     const promptToUse = manualPrompt || inputValue;
-    const trimmedInput = promptToUse.trim();
+    const images = attachments;
+    // An image on its own is a complete request.
+    const trimmedInput = promptToUse.trim() || (images.length ? 'Recreate the attached UI' : '');
     
-    if (!trimmedInput || isLoading) return;
+    if (!trimmedInput || isLoading || !checkBudget()) return;
     if (!manualPrompt) setInputValue('');
+    setAttachments([]);
+    setAttachmentError(null);
 
     setIsLoading(true);
     const sessionId = generateId();
 
-    const placeholderArtifacts: Artifact[] = Array(3).fill(null).map((_, i) => ({
+    const placeholderArtifacts: Artifact[] = Array(generationCount).fill(null).map((_, i) => ({
         id: `${sessionId}_${i}`,
         styleName: 'Accessing Archives...',
         html: '',
@@ -297,86 +563,328 @@ Required JSON Output Format: \`{ "name": "Persona Name", "html": "..." }\`
         id: sessionId,
         prompt: trimmedInput,
         timestamp: Date.now(),
-        artifacts: placeholderArtifacts
+        artifacts: placeholderArtifacts,
+        designSystem,
+        ...(images.length ? { attachments: images } : {})
     };
 
     setSessions(prev => [...prev, newSession]);
     setCurrentSessionIndex(sessions.length); 
     setFocusedArtifactIndex(null); 
 
+    // Controllers exist from the start so a card can be cancelled while styles are still being chosen.
+    const sessionController = new AbortController();
+    const artifactControllers = placeholderArtifacts.map(art => {
+        const controller = new AbortController();
+        abortControllersRef.current.set(art.id, controller);
+        return controller;
+    });
+    abortControllersRef.current.set(sessionId, sessionController);
+
     try {
-        const apiKey = process.env.API_KEY;
-        const ai = new GoogleGenAI({ apiKey });
-
-        const stylePrompt = `
-Generate 3 Kryptonian HUD design directions for: "${trimmedInput}". 
-Directions should focus on different data visualization modalities (e.g., Crystalline, Holographic, Neural).
-Return ONLY raw JSON array of strings.
-        `.trim();
-
-        const styleResponse = await ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: { role: 'user', parts: [{ text: stylePrompt }] }
+        const { template, templateProvider } = getTemplate('styleDirections');
+        const generatedStyles = await generateStyleDirections({
+            provider: templateProvider,
+            template,
+            prompt: trimmedInput,
+            designSystem,
+            count: generationCount,
+            images,
+            signal: sessionController.signal,
+            onRecord: (record) => recordUsage(record, sessionId)
         });
 
-        let generatedStyles: string[] = ["Holographic Overlay", "Neural Matrix", "Crystal Logic"];
-        try {
-            const match = styleResponse.text.match(/\[.*\]/);
-            if (match) generatedStyles = JSON.parse(match[0]);
-        } catch (e) {}
-
         setSessions(prev => prev.map(s => s.id === sessionId ? {
             ...s,
             artifacts: s.artifacts.map((art, i) => ({ ...art, styleName: generatedStyles[i] }))
         } : s));
 
-        const generateArtifact = async (artifact: Artifact, styleInstruction: string) => {
-            try {
-                const prompt = `
-Design a complex, high-fidelity HUD component for: "${trimmedInput}".
-STYLE: ${styleInstruction} (Kryptonian Technical Aesthetic)
-
-RULES:
-- Theme: Dark background, glowing teal/cyan accents (#22d3ee), crystalline geometry.
-- Layout: Use borders, scanlines, and status indicators. 
-- Use Tailwind CSS. 
-- Ensure a technical, "data-heavy" look with monospace fonts.
-- Return ONLY the internal HTML body content. No <html> or <body> tags needed.
-          `.trim();
-          
-                const responseStream = await ai.models.generateContentStream({
-                    model: 'gemini-3-flash-preview',
-                    contents: [{ parts: [{ text: prompt }], role: "user" }],
-                });
-
-                let acc = '';
-                for await (const chunk of responseStream) {
-                    acc += chunk.text;
-                    setSessions(prev => prev.map(sess => sess.id === sessionId ? {
-                        ...sess,
-                        artifacts: sess.artifacts.map(art => art.id === artifact.id ? { ...art, html: acc } : art)
-                    } : sess));
-                }
-                
-                let final = acc.replace(/```html|```/g, '').trim();
-                setSessions(prev => prev.map(sess => sess.id === sessionId ? {
-                    ...sess,
-                    artifacts: sess.artifacts.map(art => art.id === artifact.id ? { ...art, html: final, status: 'complete' } : art)
-                } : sess));
-
-            } catch (e) {
-                console.error(e);
-            }
-        };
-
-        await Promise.all(placeholderArtifacts.map((art, i) => generateArtifact(art, generatedStyles[i])));
-
-    } catch (e) {
-        console.error(e);
+        await Promise.all(placeholderArtifacts.map((art, i) =>
+            streamArtifact(sessionId, art.id, trimmedInput, generatedStyles[i], designSystem, images, artifactControllers[i])
+        ));
     } finally {
+        abortControllersRef.current.delete(sessionId);
         setIsLoading(false);
     }
-  }, [inputValue, isLoading, sessions.length]);
+  }, [inputValue, attachments, isLoading, sessions.length, getTemplate, streamArtifact, designSystem, generationCount, checkBudget, recordUsage]);
+
+  const handleToggleTrusted = (sessionId: string, artifact: Artifact) => {
+      if (!artifact.trusted && !window.confirm(
+          'Trust this artifact? Its scripts will run with the app\'s origin, without the content security policy, and could read your API key.'
+      )) return;
+      updateArtifact(sessionId, artifact.id, art => ({ ...art, trusted: !art.trusted }));
+  };
+
+  const handleToggleStar = (sessionId: string, artifactId: string) => {
+      updateArtifact(sessionId, artifactId, art => ({ ...art, starred: !art.starred }));
+  };
+
+  const handleChangeTags = (sessionId: string, artifactId: string, tags: string[]) => {
+      updateArtifact(sessionId, artifactId, art => ({ ...art, tags }));
+  };
+
+  /** Brings a gallery entry back onto the stage, focused, so it can be mutated or refined. */
+  const handleOpenFromGallery = (sessionId: string, artifactId: string) => {
+      const index = sessions.findIndex(s => s.id === sessionId);
+      const artifactIndex = sessions[index]?.artifacts.findIndex(a => a.id === artifactId) ?? -1;
+      if (artifactIndex === -1) return;
+      setCurrentSessionIndex(index);
+      setFocusedArtifactIndex(artifactIndex);
+      setIsGalleryOpen(false);
+  };
+
+  const handleCloseGallery = useCallback(() => setIsGalleryOpen(false), []);
+
+  const handleCancelArtifact = (artifactId: string) => {
+      abortControllersRef.current.get(artifactId)?.abort();
+  };
+
+  const handleCancelSession = (sessionId: string) => {
+      const session = sessions.find(s => s.id === sessionId);
+      abortControllersRef.current.get(sessionId)?.abort();
+      session?.artifacts.forEach(art => abortControllersRef.current.get(art.id)?.abort());
+  };
+
+  const handleRetryArtifact = (sessionId: string, artifactId: string) => {
+      const session = sessions.find(s => s.id === sessionId);
+      const artifact = session?.artifacts.find(a => a.id === artifactId);
+      if (!session || !artifact || artifact.status === 'streaming' || !checkBudget()) return;
+      streamArtifact(sessionId, artifactId, session.prompt, artifact.styleName, getSessionDesignSystem(session), session.attachments);
+  };
+
+  const goToSession = useCallback((index: number) => {
+      if (index < 0 || index >= sessions.length) return;
+      setCurrentSessionIndex(index);
+      setFocusedArtifactIndex(null);
+  }, [sessions.length]);
+
+  // `[` and `]` step through the archive; ignored while typing.
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          const target = e.target as HTMLElement;
+          if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+          if (e.metaKey || e.ctrlKey || e.altKey) return;
+          if (e.key === '[') goToSession(currentSessionIndex - 1);
+          else if (e.key === ']') goToSession(currentSessionIndex + 1);
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [goToSession, currentSessionIndex]);
+
+  const handleDeleteSession = (sessionId: string) => {
+      const index = sessions.findIndex(s => s.id === sessionId);
+      if (index === -1) return;
+      persistedRef.current.delete(sessionId);
+      sessionStore.deleteSession(sessionId).catch(e => console.warn("Failed to delete session", e));
+      setSessions(prev => prev.filter(s => s.id !== sessionId));
+      setCurrentSessionIndex(i => Math.min(i > index ? i - 1 : i, sessions.length - 2));
+      setFocusedArtifactIndex(null);
+  };
+
+  const handleClearSessions = () => {
+      if (!window.confirm('Purge every archived session? This cannot be undone.')) return;
+      persistedRef.current.clear();
+      sessionStore.clear().catch(e => console.warn("Failed to clear sessions", e));
+      setSessions([]);
+      setCurrentSessionIndex(-1);
+      setFocusedArtifactIndex(null);
+  };
+
+  const handleExportSessions = (targets: Session[]) => {
+      downloadBlob(new Blob([serializeSessions(targets)], { type: 'application/json' }), exportFileName(targets));
+  };
+
+  const handleImportSessions = async (file: File) => {
+      let incoming: Session[];
+      try {
+          incoming = parseSessionExport(await file.text());
+      } catch (e) {
+          if (!(e instanceof SessionImportError)) console.error("Import failed:", e);
+          window.alert(`Import failed: ${e instanceof Error ? e.message : e}`);
+          return;
+      }
+
+      const plan = planImport(incoming, sessions);
+      if (!plan.added.length && !plan.conflicts.length) {
+          window.alert('Every session in this file is already in the archive.');
+          return;
+      }
+      const strategy = plan.conflicts.length && window.confirm(
+          `${plan.conflicts.length} imported session${plan.conflicts.length === 1 ? '' : 's'} already exist here with different content.\n\n` +
+          'OK replaces the local versions. Cancel keeps both, importing copies.'
+      ) ? 'replace' : 'duplicate';
+
+      const merged = mergeImport(sessions, plan, strategy);
+      const known = new Set(sessions.map(s => s.id));
+      const replaced = new Set(strategy === 'replace' ? plan.conflicts.map(s => s.id) : []);
+      const lastImported = merged.reduce((last, s, i) => !known.has(s.id) || replaced.has(s.id) ? i : last, -1);
+      setSessions(merged);
+      setCurrentSessionIndex(lastImported === -1 ? merged.length - 1 : lastImported);
+      setFocusedArtifactIndex(null);
+  };
+
+  const handleCopyPermalink = async () => {
+      const currentSession = sessions[currentSessionIndex];
+      const artifact = focusedArtifactIndex !== null ? currentSession?.artifacts[focusedArtifactIndex] : undefined;
+      if (!currentSession || !artifact || artifact.status !== 'complete') return;
+      try {
+          await navigator.clipboard.writeText(await buildPermalink(artifact, currentSession));
+          setLinkCopied(true);
+          setTimeout(() => setLinkCopied(false), 2000);
+      } catch (e) {
+          if (!(e instanceof PermalinkError)) console.error("Permalink failed:", e);
+          window.alert(e instanceof Error ? e.message : String(e));
+      }
+  };
+
+  const handleShowSettings = () => {
+      setDrawerState({ isOpen: true, mode: 'settings', title: 'Generation Engine', data: null });
+  };
+
+  const handleSaveSettings = (settings: ProviderSettings) => {
+      saveProviderSettings(settings);
+      setProviderSettings(settings);
+      setDrawerState(s => ({ ...s, isOpen: false }));
+  };
+
+  const handleShowTemplates = () => {
+      setDrawerState({ isOpen: true, mode: 'templates', title: 'Prompt Templates', data: null });
+  };
+
+  const handleActivateTemplate = (kind: PromptTemplateKind, id: string) => {
+      const next = { ...activeTemplateIds, [kind]: id };
+      saveActiveTemplateIds(next);
+      setActiveTemplateIds(next);
+  };
+
+  const handleSaveTemplate = (template: PromptTemplate) => {
+      const exists = customTemplates.some(t => t.id === template.id);
+      const next = exists ? customTemplates.map(t => t.id === template.id ? template : t) : [...customTemplates, template];
+      saveCustomTemplates(next);
+      setCustomTemplates(next);
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+      const next = customTemplates.filter(t => t.id !== id);
+      saveCustomTemplates(next);
+      setCustomTemplates(next);
+  };
+
+  // Imported templates replace custom ones with the same id.
+  const handleImportTemplates = (imported: PromptTemplate[]) => {
+      const ids = new Set(imported.map(t => t.id));
+      const next = [...customTemplates.filter(t => !ids.has(t.id)), ...imported];
+      saveCustomTemplates(next);
+      setCustomTemplates(next);
+  };
+
+  const handleShowUsage = () => {
+      setDrawerState({ isOpen: true, mode: 'usage', title: 'Usage', data: null });
+  };
+
+  const handleSaveUsageSettings = (settings: UsageSettings) => {
+      saveUsageSettings(settings);
+      setUsageSettings(settings);
+      setDrawerState(s => ({ ...s, isOpen: false }));
+  };
+
+  const handleShowDesignSystems = () => {
+      setDrawerState({ isOpen: true, mode: 'design', title: 'Design System', data: null });
+  };
+
+  const handleSelectDesignSystem = (id: string) => {
+      saveActiveDesignSystemId(id);
+      setActiveDesignSystemId(id);
+  };
+
+  const handleImportDesignSystem = (imported: DesignSystem) => {
+      const next = [...customDesignSystems.filter(ds => ds.id !== imported.id), imported];
+      saveCustomDesignSystems(next);
+      setCustomDesignSystems(next);
+      handleSelectDesignSystem(imported.id);
+  };
+
+  const handleDeleteDesignSystem = (id: string) => {
+      const next = customDesignSystems.filter(ds => ds.id !== id);
+      saveCustomDesignSystems(next);
+      setCustomDesignSystems(next);
+      if (id === activeDesignSystemId) handleSelectDesignSystem(DEFAULT_DESIGN_SYSTEM.id);
+  };
+
+  const handleDiagnostic = useCallback((artifactId: string, entry: Omit<DiagnosticEntry, 'id'>) => {
+      setDiagnostics(prev => ({
+          ...prev,
+          [artifactId]: [...(prev[artifactId] ?? []), { ...entry, id: generateId() }].slice(-MAX_DIAGNOSTICS_PER_ARTIFACT)
+      }));
+  }, []);
+
+  const handleClearDiagnostics = useCallback((artifactId: string) => {
+      setDiagnostics(prev => {
+          if (!prev[artifactId]) return prev;
+          const { [artifactId]: _, ...rest } = prev;
+          return rest;
+      });
+  }, []);
+
+  const handleShowDiagnostics = (artifact: Artifact) => {
+      setDrawerState({ isOpen: true, mode: 'diagnostics', title: `Diagnostics: ${artifact.styleName}`, data: artifact.id });
+  };
+
+  const handleAudit = useCallback((artifactId: string, report: AccessibilityReport) => {
+      setAudits(prev => ({ ...prev, [artifactId]: report }));
+  }, []);
+
+  const handleShowAccessibility = (sessionId: string, artifact: Artifact) => {
+      setDrawerState({ isOpen: true, mode: 'accessibility', title: `Accessibility: ${artifact.styleName}`, data: { sessionId, artifactId: artifact.id } });
+  };
+
+  /**
+   * Opens the comparison view. For a focused artifact with history, starts
+   * from its previous and current revisions; otherwise from every artifact
+   * in the session as currently shown.
+   */
+  const handleCompare = (artifact?: Artifact) => {
+      const session = sessions[currentSessionIndex];
+      if (!session) return;
+      const revisions = artifact?.revisions ?? [];
+      if (artifact && revisions.length > 1) {
+          const index = getRevisionIndex(artifact);
+          const previous = revisions[index > 0 ? index - 1 : 1];
+          setComparisonSelection([candidateKey(artifact, previous), currentCandidateKey(artifact)]);
+      } else {
+          setComparisonSelection(session.artifacts.filter(a => a.status === 'complete').map(currentCandidateKey));
+      }
+  };
+
+  const handleCloseComparison = useCallback(() => setComparisonSelection(null), []);
+
+  /**
+   * Opens the layout composer with the focused artifact in the first slot,
+   * followed by the session's other complete artifacts.
+   */
+  const handleComposeLayout = (artifact: Artifact) => {
+      const session = sessions[currentSessionIndex];
+      if (!session) return;
+      const others = session.artifacts.filter(a => a.status === 'complete' && a.id !== artifact.id);
+      setLayoutSelection([artifact, ...others].map(currentCandidateKey));
+  };
+
+  const handleCloseLayout = useCallback(() => setLayoutSelection(null), []);
+
+  const handleProposeLayouts = async (): Promise<LayoutOption[]> => {
+      const session = sessions[currentSessionIndex];
+      if (!session) return [];
+      if (overBudget) throw new Error('The daily budget is spent; raise it in the usage panel to propose layouts');
+      const prompt = buildLayoutOptionsPrompt(session.prompt, getSessionDesignSystem(session), 3);
+      const meter = createUsageMeter(provider.model, 'Layout Proposals', prompt);
+      let text = '';
+      try {
+          text = await withRetry<string>(() => provider.generateText({ prompt, onUsage: meter.onUsage }), { onRetry: meter.onRetry });
+      } finally {
+          recordUsage(meter.finish(text), session.id);
+      }
+      return parseLayoutOptions(text);
+  };
 
   const handleInitiateSequence = () => {
     setIsEngaging(true);
@@ -386,6 +894,22 @@ RULES:
 
   const hasStarted = sessions.length > 0 || isLoading;
   const currentSession = sessions[currentSessionIndex];
+  const isCurrentSessionStreaming = !!currentSession?.artifacts.some(a => a.status === 'streaming');
+  const focusedArtifact = focusedArtifactIndex !== null ? currentSession?.artifacts[focusedArtifactIndex] : undefined;
+  const comparisonCandidates = listComparisonCandidates(currentSession?.artifacts ?? []);
+  // Layouts can mix artifacts from any session; the current one is listed first.
+  const layoutCandidates = layoutSelection && currentSession ? [
+      ...comparisonCandidates,
+      ...sessions.filter(s => s !== currentSession).flatMap(s =>
+          listComparisonCandidates(s.artifacts).map(c => ({ ...c, label: `${s.prompt} — ${c.label}` }))
+      )
+  ] : [];
+  const allArtifacts = sessions.flatMap(s => s.artifacts);
+  const starredCount = allArtifacts.filter(a => a.starred).length;
+  const tagSuggestions = countTags(allArtifacts).map(t => t.tag);
+  // The source and token drawers follow their artifact live, so saved edits and revision switches show up in them.
+  const codeSession = drawerState.mode === 'code' || drawerState.mode === 'tokens' ? sessions.find(s => s.id === drawerState.data.sessionId) : undefined;
+  const codeArtifact = codeSession?.artifacts.find(a => a.id === drawerState.data.artifactId);
 
   return (
     <>
@@ -393,18 +917,164 @@ RULES:
             Third Signal Lab
         </a>
 
+        {sessions.length > 0 && (
+            <div className="session-nav">
+                <button onClick={() => goToSession(currentSessionIndex - 1)} disabled={currentSessionIndex <= 0} title="Previous Session ([)">
+                    <ArrowLeftIcon />
+                </button>
+                <span className="session-nav-counter">{currentSessionIndex + 1} / {sessions.length}</span>
+                <button onClick={() => goToSession(currentSessionIndex + 1)} disabled={currentSessionIndex >= sessions.length - 1} title="Next Session (])">
+                    <ArrowRightIcon />
+                </button>
+                <button className="session-nav-toggle" onClick={() => handleCompare()} disabled={comparisonCandidates.length < 2}>Compare</button>
+                <button className="session-nav-toggle" onClick={() => setIsHistoryOpen(o => !o)}>Archive</button>
+                <button className="session-nav-toggle" onClick={() => setIsGalleryOpen(true)}>
+                    <StarIcon /> Gallery{starredCount > 0 ? ` (${starredCount})` : ''}
+                </button>
+            </div>
+        )}
+
+        <div className="settings-dock">
+            <button className="settings-trigger" onClick={handleShowSettings} title="Generation Engine">
+                <SettingsIcon /> {provider.model}
+            </button>
+            <button className="settings-trigger" onClick={handleShowDesignSystems} title="Design System">
+                <PaletteIcon /> {designSystem.name}
+            </button>
+            <button className="settings-trigger" onClick={handleShowTemplates} title="Prompt Templates">
+                <TemplateIcon /> Templates
+            </button>
+            <button className={`settings-trigger ${overBudget ? 'over-budget' : ''}`} onClick={handleShowUsage} title="Usage & Budget">
+                <GaugeIcon /> {formatCost(summarizeLedger(usageLedger, usageSettings.prices, [dateKey()]).cost)}
+            </button>
+        </div>
+
+        <SessionHistory
+            isOpen={isHistoryOpen}
+            sessions={sessions}
+            currentSessionIndex={currentSessionIndex}
+            onSelect={goToSession}
+            onDelete={handleDeleteSession}
+            onClearAll={handleClearSessions}
+            onExport={handleExportSessions}
+            onImport={handleImportSessions}
+            onClose={() => setIsHistoryOpen(false)}
+        />
+
+        {comparisonSelection && currentSession && (
+            <ComparisonView
+                candidates={comparisonCandidates}
+                initialSelection={comparisonSelection}
+                designSystem={getSessionDesignSystem(currentSession)}
+                onClose={handleCloseComparison}
+            />
+        )}
+
+        {isGalleryOpen && (
+            <ComponentGallery
+                sessions={sessions}
+                onOpen={handleOpenFromGallery}
+                onToggleStar={handleToggleStar}
+                onChangeTags={handleChangeTags}
+                onClose={handleCloseGallery}
+            />
+        )}
+
+        {layoutSelection && currentSession && (
+            <LayoutComposer
+                candidates={layoutCandidates}
+                initialSelection={layoutSelection}
+                designSystem={getSessionDesignSystem(currentSession)}
+                onProposeLayouts={handleProposeLayouts}
+                onClose={handleCloseLayout}
+            />
+        )}
+
         <SideDrawer 
             isOpen={drawerState.isOpen} 
             onClose={() => setDrawerState(s => ({...s, isOpen: false}))} 
             title={drawerState.title}
         >
-            {drawerState.mode === 'code' && <CodeExportView html={drawerState.data} />}
+            {drawerState.mode === 'code' && codeArtifact && (
+                <CodeExportView
+                    html={codeArtifact.html}
+                    designSystem={getSessionDesignSystem(codeSession)}
+                    trusted={codeArtifact.trusted}
+                    readOnly={codeArtifact.status === 'streaming'}
+                    onSave={(html) => handleSaveSource(drawerState.data.sessionId, codeArtifact.id, html)}
+                    initialComponent={drawerState.data.component}
+                />
+            )}
+            {drawerState.mode === 'tokens' && codeArtifact && (
+                <DesignTokensPanel
+                    html={codeArtifact.html}
+                    designSystem={getSessionDesignSystem(codeSession)}
+                    onExportComponent={(component) => setDrawerState(s => ({ ...s, mode: 'code', title: 'System Source', data: { ...s.data, component } }))}
+                />
+            )}
+            {drawerState.mode === 'diagnostics' && (
+                <DiagnosticsPanel
+                    entries={diagnostics[drawerState.data] ?? []}
+                    onClear={() => handleClearDiagnostics(drawerState.data)}
+                />
+            )}
+            {drawerState.mode === 'accessibility' && (
+                <AccessibilityPanel
+                    report={audits[drawerState.data.artifactId]}
+                    disabled={isLoading}
+                    onFix={() => handleFixAccessibility(drawerState.data.sessionId, drawerState.data.artifactId)}
+                />
+            )}
+            {drawerState.mode === 'design' && (
+                <DesignSystemPanel
+                    designSystems={designSystems}
+                    activeId={designSystem.id}
+                    onSelect={handleSelectDesignSystem}
+                    onImport={handleImportDesignSystem}
+                    onDelete={handleDeleteDesignSystem}
+                />
+            )}
+            {drawerState.mode === 'settings' && (
+                <ProviderSettingsPanel settings={providerSettings} onSave={handleSaveSettings} />
+            )}
+            {drawerState.mode === 'templates' && (
+                <PromptTemplatePanel
+                    templates={promptTemplates}
+                    activeIds={activeTemplateIds}
+                    designSystem={designSystem}
+                    onActivate={handleActivateTemplate}
+                    onSave={handleSaveTemplate}
+                    onDelete={handleDeleteTemplate}
+                    onImport={handleImportTemplates}
+                />
+            )}
+            {drawerState.mode === 'usage' && (
+                <UsagePanel
+                    session={currentSession}
+                    ledger={usageLedger}
+                    settings={usageSettings}
+                    currentModel={provider.model}
+                    onSaveSettings={handleSaveUsageSettings}
+                />
+            )}
+            {drawerState.mode === 'variations' && variationErrors.length > 0 && (
+                <details className="drawer-notice">
+                    <summary>{variationErrors.length} mutation{variationErrors.length === 1 ? '' : 's'} could not be parsed</summary>
+                    {variationErrors.map((err, i) => (
+                        <pre key={i}>{err.message}{'\n'}{err.raw.slice(0, 400)}</pre>
+                    ))}
+                </details>
+            )}
             {drawerState.mode === 'variations' && (
                 <div className="sexy-grid">
                     {componentVariations.map((v, i) => (
-                         <div key={i} className="sexy-card" onClick={() => applyVariation(v.html)}>
+                         <div key={i} className="sexy-card" onClick={() => applyVariation(v)}>
                              <div className="sexy-preview">
-                                 <iframe srcDoc={v.html} title={v.name} />
+                                 <iframe
+                                     srcDoc={wrapArtifactHtml(v.html, getSessionDesignSystem(currentSession))}
+                                     title={v.name}
+                                     sandbox={SANDBOX_FLAGS}
+                                 />
                              </div>
                              <div className="sexy-label">{v.name}</div>
                          </div>
@@ -433,13 +1103,27 @@ RULES:
 
                 {sessions.map((session, sIndex) => (
                     <div key={session.id} className={`session-group ${sIndex === currentSessionIndex ? 'active-session' : 'hidden'}`}>
-                        <div className="artifact-grid">
+                        <div className={`artifact-grid columns-${gridColumns(session.artifacts.length)}`}>
                             {session.artifacts.map((artifact, aIndex) => (
                                 <ArtifactCard 
                                     key={artifact.id}
                                     artifact={artifact}
+                                    designSystem={getSessionDesignSystem(session)}
                                     isFocused={focusedArtifactIndex === aIndex}
                                     onClick={() => setFocusedArtifactIndex(aIndex)}
+                                    onCancel={() => handleCancelArtifact(artifact.id)}
+                                    onRetry={() => handleRetryArtifact(session.id, artifact.id)}
+                                    onToggleTrusted={() => handleToggleTrusted(session.id, artifact)}
+                                    onToggleStar={() => handleToggleStar(session.id, artifact.id)}
+                                    errorCount={countErrors(diagnostics[artifact.id])}
+                                    onDiagnostic={(entry) => handleDiagnostic(artifact.id, entry)}
+                                    onDiagnosticsReset={() => handleClearDiagnostics(artifact.id)}
+                                    onShowDiagnostics={() => handleShowDiagnostics(artifact)}
+                                    accessibility={audits[artifact.id]}
+                                    onAudit={(report) => handleAudit(artifact.id, report)}
+                                    onShowAccessibility={() => handleShowAccessibility(session.id, artifact)}
+                                    onEditElement={(node, instruction, sourceHtml) => handleEditElement(session.id, artifact.id, node, instruction, sourceHtml)}
+                                    isEditDisabled={isLoading}
                                 />
                             ))}
                         </div>
@@ -454,12 +1138,45 @@ RULES:
                         <button onClick={() => setFocusedArtifactIndex(null)}><GridIcon /> Close Hub</button>
                         <button onClick={handleGenerateVariations} disabled={isLoading}><SparklesIcon /> Mutate</button>
                         <button onClick={handleShowCode}><CodeIcon /> Source</button>
+                        <button onClick={handleShowTokens} disabled={focusedArtifact?.status !== 'complete'}><PaletteIcon /> Tokens</button>
+                        <button onClick={() => focusedArtifact && handleShowDiagnostics(focusedArtifact)}>
+                            <TerminalIcon /> Diagnostics
+                        </button>
+                        <button onClick={handleCopyPermalink} disabled={focusedArtifact?.status !== 'complete'} title="Copy a read-only link to this artifact">
+                            {linkCopied ? <CheckIcon /> : <CopyIcon />} {linkCopied ? 'Link Copied' : 'Share'}
+                        </button>
+                        <button onClick={() => focusedArtifact && handleCompare(focusedArtifact)} disabled={comparisonCandidates.length < 2}>
+                            <LayersIcon /> Compare
+                        </button>
+                        <button onClick={() => focusedArtifact && handleComposeLayout(focusedArtifact)} disabled={focusedArtifact?.status !== 'complete'}>
+                            <GridIcon /> Compose
+                        </button>
                     </div>
+                    {focusedArtifact && currentSession && (
+                        <TagEditor
+                            tags={focusedArtifact.tags ?? []}
+                            suggestions={tagSuggestions}
+                            onChange={(tags) => handleChangeTags(currentSession.id, focusedArtifact.id, tags)}
+                        />
+                    )}
+                    {focusedArtifact && (
+                        <RefineBar
+                            artifact={focusedArtifact}
+                            disabled={isLoading || focusedArtifact.status !== 'complete'}
+                            onRefine={handleRefine}
+                            onSelectRevision={handleSelectRevision}
+                        />
+                    )}
                 </div>
             )}
 
             <div className="floating-input-container">
-                <div className={`input-wrapper ${isLoading ? 'loading' : ''}`}>
+                <div
+                    className={`input-wrapper ${isLoading ? 'loading' : ''}`}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={handleDrop}
+                >
+                    <AttachmentTray attachments={attachments} error={attachmentError} onRemove={handleRemoveAttachment} />
                     {!isLoading && !inputValue && (
                         <div className="animated-placeholder">
                             <span className="placeholder-text">{placeholders[placeholderIndex]}</span>
@@ -471,10 +1188,38 @@ RULES:
                         value={inputValue} 
                         onChange={handleInputChange} 
                         onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()} 
+                        onPaste={handlePaste}
                     />
-                    <button className="send-button" onClick={() => handleSendMessage()} disabled={isLoading || !inputValue.trim()}>
-                        <ArrowUpIcon />
-                    </button>
+                    <label className="attachment-button" title="Attach Reference Image (or paste / drop one)">
+                        <ImageIcon />
+                        <input
+                            type="file"
+                            accept="image/*"
+                            multiple
+                            disabled={isLoading}
+                            onChange={(e) => { handleAddFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }}
+                        />
+                    </label>
+                    <select
+                        className="generation-count"
+                        value={generationCount}
+                        onChange={(e) => setGenerationCount(Number(e.target.value))}
+                        disabled={isLoading}
+                        title="Variants per Run"
+                    >
+                        {Array.from({ length: MAX_GENERATION_COUNT }, (_, i) => i + 1).map(n => (
+                            <option key={n} value={n}>×{n}</option>
+                        ))}
+                    </select>
+                    {isCurrentSessionStreaming ? (
+                        <button className="send-button" onClick={() => handleCancelSession(currentSession.id)} title="Abort Sequence">
+                            <StopIcon />
+                        </button>
+                    ) : (
+                        <button className="send-button" onClick={() => handleSendMessage()} disabled={isLoading || (!inputValue.trim() && !attachments.length)}>
+                            <ArrowUpIcon />
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -483,4 +1228,9 @@ RULES:
 }
 
 const root = ReactDOM.createRoot(document.getElementById('root')!);
-root.render(<React.StrictMode><App /></React.StrictMode>);
+// A `#share=` link opens a single artifact read-only, without the archive or any generation.
+root.render(
+    <React.StrictMode>
+        {isPermalink(window.location.hash) ? <SharedArtifactView fragment={window.location.hash} /> : <App />}
+    </React.StrictMode>
+);
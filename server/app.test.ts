@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { Server, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { PROXY_ROUTES } from '../services/providers/proxy';
+import { createMockProvider } from '../services/providers/mock';
+import { ProxyServerOptions, createRequestHandler } from './app';
+
+const servers: Server[] = [];
+let logs: Record<string, unknown>[] = [];
+
+/** Serves the handler on a free port with the offline mock, returning its base URL. */
+const start = async (overrides: Partial<ProxyServerOptions> = {}) => {
+    const handler = createRequestHandler({
+        createProvider: createMockProvider,
+        defaultModel: 'stub-model',
+        allowedModels: [],
+        rateLimit: { limit: 10, windowMs: 60_000 },
+        trustProxy: false,
+        maxBodyBytes: 1024 * 1024,
+        log: entry => logs.push(entry),
+        ...overrides
+    });
+    // As in index.ts, an error escaping the handler becomes a 500.
+    const server = createServer((req, res) => handler(req, res).catch(() => {
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+    }));
+    servers.push(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const post = (url: string, body: unknown) => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+});
+
+const parseEvents = (text: string) => text.split('\n\n').filter(Boolean).map(block => {
+    const [, event] = /^event: (.+)$/m.exec(block)!;
+    const [, data] = /^data: (.+)$/m.exec(block)!;
+    return { event, data: JSON.parse(data) };
+});
+
+afterEach(async () => {
+    logs = [];
+    await Promise.all(servers.splice(0).map(server => new Promise(resolve => {
+        server.closeAllConnections();
+        server.close(resolve);
+    })));
+});
+
+describe('createRequestHandler', () => {
+    it('answers the health check with the configured models', async () => {
+        const base = await start({ allowedModels: ['stub-model', 'other'] });
+        const res = await fetch(base + PROXY_ROUTES.health);
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual({ ok: true, model: 'stub-model', models: ['stub-model', 'other'] });
+    });
+
+    it('generates text with usage and logs the request', async () => {
+        const base = await start();
+        const res = await post(base + PROXY_ROUTES.generate, { prompt: 'Return a JSON array of 3 style names' });
+        expect(res.status).toBe(200);
+        const { text, usage } = await res.json();
+        expect(JSON.parse(text)).toHaveLength(3);
+        expect(usage.outputTokens).toBeGreaterThan(0);
+        expect(logs).toEqual([expect.objectContaining({ route: 'generate', model: 'stub-model', status: 200 })]);
+    });
+
+    it('streams chunks as server-sent events, then usage and done', async () => {
+        const base = await start();
+        const res = await post(base + PROXY_ROUTES.stream, { prompt: 'Build "Reactor"\nSTYLE: Neon Grid', seed: 2 });
+        expect(res.headers.get('content-type')).toBe('text/event-stream');
+        const events = parseEvents(await res.text());
+        const html = events.filter(e => e.event === 'chunk').map(e => e.data.text).join('');
+        expect(html).toContain('Reactor // Neon Grid');
+        expect(events.slice(-2).map(e => e.event)).toEqual(['usage', 'done']);
+    });
+
+    it('streams variations as parsed objects', async () => {
+        const base = await start();
+        const res = await post(base + PROXY_ROUTES.variations, { prompt: 'Give 2 variations of "Gauge" as {"name", "html"} objects' });
+        const events = parseEvents(await res.text());
+        const variations = events.filter(e => e.event === 'variation').map(e => e.data.value);
+        expect(variations).toHaveLength(2);
+        expect(variations[0]).toEqual({ name: expect.any(String), html: expect.stringContaining('Gauge') });
+        expect(events.at(-1)!.event).toBe('done');
+    });
+
+    it('rate limits each client with Retry-After', async () => {
+        const base = await start({ rateLimit: { limit: 1, windowMs: 60_000 } });
+        expect((await post(base + PROXY_ROUTES.generate, { prompt: 'hi' })).status).toBe(200);
+        const res = await post(base + PROXY_ROUTES.generate, { prompt: 'hi' });
+        expect(res.status).toBe(429);
+        expect(Number(res.headers.get('retry-after'))).toBeGreaterThan(0);
+        expect(logs.at(-1)).toEqual(expect.objectContaining({ status: 429, error: 'rate limited' }));
+    });
+
+    it('rejects bodies that are not JSON or miss a prompt', async () => {
+        const base = await start();
+        const bad = await post(base + PROXY_ROUTES.generate, '{"prompt": ');
+        expect(bad.status).toBe(400);
+        expect(await bad.json()).toEqual({ error: 'Body must be JSON' });
+        expect((await post(base + PROXY_ROUTES.generate, { prompt: ' ' })).status).toBe(400);
+    });
+
+    it('rejects bodies of the wrong shape', async () => {
+        const base = await start();
+        const bodies = [
+            'null', '[]', '"hi"',
+            { prompt: 'hi', images: [{ mimeType: 'text/html', data: 'PGI+' }] },
+            { prompt: 'hi', images: [null] },
+            { prompt: 'hi', images: { mimeType: 'image/png', data: '' } },
+            { prompt: 'hi', temperature: '1' },
+            { prompt: 'hi', seed: 1.5 }
+        ];
+        for (const body of bodies) {
+            const res = await post(base + PROXY_ROUTES.generate, body);
+            expect(res.status, JSON.stringify(body)).toBe(400);
+        }
+    });
+
+    it('refuses models outside the allowed list and non-POST requests', async () => {
+        const base = await start({ allowedModels: ['stub-model'] });
+        expect((await post(base + PROXY_ROUTES.generate, { prompt: 'hi', model: 'other' })).status).toBe(400);
+        const get = await fetch(base + PROXY_ROUTES.generate);
+        expect(get.status).toBe(405);
+        expect(get.headers.get('allow')).toBe('POST');
+    });
+
+    describe('with a static build', () => {
+        let staticDir: string;
+
+        beforeAll(async () => {
+            staticDir = await mkdtemp(path.join(tmpdir(), 'signal-canvas-static-'));
+            await mkdir(path.join(staticDir, 'assets'));
+            await writeFile(path.join(staticDir, 'index.html'), '<!DOCTYPE html><title>app</title>');
+            await writeFile(path.join(staticDir, 'assets', 'app.js'), 'console.log(1);');
+        });
+
+        afterAll(() => rm(staticDir, { recursive: true, force: true }));
+
+        it('serves assets and falls back to index.html for routes', async () => {
+            const base = await start({ staticDir });
+            const asset = await fetch(`${base}/assets/app.js`);
+            expect(asset.headers.get('cache-control')).toContain('immutable');
+            expect(await asset.text()).toBe('console.log(1);');
+            expect(await (await fetch(`${base}/sessions/42`)).text()).toContain('<title>app</title>');
+            expect((await fetch(`${base}/missing.png`)).status).toBe(404);
+        });
+
+        it('answers a malformed escape with 400', async () => {
+            const base = await start({ staticDir });
+            const res = await fetch(`${base}/%E0%A4%A`);
+            expect(res.status).toBe(400);
+        });
+    });
+});
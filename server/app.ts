@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { ComponentVariation } from '../types';
+import { GenerationProvider, GenerationRequest, InlineImage, TokenUsage } from '../services/providers/types';
+import { describeError, isAbortError, isRateLimitError } from '../services/providers/errors';
+import { PROXY_ROUTES, ProxyRequestBody } from '../services/providers/proxy';
+import { createJsonStreamParser } from '../services/streamParser';
+import { RateLimitOptions, createRateLimiter } from './rateLimit';
+import { serveStatic } from './static';
+
+export interface ProxyServerOptions {
+    /** Backend for a model. Keys live in here, never in responses. */
+    createProvider: (model: string) => GenerationProvider;
+    defaultModel: string;
+    /** When non-empty, the only models clients may ask for. */
+    allowedModels: string[];
+    /** Applied per client to the generation endpoints. */
+    rateLimit: RateLimitOptions;
+    /** Identify clients by the first X-Forwarded-For address (behind a reverse proxy). */
+    trustProxy: boolean;
+    /** Directory of the Vite build to serve alongside the API; omit for API only. */
+    staticDir?: string;
+    maxBodyBytes: number;
+    log: (entry: Record<string, unknown>) => void;
+}
+
+/** A request the server refuses, with the status to answer with. */
+export class HttpError extends Error {
+    readonly status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+    }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+const readBody = async (req: IncomingMessage, maxBytes: number): Promise<string> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > maxBytes) throw new HttpError(`Request body exceeds ${Math.round(maxBytes / 1024 / 1024)} MB`, 413);
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isImage = (value: unknown): value is InlineImage =>
+    isRecord(value) && typeof value.data === 'string' && typeof value.mimeType === 'string' && /^image\//.test(value.mimeType);
+
+const parseRequest = (json: string, options: ProxyServerOptions): ProxyRequestBody => {
+    let body: unknown;
+    try {
+        body = JSON.parse(json);
+    } catch {
+        throw new HttpError('Body must be JSON', 400);
+    }
+    if (!isRecord(body) || typeof body.prompt !== 'string' || !body.prompt.trim()) throw new HttpError('"prompt" is required', 400);
+    const model = typeof body.model === 'string' && body.model.trim() ? body.model.trim() : options.defaultModel;
+    if (options.allowedModels.length && !options.allowedModels.includes(model)) {
+        throw new HttpError(`Model "${model}" is not available on this server`, 400);
+    }
+    const images = body.images ?? [];
+    if (!Array.isArray(images) || !images.every(isImage)) {
+        throw new HttpError('"images" must be a list of { mimeType, data } images', 400);
+    }
+    const { temperature, seed } = body;
+    if (temperature !== undefined && temperature !== null && !(typeof temperature === 'number' && temperature >= 0 && temperature <= 2)) {
+        throw new HttpError('"temperature" must be a number from 0 to 2', 400);
+    }
+    if (seed !== undefined && seed !== null && !Number.isSafeInteger(seed)) throw new HttpError('"seed" must be an integer', 400);
+    return {
+        prompt: body.prompt,
+        model,
+        images: images.map(({ mimeType, data }) => ({ mimeType, data })),
+        temperature: typeof temperature === 'number' ? temperature : undefined,
+        seed: typeof seed === 'number' ? seed : undefined
+    };
+};
+
+// Provider errors keep their HTTP status when they have one, so clients back off on 429 as they would calling the model directly.
+const statusOf = (e: unknown) => {
+    const status = isRecord(e) ? e.status : undefined;
+    if (typeof status === 'number' && status >= 400 && status < 600) return status;
+    return isRateLimitError(e) ? 429 : 502;
+};
+
+const clientOf = (req: IncomingMessage, trustProxy: boolean) => {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+    return (trustProxy && first) || req.socket.remoteAddress || 'unknown';
+};
+
+const openEventStream = (res: ServerResponse) => {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Stops nginx from buffering the stream.
+        'X-Accel-Buffering': 'no'
+    });
+    return (event: string, data: unknown = {}) => { res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`); };
+};
+
+/**
+ * The app server's request handler: generation endpoints (see
+ * services/providers/proxy.ts for the protocol), a health check, and the
+ * static build. Each generation request is logged as one JSON line.
+ */
+export function createRequestHandler(options: ProxyServerOptions) {
+    const limiter = createRateLimiter(options.rateLimit);
+    let nextId = 1;
+
+    return async (req: IncomingMessage, res: ServerResponse) => {
+        const started = Date.now();
+        const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+        if (pathname === PROXY_ROUTES.health) {
+            sendJson(res, 200, { ok: true, model: options.defaultModel, models: options.allowedModels });
+            return;
+        }
+
+        const route = Object.entries(PROXY_ROUTES).find(([name, path]) => name !== 'health' && path === pathname)?.[0];
+        if (!route) {
+            if (options.staticDir && await serveStatic(options.staticDir, req, res)) return;
+            sendJson(res, 404, { error: 'Not found' });
+            return;
+        }
+
+        const id = nextId++;
+        const client = clientOf(req, options.trustProxy);
+        const entry: Record<string, unknown> = { id, client, route };
+        let usage: TokenUsage | undefined;
+        const finish = (status: number, error?: string) => options.log({
+            time: new Date(started).toISOString(),
+            ...entry,
+            status,
+            ms: Date.now() - started,
+            ...(usage ?? {}),
+            ...(error ? { error } : {})
+        });
+
+        if (req.method !== 'POST') {
+            sendJson(res, 405, { error: 'Use POST' }, { Allow: 'POST' });
+            finish(405);
+            return;
+        }
+
+        const limit = limiter.check(client);
+        if (!limit.allowed) {
+            sendJson(res, 429, { error: `Rate limit exceeded; try again in ${limit.retryAfter}s` }, { 'Retry-After': String(limit.retryAfter) });
+            finish(429, 'rate limited');
+            return;
+        }
+        res.setHeader('X-RateLimit-Remaining', String(limit.remaining));
+
+        let body: ProxyRequestBody;
+        try {
+            body = parseRequest(await readBody(req, options.maxBodyBytes), options);
+        } catch (e) {
+            const status = e instanceof HttpError ? e.status : 400;
+            sendJson(res, status, { error: describeError(e) });
+            finish(status, describeError(e));
+            return;
+        }
+        entry.model = body.model;
+        entry.images = body.images?.length || undefined;
+
+        // A client that goes away cancels its generation.
+        const controller = new AbortController();
+        res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+
+        const provider = options.createProvider(body.model);
+        const request: GenerationRequest = {
+            prompt: body.prompt,
+            images: body.images,
+            temperature: body.temperature,
+            seed: body.seed,
+            signal: controller.signal,
+            onUsage: (u) => { usage = u; }
+        };
+
+        if (route === 'generate') {
+            try {
+                const text = await provider.generateText(request);
+                sendJson(res, 200, { text, usage });
+                finish(200);
+            } catch (e) {
+                sendJson(res, statusOf(e), { error: describeError(e) });
+                finish(isAbortError(e) ? 499 : statusOf(e), describeError(e));
+            }
+            return;
+        }
+
+        // Streams: once the headers are out, failures are reported as an event.
+        const send = openEventStream(res);
+        try {
+            if (route === 'variations') {
+                const parser = createJsonStreamParser<ComponentVariation>();
+                const forward = (events: ReturnType<typeof parser.push>) => events.forEach(event => event.type === 'value'
+                    ? send('variation', { value: event.value })
+                    : send('malformed', { message: event.error.message, raw: event.error.raw }));
+                for await (const chunk of provider.streamText(request)) forward(parser.push(chunk));
+                forward(parser.end());
+            } else {
+                for await (const text of provider.streamText(request)) send('chunk', { text });
+            }
+            if (usage) send('usage', usage);
+            send('done');
+            finish(200);
+        } catch (e) {
+            if (usage) send('usage', usage);
+            send('error', { message: describeError(e), status: statusOf(e) });
+            finish(isAbortError(e) ? 499 : statusOf(e), describeError(e));
+        } finally {
+            res.end();
+        }
+    };
+}
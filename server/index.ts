@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createServer } from 'node:http';
+import path from 'node:path';
+import { createGeminiProvider } from '../services/providers/gemini';
+import { DEFAULT_MODELS } from '../services/providers';
+import { createMockProvider } from '../services/providers/mock';
+import { createRequestHandler } from './app';
+
+// Entry point of the app server. Configuration comes from the environment,
+// and from .env.local when present (the file Vite reads in development):
+//
+//   GEMINI_API_KEY        the key; required unless STUB_MODEL is set
+//   PORT                  default 8787
+//   DEFAULT_MODEL         used when a request names none
+//   ALLOWED_MODELS        comma-separated; empty allows any model
+//   RATE_LIMIT_PER_MINUTE generation requests per client and minute, default 30
+//   TRUST_PROXY           set to 1 behind a reverse proxy that sets X-Forwarded-For
+//   STATIC_DIR            the Vite build to serve, default dist; empty for API only
+//   STUB_MODEL            set to 1 to answer with the offline mock instead of Gemini
+
+try {
+    process.loadEnvFile('.env.local');
+} catch {
+    // No file; the environment is the only source.
+}
+
+const env = process.env;
+const stub = env.STUB_MODEL === '1' || process.argv.includes('--stub');
+const apiKey = env.GEMINI_API_KEY || env.API_KEY;
+const port = Number(env.PORT) || 8787;
+const staticDir = env.STATIC_DIR ?? 'dist';
+
+if (!stub && !apiKey) {
+    console.warn('GEMINI_API_KEY is not set; generation requests will fail with 503. Use --stub to run against the offline mock.');
+}
+
+const handler = createRequestHandler({
+    createProvider: (model) => stub ? createMockProvider(model) : createGeminiProvider(model, apiKey),
+    defaultModel: env.DEFAULT_MODEL || DEFAULT_MODELS.gemini,
+    allowedModels: (env.ALLOWED_MODELS ?? '').split(',').map(m => m.trim()).filter(Boolean),
+    rateLimit: { limit: Number(env.RATE_LIMIT_PER_MINUTE) || 30, windowMs: 60_000 },
+    trustProxy: env.TRUST_PROXY === '1',
+    staticDir: staticDir ? path.resolve(staticDir) : undefined,
+    maxBodyBytes: 25 * 1024 * 1024,
+    log: (entry) => console.log(JSON.stringify(entry))
+});
+
+createServer((req, res) => {
+    handler(req, res).catch(e => {
+        console.error('Unhandled request error', e);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+    });
+}).listen(port, () => {
+    console.log(`Signal Canvas server on http://localhost:${port}${stub ? ' (stub model)' : ''}`);
+});
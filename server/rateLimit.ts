@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RateLimitOptions {
+    /** Requests each client may make per window. */
+    limit: number;
+    windowMs: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    remaining: number;
+    /** Seconds until the client may try again; 0 when allowed. */
+    retryAfter: number;
+}
+
+/**
+ * Sliding-window limiter keyed by client. Timestamps older than the window
+ * are dropped on each check, and idle clients are swept periodically so the
+ * map does not grow without bound.
+ */
+export function createRateLimiter({ limit, windowMs }: RateLimitOptions) {
+    const hits = new Map<string, number[]>();
+    let lastSweep = Date.now();
+
+    const sweep = (now: number) => {
+        if (now - lastSweep < windowMs) return;
+        lastSweep = now;
+        for (const [client, times] of hits) {
+            if (!times.length || times[times.length - 1] <= now - windowMs) hits.delete(client);
+        }
+    };
+
+    return {
+        check(client: string, now = Date.now()): RateLimitResult {
+            sweep(now);
+            const recent = (hits.get(client) ?? []).filter(t => t > now - windowMs);
+            if (recent.length >= limit) {
+                hits.set(client, recent);
+                return { allowed: false, remaining: 0, retryAfter: Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000)) };
+            }
+            recent.push(now);
+            hits.set(client, recent);
+            return { allowed: true, remaining: limit - recent.length, retryAfter: 0 };
+        }
+    };
+}
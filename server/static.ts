@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.ico': 'image/x-icon',
+    '.woff2': 'font/woff2',
+    '.txt': 'text/plain; charset=utf-8'
+};
+
+const isFile = (file: string) => stat(file).then(s => s.isFile(), () => false);
+
+/**
+ * Serves the Vite build from `root`. Unknown paths without an extension get
+ * index.html, so client-side routes (and `#share=` links) load the app.
+ * A path with a malformed escape is answered with 400. Returns false when
+ * nothing matched.
+ */
+export async function serveStatic(root: string, req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+    if (req.method !== 'GET' && req.method !== 'HEAD') return false;
+    let pathname: string;
+    try {
+        pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+    } catch {
+        res.writeHead(400, { 'Content-Type': CONTENT_TYPES['.txt'] });
+        res.end('Malformed URL');
+        return true;
+    }
+    const resolved = path.join(root, path.normalize(pathname));
+    // Reject anything that escapes the build directory.
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) return false;
+
+    let file = pathname.endsWith('/') ? path.join(resolved, 'index.html') : resolved;
+    if (!(await isFile(file))) {
+        if (path.extname(pathname)) return false;
+        file = path.join(root, 'index.html');
+        if (!(await isFile(file))) return false;
+    }
+
+    res.writeHead(200, {
+        'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream',
+        // Vite fingerprints everything under assets/; index.html must always be revalidated.
+        'Cache-Control': file.includes(`${path.sep}assets${path.sep}`) ? 'public, max-age=31536000, immutable' : 'no-cache'
+    });
+    if (req.method === 'HEAD') res.end();
+    else createReadStream(file).pipe(res);
+    return true;
+}
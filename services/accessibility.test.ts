@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { AccessibilityFinding, AccessibilityRule } from '../types';
+import { describeFindings, scoreFindings, scoreGrade } from './accessibility';
+
+const finding = (rule: AccessibilityRule, severity: AccessibilityFinding['severity'] = 'serious', extra: Partial<AccessibilityFinding> = {}): AccessibilityFinding =>
+    ({ rule, severity, message: `${rule} problem.`, selector: 'div > img', ...extra });
+
+describe('scoreFindings', () => {
+    it('is 100 for a clean audit', () => {
+        expect(scoreFindings([])).toBe(100);
+        expect(scoreGrade(100)).toBe('good');
+    });
+
+    it('weighs findings by severity', () => {
+        expect(scoreFindings([finding('contrast', 'serious')])).toBe(92);
+        expect(scoreFindings([finding('contrast', 'moderate'), finding('image-alt', 'minor')])).toBe(94);
+    });
+
+    it('caps what one rule can cost', () => {
+        const repeated = Array.from({ length: 25 }, () => finding('contrast'));
+        expect(scoreFindings(repeated)).toBe(70);
+        expect(scoreGrade(scoreFindings(repeated))).toBe('fair');
+        expect(scoreFindings([...repeated, finding('image-alt')])).toBe(62);
+    });
+
+    it('never goes below zero', () => {
+        const rules: AccessibilityRule[] = ['contrast', 'image-alt', 'control-name', 'form-label', 'heading-order', 'focusable'];
+        const everywhere = rules.flatMap(rule => Array.from({ length: 5 }, () => finding(rule)));
+        expect(scoreFindings(everywhere)).toBe(0);
+        expect(scoreGrade(0)).toBe('poor');
+    });
+});
+
+describe('describeFindings', () => {
+    it('lists each finding under its rule name with the element', () => {
+        expect(describeFindings([
+            finding('image-alt', 'serious', { message: 'Image has no alt text.', snippet: '<img src="a.png">' }),
+            finding('heading-order', 'minor', { message: 'Heading level skipped.', selector: 'main > h4' })
+        ])).toBe([
+            '- [Image Alternatives] Image has no alt text. Element: <img src="a.png">',
+            '- [Heading Order] Heading level skipped. Element: main > h4'
+        ].join('\n'));
+    });
+});
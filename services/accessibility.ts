@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AccessibilityFinding, AccessibilityRule } from '../types';
+
+// The audit itself runs inside the preview (see previewRuntime.ts), because
+// contrast depends on the styles Tailwind generates at runtime. This module
+// holds that source plus everything the app does with the results.
+
+export const ACCESSIBILITY_RULES: Record<AccessibilityRule, string> = {
+    'contrast': 'Color Contrast',
+    'image-alt': 'Image Alternatives',
+    'control-name': 'Control Names',
+    'form-label': 'Form Labels',
+    'heading-order': 'Heading Order',
+    'focusable': 'Keyboard Access'
+};
+
+// Each rule reports at most this many elements, so one repeated pattern
+// cannot crowd the others out of the report.
+const MAX_FINDINGS_PER_RULE = 25;
+
+/**
+ * JavaScript source of a function returning `AccessibilityFinding[]` for the
+ * current document. It is embedded in a template literal: no backticks, no
+ * interpolation and no backslashes.
+ */
+export const ACCESSIBILITY_AUDIT_SOURCE = `
+() => {
+    const findings = [];
+    const perRule = {};
+
+    const selectorOf = (el) => {
+        const parts = [];
+        for (let node = el; node && node.nodeType === 1 && node !== document.body && parts.length < 4; node = node.parentElement) {
+            let part = node.tagName.toLowerCase();
+            if (node.id) { parts.unshift(part + '#' + node.id); break; }
+            const classes = Array.from(node.classList).filter(c => /^[A-Za-z0-9_-]+$/.test(c)).slice(0, 2);
+            if (classes.length) part += '.' + classes.join('.');
+            const siblings = node.parentElement ? Array.from(node.parentElement.children).filter(c => c.tagName === node.tagName) : [];
+            if (siblings.length > 1) part += ':nth-of-type(' + (siblings.indexOf(node) + 1) + ')';
+            parts.unshift(part);
+        }
+        return parts.join(' > ') || el.tagName.toLowerCase();
+    };
+    const snippetOf = (el) => {
+        const tag = (el.outerHTML.match(/^<[^>]*>/) || [el.tagName.toLowerCase()])[0];
+        return tag.length > 160 ? tag.slice(0, 160) + '…' : tag;
+    };
+    const add = (el, rule, severity, message) => {
+        perRule[rule] = (perRule[rule] || 0) + 1;
+        if (perRule[rule] > ${MAX_FINDINGS_PER_RULE}) return;
+        findings.push({ rule, severity, message, selector: selectorOf(el), snippet: snippetOf(el) });
+    };
+
+    const isHidden = (el) => !!el.closest('[aria-hidden="true"], [hidden]');
+    const isRendered = (el) => {
+        const style = getComputedStyle(el);
+        return style.display !== 'none' && style.visibility !== 'hidden' && el.getClientRects().length > 0;
+    };
+    const relevant = (selector) => Array.from(document.body.querySelectorAll(selector)).filter(el => !isHidden(el) && isRendered(el));
+
+    const nameOf = (el) => {
+        const label = (el.getAttribute('aria-label') || '').trim();
+        if (label) return label;
+        const ids = (el.getAttribute('aria-labelledby') || '').split(' ').filter(Boolean);
+        const labelled = ids.map(id => { const target = document.getElementById(id); return target ? target.textContent : ''; }).join(' ').trim();
+        if (labelled) return labelled;
+        const text = (el.textContent || '').trim();
+        if (text) return text;
+        const inner = el.querySelector('img[alt]:not([alt=""]), [aria-label]');
+        if (inner) return inner.getAttribute('alt') || inner.getAttribute('aria-label');
+        return (el.getAttribute('title') || '').trim() || (el.tagName === 'INPUT' ? el.value : '');
+    };
+
+    // Images
+    relevant('img:not([alt]), input[type="image"]:not([alt])').forEach(el =>
+        add(el, 'image-alt', 'serious', 'Image has no alt attribute. Use alt="" if it is decorative.'));
+    relevant('svg[role="img"], [role="img"]:not(svg):not(img)').forEach(el => {
+        if (!nameOf(el)) add(el, 'image-alt', 'moderate', 'Element with role="img" has no accessible name.');
+    });
+
+    // Controls
+    relevant('button, a[href], [role="button"], [role="link"], [role="tab"], [role="menuitem"], [role="checkbox"], [role="switch"], input[type="submit"], input[type="button"], input[type="reset"]').forEach(el => {
+        if (!nameOf(el)) add(el, 'control-name', 'serious', el.tagName === 'A' ? 'Link has no accessible name.' : 'Button has no accessible name; icon-only controls need an aria-label.');
+    });
+
+    // Form fields
+    relevant('input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), select, textarea').forEach(el => {
+        const labelled = (el.labels && el.labels.length) || el.getAttribute('aria-label') || el.getAttribute('aria-labelledby') || el.getAttribute('title');
+        if (labelled) return;
+        if (el.getAttribute('placeholder')) add(el, 'form-label', 'moderate', 'Field relies on its placeholder as a label; the placeholder disappears while typing.');
+        else add(el, 'form-label', 'serious', 'Form field has no label.');
+    });
+
+    // Headings
+    const headings = relevant('h1, h2, h3, h4, h5, h6, [role="heading"]');
+    const levelOf = (el) => /^H[1-6]$/.test(el.tagName) ? Number(el.tagName[1]) : Number(el.getAttribute('aria-level')) || 2;
+    if (headings.length && !headings.some(el => levelOf(el) === 1)) {
+        add(headings[0], 'heading-order', 'minor', 'The component has headings but no level-one heading.');
+    }
+    headings.forEach((el, i) => {
+        if (i === 0) return;
+        const previous = levelOf(headings[i - 1]);
+        const level = levelOf(el);
+        if (level > previous + 1) add(el, 'heading-order', 'moderate', 'Heading level jumps from h' + previous + ' to h' + level + '.');
+    });
+
+    // Keyboard access
+    const FOCUSABLE = 'a[href], button, input, select, textarea, summary, [contenteditable], [tabindex]';
+    relevant('[onclick], [role="button"], [role="link"], [role="tab"], [role="menuitem"], [role="checkbox"], [role="switch"]').forEach(el => {
+        if (!el.matches(FOCUSABLE)) add(el, 'focusable', 'serious', 'Interactive element cannot be reached with the keyboard; add tabindex="0" or use a <button>.');
+    });
+    relevant('div, span, li, td, img, svg').forEach(el => {
+        if (el.matches(FOCUSABLE) || el.hasAttribute('onclick') || el.hasAttribute('role') || el.closest('a[href], button, label')) return;
+        const parent = el.parentElement;
+        if (getComputedStyle(el).cursor === 'pointer' && !(parent && getComputedStyle(parent).cursor === 'pointer')) {
+            add(el, 'focusable', 'moderate', 'Element looks clickable (pointer cursor) but is not focusable.');
+        }
+    });
+    relevant('[tabindex]').forEach(el => {
+        if (Number(el.getAttribute('tabindex')) > 0) add(el, 'focusable', 'minor', 'Positive tabindex overrides the natural focus order.');
+    });
+    Array.from(document.body.querySelectorAll('[aria-hidden="true"]')).forEach(el => {
+        const inner = el.querySelector(FOCUSABLE);
+        if (inner && inner.getAttribute('tabindex') !== '-1') add(el, 'focusable', 'moderate', 'Hidden from assistive technology but contains a focusable element.');
+    });
+
+    // Contrast
+    const parseColor = (value) => {
+        if (!value || value.indexOf('rgb') !== 0) return null;
+        const parts = value.slice(value.indexOf('(') + 1, value.lastIndexOf(')')).split(/[ ,/]+/).filter(Boolean).map(parseFloat);
+        return parts.length >= 3 ? [parts[0], parts[1], parts[2], parts.length > 3 ? parts[3] : 1] : null;
+    };
+    const blend = (top, bottom) => [0, 1, 2].map(i => top[i] * top[3] + bottom[i] * (1 - top[3])).concat(1);
+    const backgroundOf = (el) => {
+        const layers = [];
+        for (let node = el; node; node = node.parentElement) {
+            const style = getComputedStyle(node);
+            // Gradients and images make the backdrop unknowable; skip rather than guess.
+            if (style.backgroundImage && style.backgroundImage !== 'none') return null;
+            const color = parseColor(style.backgroundColor);
+            if (color && color[3] > 0) {
+                layers.push(color);
+                if (color[3] >= 1) break;
+            }
+        }
+        const canvas = matchMedia('(prefers-color-scheme: dark)').matches && getComputedStyle(document.documentElement).colorScheme.indexOf('dark') !== -1
+            ? [18, 18, 18, 1] : [255, 255, 255, 1];
+        return layers.reduceRight((under, layer) => blend(layer, under), canvas);
+    };
+    const luminance = (rgb) => {
+        const [r, g, b] = rgb.slice(0, 3).map(v => {
+            const c = v / 255;
+            return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+        });
+        return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    };
+    relevant('body *').forEach(el => {
+        const hasText = Array.from(el.childNodes).some(n => n.nodeType === 3 && n.textContent.trim());
+        if (!hasText || ['SCRIPT', 'STYLE', 'NOSCRIPT'].includes(el.tagName)) return;
+        const style = getComputedStyle(el);
+        const foreground = parseColor(style.color);
+        const background = backgroundOf(el);
+        if (!foreground || !background) return;
+        const text = blend(foreground, background);
+        const [light, dark] = [luminance(text), luminance(background)].sort((a, b) => b - a);
+        const ratio = (light + 0.05) / (dark + 0.05);
+        const size = parseFloat(style.fontSize);
+        const large = size >= 24 || (size >= 18.66 && Number(style.fontWeight) >= 700);
+        const required = large ? 3 : 4.5;
+        if (ratio < required) {
+            add(el, 'contrast', ratio < required - 1.5 ? 'serious' : 'moderate',
+                'Text contrast ' + ratio.toFixed(2) + ':1 is below the ' + required + ':1 minimum' + (large ? ' for large text.' : '.'));
+        }
+    });
+
+    return findings;
+}
+`;
+
+const SEVERITY_WEIGHTS: Record<AccessibilityFinding['severity'], number> = { serious: 8, moderate: 4, minor: 2 };
+
+// No single rule can cost more than this, so the score still tells apart a
+// component with one systemic problem from one with problems everywhere.
+const MAX_PENALTY_PER_RULE = 30;
+
+/** 100 for a clean audit, decreasing with the number and severity of findings. */
+export function scoreFindings(findings: AccessibilityFinding[]): number {
+    const penalties = new Map<AccessibilityRule, number>();
+    for (const finding of findings) {
+        penalties.set(finding.rule, (penalties.get(finding.rule) ?? 0) + SEVERITY_WEIGHTS[finding.severity]);
+    }
+    const total = [...penalties.values()].reduce((sum, p) => sum + Math.min(p, MAX_PENALTY_PER_RULE), 0);
+    return Math.max(0, 100 - total);
+}
+
+export const scoreGrade = (score: number) => score >= 90 ? 'good' : score >= 70 ? 'fair' : 'poor';
+
+/** The findings as a plain list, for the fix prompt. */
+export const describeFindings = (findings: AccessibilityFinding[]) =>
+    findings.map(f => `- [${ACCESSIBILITY_RULES[f.rule]}] ${f.message} Element: ${f.snippet ?? f.selector}`).join('\n');
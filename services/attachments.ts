@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Attachment } from '../types';
+import { generateId } from '../utils';
+
+// Images are downscaled before they are sent or stored: models see no more
+// detail than this anyway, and sessions are persisted with their attachments.
+const MAX_DIMENSION = 1568;
+const MAX_ENCODED_BYTES = 4 * 1024 * 1024;
+
+export const MAX_ATTACHMENTS = 4;
+
+const PASSTHROUGH_TYPES = new Set(['image/png', 'image/jpeg', 'image/webp']);
+
+export class AttachmentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AttachmentError';
+    }
+}
+
+const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+/** Decodes an image file and returns it as a model-ready attachment. */
+export async function readImageAttachment(file: File): Promise<Attachment> {
+    if (!file.type.startsWith('image/')) throw new AttachmentError(`${file.name || 'The file'} is not an image`);
+
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(file);
+    } catch {
+        throw new AttachmentError(`${file.name || 'The image'} could not be decoded`);
+    }
+
+    const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    let dataUrl: string;
+    if (scale === 1 && PASSTHROUGH_TYPES.has(file.type)) {
+        dataUrl = await readAsDataUrl(file);
+    } else {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        canvas.getContext('2d')!.drawImage(bitmap, 0, 0, width, height);
+        // Screenshots stay lossless; photos of sketches and whiteboards compress far better as JPEG.
+        dataUrl = canvas.toDataURL(file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png', 0.9);
+    }
+    bitmap.close();
+
+    const [header, data] = dataUrl.split(',');
+    if (data.length > MAX_ENCODED_BYTES) throw new AttachmentError(`${file.name || 'The image'} is too large even after downscaling`);
+
+    return {
+        id: generateId(),
+        name: file.name || 'Pasted image',
+        mimeType: header.slice('data:'.length, header.indexOf(';')),
+        data,
+        width,
+        height
+    };
+}
+
+export const attachmentUrl = (attachment: Attachment) => `data:${attachment.mimeType};base64,${attachment.data}`;
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+    HtmlElement,
+    HtmlNode,
+    decodeEntities,
+    extractBodyContent,
+    getAttribute,
+    parseHtml
+} from './htmlParser';
+import { narrowElementLookups, resolveSelectorType } from './scriptTypes';
+
+export interface InlineHandler {
+    id: number;
+    event: string;
+    code: string;
+}
+
+/**
+ * Generated HTML split into what every framework export needs separately:
+ * static markup, global styles, and the behaviour that must run after mount.
+ */
+export interface ComponentParts {
+    /** Markup with scripts and styles removed and `on*` attributes replaced by `data-inline-handler`. */
+    markup: HtmlNode[];
+    styles: string[];
+    scripts: string[];
+    externalScripts: string[];
+    handlers: InlineHandler[];
+}
+
+export const INDENT = '  ';
+
+export const escapeTemplateLiteral = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+
+export const rawText = (element: HtmlElement) =>
+    element.children.map(c => c.type === 'text' ? c.value : '').join('');
+
+// The preview wrapper and exports provide Tailwind themselves, so the Play CDN runtime is dropped.
+const isTailwindRuntime = (element: HtmlElement) => {
+    const src = getAttribute(element, 'src') ?? '';
+    return src.includes('cdn.tailwindcss.com') || /^\s*tailwind\.config\s*=/.test(rawText(element));
+};
+
+const DOCUMENT_ONLY_ELEMENTS = new Set(['meta', 'title', 'link', 'base']);
+
+export function extractComponentParts(html: string): ComponentParts {
+    const parts: ComponentParts = { markup: [], styles: [], scripts: [], externalScripts: [], handlers: [] };
+
+    const visit = (nodes: HtmlNode[]): HtmlNode[] => nodes.flatMap((node): HtmlNode[] => {
+        if (node.type !== 'element') return [node];
+
+        if (node.tagName === 'script') {
+            if (isTailwindRuntime(node)) return [];
+            const src = getAttribute(node, 'src');
+            if (src) parts.externalScripts.push(src);
+            else if (rawText(node).trim()) parts.scripts.push(rawText(node));
+            return [];
+        }
+
+        if (node.tagName === 'style') {
+            if (rawText(node).trim()) parts.styles.push(rawText(node));
+            return [];
+        }
+
+        if (DOCUMENT_ONLY_ELEMENTS.has(node.tagName)) return [];
+
+        const attributes = node.attributes.map(attr => {
+            const lower = attr.name.toLowerCase();
+            if (!lower.startsWith('on') || lower.length <= 2) return attr;
+            const id = parts.handlers.length;
+            parts.handlers.push({ id, event: lower.slice(2), code: decodeEntities(attr.value ?? '') });
+            return { name: 'data-inline-handler', value: String(id) };
+        });
+
+        return [{ ...node, attributes, children: visit(node.children) }];
+    });
+
+    parts.markup = visit(extractBodyContent(parseHtml(html)));
+    return parts;
+}
+
+export const hasBehaviour = (parts: ComponentParts) =>
+    parts.scripts.length > 0 || parts.externalScripts.length > 0 || parts.handlers.length > 0;
+
+export const indentBlock = (code: string, depth: number) => {
+    const lines = code.replace(/^\s*\n|\s+$/g, '').split('\n');
+    const minIndent = Math.min(...lines.filter(l => l.trim()).map(l => l.match(/^\s*/)![0].length));
+    const pad = INDENT.repeat(depth);
+    return lines.map(l => l.trim() ? pad + l.slice(minIndent) : '').join('\n');
+};
+
+/**
+ * Emits the statements that bring a mounted component to life. Expects
+ * `componentRoot` (the mounted container element) and `cleanup` (an
+ * AbortController aborted on unmount) to be in scope. Inline scripts and
+ * handlers share one scope so handlers can call functions the scripts declare.
+ * With `typed` set, element lookups carry the types of the elements they find
+ * (see scriptTypes.ts), so the code can be checked as TypeScript.
+ */
+export function buildMountCode(parts: ComponentParts, depth: number, typed = false): string {
+    const pad = INDENT.repeat(depth);
+    const blocks: string[] = [];
+    const narrow = (code: string) => typed ? narrowElementLookups(code, parts.markup) : code;
+
+    parts.externalScripts.forEach(src => {
+        blocks.push([
+            `${pad}{`,
+            `${pad}${INDENT}const script = document.createElement('script');`,
+            `${pad}${INDENT}script.src = ${JSON.stringify(src)};`,
+            `${pad}${INDENT}document.head.appendChild(script);`,
+            `${pad}${INDENT}cleanup.signal.addEventListener('abort', () => script.remove());`,
+            `${pad}}`
+        ].join('\n'));
+    });
+
+    parts.scripts.forEach((script, i) => {
+        blocks.push(`${pad}// Inline script ${i + 1}\n${indentBlock(narrow(script), depth)}`);
+    });
+
+    parts.handlers.forEach(handler => {
+        const selector = `[data-inline-handler="${handler.id}"]`;
+        // Typing the lookup also types `this` in the handler as its element.
+        const lookup = typed ? `querySelector<${resolveSelectorType(selector, parts.markup)}>` : 'querySelector';
+        blocks.push([
+            `${pad}componentRoot.${lookup}('${selector}')?.addEventListener(${JSON.stringify(handler.event)}, function (event) {`,
+            indentBlock(narrow(handler.code), depth + 1),
+            `${pad}}, { signal: cleanup.signal });`
+        ].join('\n'));
+    });
+
+    return blocks.join('\n\n');
+}
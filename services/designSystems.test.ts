@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_DESIGN_SYSTEMS, parseDesignSystem } from './designSystems';
+
+const parse = (preset: Record<string, unknown>) =>
+    parseDesignSystem(JSON.stringify({ name: 'Mine', palette: {}, ...preset }));
+
+describe('parseDesignSystem', () => {
+    it('accepts hex, named and functional colors', () => {
+        const { palette } = parse({ palette: { background: '#0a0B0c', text: 'white', accent: 'oklch(70% 0.2 200 / 50%)', border: ' rgb(0, 0, 0) ' } });
+        expect(palette).toMatchObject({ background: '#0a0B0c', text: 'white', accent: 'oklch(70% 0.2 200 / 50%)', border: 'rgb(0, 0, 0)' });
+    });
+
+    it('rejects palette values that are not colors', () => {
+        for (const color of ['red; } body { display: none', '#12345', 'url(x)', 'rgb(0 0 0) </style>', 12]) {
+            expect(() => parse({ palette: { accent: color } }), String(color)).toThrow('"palette.accent" must be a CSS color string');
+        }
+    });
+
+    it('requires font stacks to be strings that stay inside their declaration', () => {
+        expect(parse({ fonts: { sans: "'Inter Tight', sans-serif" } }).fonts.sans).toBe("'Inter Tight', sans-serif");
+        expect(() => parse({ fonts: { mono: ['monospace'] } })).toThrow('"fonts.mono"');
+        expect(() => parse({ fonts: { sans: 'x; } * { color: red' } })).toThrow('"fonts.sans"');
+        expect(() => parse({ fonts: 'Inter' })).toThrow('"fonts" must be an object');
+    });
+
+    it('only loads font stylesheets over https', () => {
+        const url = 'https://fonts.googleapis.com/css2?family=Inter&display=swap';
+        expect(parse({ fonts: { stylesheetUrl: url } }).fonts.stylesheetUrl).toBe(url);
+        expect(parse({ fonts: { stylesheetUrl: 'https://x.test/a"b' } }).fonts.stylesheetUrl).toBe('https://x.test/a%22b');
+        expect(parse({ fonts: { stylesheetUrl: '' } }).fonts.stylesheetUrl).toBeUndefined();
+        for (const bad of ['http://x.test/a.css', 'javascript:alert(1)', '//x.test/a.css', 42]) {
+            expect(() => parse({ fonts: { stylesheetUrl: bad } }), String(bad)).toThrow('must be an https URL');
+        }
+    });
+
+    it('keeps markup out of the Tailwind theme', () => {
+        expect(parse({ tailwindTheme: { colors: { brand: '#f00' } } }).tailwindTheme).toEqual({ colors: { brand: '#f00' } });
+        expect(() => parse({ tailwindTheme: { colors: { x: '</script><script>alert(1)</script>' } } })).toThrow('"tailwindTheme"');
+        expect(() => parse({ tailwindTheme: [] })).toThrow('"tailwindTheme" must be an object');
+    });
+
+    it('accepts every built-in preset', () => {
+        for (const ds of BUILT_IN_DESIGN_SYSTEMS) {
+            expect(parseDesignSystem(JSON.stringify(ds))).toMatchObject({ palette: ds.palette, fonts: ds.fonts, tailwindTheme: ds.tailwindTheme });
+        }
+    });
+
+    it('reports invalid JSON', () => {
+        expect(() => parseDesignSystem('{')).toThrow(/^Invalid JSON: /);
+    });
+});
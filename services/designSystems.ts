@@ -0,0 +1,319 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignSystem, Session } from '../types';
+
+const ACTIVE_KEY = 'signal-canvas.design-system';
+const CUSTOM_KEY = 'signal-canvas.custom-design-systems';
+
+const HUD: DesignSystem = {
+    id: 'hud',
+    name: 'Kryptonian HUD',
+    description: 'Dark crystalline heads-up display with glowing cyan accents.',
+    colorScheme: 'dark',
+    palette: {
+        background: '#030407',
+        surface: '#0f172a',
+        text: '#e0faff',
+        muted: '#64748b',
+        accent: '#22d3ee',
+        border: '#164e63'
+    },
+    fonts: {
+        sans: "'JetBrains Mono', monospace",
+        mono: "'JetBrains Mono', monospace",
+        stylesheetUrl: 'https://fonts.googleapis.com/css2?family=JetBrains+Mono:wght@400;700&display=swap'
+    },
+    tailwindTheme: {
+        colors: {
+            krypton: { glow: '#22d3ee', deep: '#0891b2', bg: '#030407' }
+        }
+    },
+    componentNoun: 'HUD component',
+    aesthetic: 'Kryptonian Technical Aesthetic',
+    directionHint: 'Directions should focus on different data visualization modalities (e.g., Crystalline, Holographic, Neural).',
+    promptRules: [
+        'Theme: Dark background, glowing teal/cyan accents (#22d3ee), crystalline geometry.',
+        'Layout: Use borders, scanlines, and status indicators.',
+        'Ensure a technical, "data-heavy" look with monospace fonts.'
+    ],
+    examplePrompts: ['Crystalline thermal map', 'Neural sync relay', 'Orbital trajectory graph'],
+    variationPersonas: ['Orbital Command', 'Quantum Relay', 'Deep Core Archive'],
+    fallbackStyles: ['Holographic Overlay', 'Neural Matrix', 'Crystal Logic']
+};
+
+const SAAS: DesignSystem = {
+    id: 'saas',
+    name: 'Neutral SaaS',
+    description: 'Clean light product UI: white cards, soft shadows, indigo accents.',
+    colorScheme: 'light',
+    palette: {
+        background: '#f8fafc',
+        surface: '#ffffff',
+        text: '#0f172a',
+        muted: '#64748b',
+        accent: '#4f46e5',
+        border: '#e2e8f0'
+    },
+    fonts: {
+        sans: "'Inter', system-ui, sans-serif",
+        mono: "'JetBrains Mono', ui-monospace, monospace",
+        stylesheetUrl: 'https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&family=JetBrains+Mono:wght@400&display=swap'
+    },
+    tailwindTheme: {
+        colors: {
+            brand: { 50: '#eef2ff', 100: '#e0e7ff', 500: '#6366f1', 600: '#4f46e5', 700: '#4338ca' }
+        },
+        fontFamily: { sans: ['Inter', 'system-ui', 'sans-serif'] },
+        borderRadius: { card: '0.75rem' }
+    },
+    componentNoun: 'product UI component',
+    aesthetic: 'Neutral SaaS Aesthetic',
+    directionHint: 'Directions should differ in information density and layout (e.g., Compact Table, Card Grid, Focused Detail).',
+    promptRules: [
+        'Theme: Light slate-50 background, white surfaces, indigo accents (use the `brand-*` colors).',
+        'Layout: Generous whitespace, rounded-xl cards, subtle borders and shadow-sm.',
+        'Typography: Inter, clear hierarchy, muted secondary text.'
+    ],
+    examplePrompts: ['Team billing overview', 'Onboarding checklist', 'API usage chart'],
+    variationPersonas: ['Enterprise Admin', 'Startup Founder', 'Power User'],
+    fallbackStyles: ['Compact Table', 'Card Grid', 'Focused Detail']
+};
+
+const BRUTALIST: DesignSystem = {
+    id: 'brutalist',
+    name: 'Brutalist',
+    description: 'Raw, high-contrast layouts with thick borders and hard shadows.',
+    colorScheme: 'light',
+    palette: {
+        background: '#fffdf5',
+        surface: '#ffffff',
+        text: '#000000',
+        muted: '#404040',
+        accent: '#ff4911',
+        border: '#000000'
+    },
+    fonts: {
+        sans: "'Space Grotesk', sans-serif",
+        mono: "'Space Mono', monospace",
+        stylesheetUrl: 'https://fonts.googleapis.com/css2?family=Space+Grotesk:wght@400;700&family=Space+Mono:wght@400;700&display=swap'
+    },
+    tailwindTheme: {
+        colors: {
+            brutal: { paper: '#fffdf5', ink: '#000000', orange: '#ff4911', yellow: '#ffd400', blue: '#2b59ff' }
+        },
+        fontFamily: { sans: ['Space Grotesk', 'sans-serif'], mono: ['Space Mono', 'monospace'] },
+        boxShadow: { brutal: '4px 4px 0 0 #000000' }
+    },
+    componentNoun: 'brutalist web component',
+    aesthetic: 'Neo-Brutalist Aesthetic',
+    directionHint: 'Directions should vary the composition (e.g., Poster Grid, Stacked Blocks, Ticker Tape).',
+    promptRules: [
+        'Theme: Off-white paper background, pure black 3-4px borders, flat saturated accents (`brutal-*` colors).',
+        'Layout: Hard offset shadows (`shadow-brutal`), no gradients, no blur, no rounded corners.',
+        'Typography: Oversized bold headings, uppercase labels.'
+    ],
+    examplePrompts: ['Concert ticket stub', 'Zine table of contents', 'Price list poster'],
+    variationPersonas: ['Print Shop', 'Street Poster', 'Art School'],
+    fallbackStyles: ['Poster Grid', 'Stacked Blocks', 'Ticker Tape']
+};
+
+const MATERIAL: DesignSystem = {
+    id: 'material',
+    name: 'Material-like',
+    description: 'Material Design 3 inspired surfaces, tonal colors and elevation.',
+    colorScheme: 'light',
+    palette: {
+        background: '#fef7ff',
+        surface: '#f3edf7',
+        text: '#1d1b20',
+        muted: '#49454f',
+        accent: '#6750a4',
+        border: '#cac4d0'
+    },
+    fonts: {
+        sans: "'Roboto', sans-serif",
+        mono: "'Roboto Mono', monospace",
+        stylesheetUrl: 'https://fonts.googleapis.com/css2?family=Roboto:wght@400;500;700&family=Roboto+Mono&display=swap'
+    },
+    tailwindTheme: {
+        colors: {
+            md: {
+                primary: '#6750a4',
+                'on-primary': '#ffffff',
+                'primary-container': '#eaddff',
+                secondary: '#625b71',
+                surface: '#fef7ff',
+                'surface-container': '#f3edf7',
+                outline: '#79747e'
+            }
+        },
+        fontFamily: { sans: ['Roboto', 'sans-serif'] },
+        borderRadius: { md: '12px', lg: '16px', xl: '28px' }
+    },
+    componentNoun: 'Material Design component',
+    aesthetic: 'Material Design 3 Aesthetic',
+    directionHint: 'Directions should use different Material patterns (e.g., Filled Cards, List with FAB, Navigation Rail).',
+    promptRules: [
+        'Theme: Tonal surfaces and a purple primary (use the `md-*` colors).',
+        'Layout: Rounded containers, elevation via subtle shadows, 8px spacing grid, pill-shaped buttons.',
+        'Typography: Roboto with Material type scale (title, body, label).'
+    ],
+    examplePrompts: ['Photo gallery app bar', 'Settings list', 'Flight booking card'],
+    variationPersonas: ['Expressive', 'Dense Productivity', 'Accessible Large Type'],
+    fallbackStyles: ['Filled Cards', 'List with FAB', 'Navigation Rail']
+};
+
+export const BUILT_IN_DESIGN_SYSTEMS: DesignSystem[] = [HUD, SAAS, BRUTALIST, MATERIAL];
+
+export const DEFAULT_DESIGN_SYSTEM = HUD;
+
+export class DesignSystemError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DesignSystemError';
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringList = (value: unknown, field: string, fallback: string[]) => {
+    if (value === undefined) return fallback;
+    if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) {
+        throw new DesignSystemError(`"${field}" must be an array of strings`);
+    }
+    return value as string[];
+};
+
+// Imported values end up inside <style>, a <link href>, an inline <script> and the
+// preview's CSP, so they are checked against what can appear there harmlessly.
+const CSS_COLOR = /^(?:#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|[a-z]+|(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch)\([\w\s.,%/+-]*\))$/i;
+const FONT_STACK = /^[\w\s'",.-]+$/;
+
+const fontField = (value: unknown, field: string, fallback: string) => {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'string' || !FONT_STACK.test(value)) {
+        throw new DesignSystemError(`"fonts.${field}" must be a CSS font-family list`);
+    }
+    return value;
+};
+
+const stylesheetUrl = (value: unknown) => {
+    if (value === undefined || value === '') return undefined;
+    const url = typeof value === 'string' && URL.canParse(value) ? new URL(value) : null;
+    if (url?.protocol !== 'https:') throw new DesignSystemError('"fonts.stylesheetUrl" must be an https URL');
+    return url.href;
+};
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/** Parses and validates a preset written as JSON, see `validateDesignSystem`. */
+export function parseDesignSystem(json: string): DesignSystem {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch (e) {
+        throw new DesignSystemError(`Invalid JSON: ${e instanceof Error ? e.message : e}`);
+    }
+    return validateDesignSystem(raw);
+}
+
+/**
+ * Validates a user-supplied preset. Only `name` and `palette` are required;
+ * everything else falls back to the neutral SaaS preset. Custom ids are
+ * prefixed so they can never shadow a built-in preset.
+ */
+export function validateDesignSystem(raw: unknown): DesignSystem {
+    if (!isRecord(raw)) throw new DesignSystemError('Expected a JSON object');
+    if (typeof raw.name !== 'string' || !raw.name.trim()) throw new DesignSystemError('"name" is required');
+    if (!isRecord(raw.palette)) throw new DesignSystemError('"palette" is required');
+
+    const base = SAAS;
+    const palette = { ...base.palette };
+    for (const key of Object.keys(palette) as (keyof typeof palette)[]) {
+        const value = raw.palette[key];
+        if (value === undefined) continue;
+        if (typeof value !== 'string' || !CSS_COLOR.test(value.trim())) {
+            throw new DesignSystemError(`"palette.${key}" must be a CSS color string`);
+        }
+        palette[key] = value.trim();
+    }
+
+    if (raw.fonts !== undefined && !isRecord(raw.fonts)) throw new DesignSystemError('"fonts" must be an object');
+    const rawFonts: Record<string, unknown> = isRecord(raw.fonts) ? raw.fonts : {};
+    const fonts: DesignSystem['fonts'] = {
+        sans: fontField(rawFonts.sans, 'sans', base.fonts.sans),
+        mono: fontField(rawFonts.mono, 'mono', base.fonts.mono),
+        stylesheetUrl: 'stylesheetUrl' in rawFonts ? stylesheetUrl(rawFonts.stylesheetUrl) : base.fonts.stylesheetUrl
+    };
+    if (raw.tailwindTheme !== undefined && !isRecord(raw.tailwindTheme)) throw new DesignSystemError('"tailwindTheme" must be an object');
+    const tailwindTheme: Record<string, unknown> = isRecord(raw.tailwindTheme) ? raw.tailwindTheme : {};
+    // Serialized into an inline <script>, where "<" could close it.
+    if (JSON.stringify(tailwindTheme).includes('<')) throw new DesignSystemError('"tailwindTheme" must not contain "<"');
+    const text = (field: keyof DesignSystem, fallback: string) => {
+        const value = raw[field as string];
+        return typeof value === 'string' && value.trim() ? value : fallback;
+    };
+
+    const name = raw.name.trim();
+    const id = `custom-${slugify(typeof raw.id === 'string' && raw.id.replace(/^custom-/, '') || name) || 'preset'}`;
+
+    return {
+        id,
+        name,
+        description: text('description', 'Custom design system'),
+        colorScheme: raw.colorScheme === 'dark' ? 'dark' : 'light',
+        palette,
+        fonts,
+        tailwindTheme,
+        componentNoun: text('componentNoun', 'UI component'),
+        aesthetic: text('aesthetic', `${name} Aesthetic`),
+        directionHint: text('directionHint', base.directionHint),
+        promptRules: stringList(raw.promptRules, 'promptRules', [
+            `Theme: ${palette.background} background, ${palette.text} text, ${palette.accent} accents.`
+        ]),
+        examplePrompts: stringList(raw.examplePrompts, 'examplePrompts', base.examplePrompts),
+        variationPersonas: stringList(raw.variationPersonas, 'variationPersonas', base.variationPersonas),
+        fallbackStyles: stringList(raw.fallbackStyles, 'fallbackStyles', base.fallbackStyles)
+    };
+}
+
+export function loadCustomDesignSystems(): DesignSystem[] {
+    try {
+        const stored = localStorage.getItem(CUSTOM_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch {
+        return [];
+    }
+}
+
+export function saveCustomDesignSystems(designSystems: DesignSystem[]) {
+    try {
+        localStorage.setItem(CUSTOM_KEY, JSON.stringify(designSystems));
+    } catch (e) {
+        console.warn("Failed to save custom design systems", e);
+    }
+}
+
+export function loadActiveDesignSystemId(): string {
+    try {
+        return localStorage.getItem(ACTIVE_KEY) ?? DEFAULT_DESIGN_SYSTEM.id;
+    } catch {
+        return DEFAULT_DESIGN_SYSTEM.id;
+    }
+}
+
+export function saveActiveDesignSystemId(id: string) {
+    try {
+        localStorage.setItem(ACTIVE_KEY, id);
+    } catch (e) {
+        console.warn("Failed to save design system selection", e);
+    }
+}
+
+/** The design system a session's artifacts were generated with. */
+export const getSessionDesignSystem = (session: Session | undefined) =>
+    session?.designSystem ?? DEFAULT_DESIGN_SYSTEM;
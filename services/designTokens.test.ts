@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DESIGN_SYSTEM } from './designSystems';
+import { DesignToken, TokenCategory, extractDesignTokens, formatTokens } from './designTokens';
+
+interface CorpusCase {
+    name: string;
+    html: string;
+    expected: Partial<Record<TokenCategory, DesignToken[]>>;
+}
+
+// Every category not listed in `expected` must come out empty.
+const CORPUS: CorpusCase[] = [
+    {
+        name: 'palette colors, ignoring variants and opacity',
+        html: '<div class="bg-cyan-400 hover:bg-cyan-400/50 md:text-white"></div>',
+        expected: {
+            colors: [{ name: 'cyan-400', value: '#22d3ee', uses: 2 }, { name: 'white', value: '#ffffff', uses: 1 }]
+        }
+    },
+    {
+        name: 'custom hex colors, merged across case, classes, inline styles and <style>',
+        html: '<div class="bg-[#12ab34] text-[#12AB34]/50 border-[#fff]" style="color: #ABC"><style>.x { fill: #12ab34 }</style></div>',
+        expected: {
+            colors: [
+                { name: 'custom-12ab34', value: '#12ab34', uses: 3 },
+                { name: 'custom-abc', value: '#abc', uses: 1 },
+                { name: 'custom-fff', value: '#fff', uses: 1 }
+            ]
+        }
+    },
+    {
+        name: 'arbitrary spacing and sizes, named after their values',
+        html: '<p class="px-[13px] py-[13px] -mt-[1.5rem] text-[13px] font-[550] rounded-[3px] border-[3px]"></p>',
+        expected: {
+            spacing: [{ name: '13px', value: '13px', uses: 2 }, { name: '1.5rem', value: '1.5rem', uses: 1 }],
+            fontSize: [{ name: '13px', value: '13px', uses: 1 }],
+            fontWeight: [{ name: '550', value: '550', uses: 1 }],
+            borderRadius: [{ name: '3px', value: '3px', uses: 1 }],
+            borderWidth: [{ name: '3px', value: '3px', uses: 1 }]
+        }
+    },
+    {
+        name: 'scale spacing next to keywords that are not tokens',
+        html: '<div class="p-4 mx-auto space-x-reverse gap-px m-0"></div>',
+        expected: {
+            spacing: [{ name: '0', value: '0px', uses: 1 }, { name: '4', value: '1rem', uses: 1 }, { name: 'px', value: '1px', uses: 1 }]
+        }
+    },
+    {
+        name: 'nothing from scripts',
+        html: '<script>el.className = "bg-[#123456] p-4"</script>',
+        expected: {}
+    }
+];
+
+describe('extractDesignTokens', () => {
+    for (const { name, html, expected } of CORPUS) {
+        it(name, () => {
+            const tokens = extractDesignTokens(html);
+            for (const category of Object.keys(tokens) as TokenCategory[]) {
+                expect(tokens[category], category).toEqual(expected[category] ?? []);
+            }
+        });
+    }
+
+    it('resolves keys from the design system theme', () => {
+        const ds = { ...DEFAULT_DESIGN_SYSTEM, tailwindTheme: { colors: { brand: { DEFAULT: '#ff0066', dim: '#990033' } } } };
+        expect(extractDesignTokens('<a class="text-brand bg-brand-dim text-mystery-500"></a>', ds).colors).toEqual([
+            { name: 'brand', value: '#ff0066', uses: 1 },
+            { name: 'brand-dim', value: '#990033', uses: 1 }
+        ]);
+    });
+});
+
+describe('formatTokens', () => {
+    it('writes arbitrary values as valid CSS variable names', () => {
+        const css = formatTokens(extractDesignTokens('<p class="px-[13px] mt-[1.5rem] bg-[#12ab34]"></p>'), 'css');
+        expect(css).toContain('--color-custom-12ab34: #12ab34;');
+        expect(css).toContain('--spacing-13px: 13px;');
+        expect(css).toContain('--spacing-1_5rem: 1.5rem;');
+    });
+});
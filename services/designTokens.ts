@@ -0,0 +1,334 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignSystem } from '../types';
+import { DEFAULT_DESIGN_SYSTEM } from './designSystems';
+import { HtmlNode, getAttribute, parseHtml } from './htmlParser';
+import { rawText } from './componentParts';
+
+// Design tokens are read off the Tailwind utilities an artifact actually
+// uses, resolved against Tailwind's defaults and the design system's theme.
+
+export type TokenCategory = 'colors' | 'spacing' | 'fontFamily' | 'fontSize' | 'fontWeight' | 'borderRadius' | 'borderWidth';
+
+export const TOKEN_CATEGORIES: Record<TokenCategory, string> = {
+    colors: 'Colors',
+    spacing: 'Spacing',
+    fontFamily: 'Font Families',
+    fontSize: 'Font Sizes',
+    fontWeight: 'Font Weights',
+    borderRadius: 'Border Radius',
+    borderWidth: 'Border Widths'
+};
+
+export interface DesignToken {
+    /** The Tailwind key, e.g. `cyan-400` or `DEFAULT`; arbitrary values are named after themselves. */
+    name: string;
+    /** CSS value, or `null` when the key is not in Tailwind's defaults or the theme. */
+    value: string | null;
+    /** How many class names (or inline colors) use it. */
+    uses: number;
+}
+
+export type DesignTokens = Record<TokenCategory, DesignToken[]>;
+
+export type TokenFormat = 'json' | 'css' | 'tailwind';
+
+export const TOKEN_FORMATS: Record<TokenFormat, { label: string; fileName: string; mimeType: string }> = {
+    json: { label: 'JSON', fileName: 'design-tokens.json', mimeType: 'application/json' },
+    css: { label: 'CSS Variables', fileName: 'design-tokens.css', mimeType: 'text/css' },
+    tailwind: { label: 'Tailwind Theme', fileName: 'tailwind.config.js', mimeType: 'text/javascript' }
+};
+
+// Tailwind v3 default palette, shades 50 to 950.
+const SHADES = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900', '950'];
+const PALETTE: Record<string, string> = {
+    slate: 'f8fafc f1f5f9 e2e8f0 cbd5e1 94a3b8 64748b 475569 334155 1e293b 0f172a 020617',
+    gray: 'f9fafb f3f4f6 e5e7eb d1d5db 9ca3af 6b7280 4b5563 374151 1f2937 111827 030712',
+    zinc: 'fafafa f4f4f5 e4e4e7 d4d4d8 a1a1aa 71717a 52525b 3f3f46 27272a 18181b 09090b',
+    neutral: 'fafafa f5f5f5 e5e5e5 d4d4d4 a3a3a3 737373 525252 404040 262626 171717 0a0a0a',
+    stone: 'fafaf9 f5f5f4 e7e5e4 d6d3d1 a8a29e 78716c 57534e 44403c 292524 1c1917 0c0a09',
+    red: 'fef2f2 fee2e2 fecaca fca5a5 f87171 ef4444 dc2626 b91c1c 991b1b 7f1d1d 450a0a',
+    orange: 'fff7ed ffedd5 fed7aa fdba74 fb923c f97316 ea580c c2410c 9a3412 7c2d12 431407',
+    amber: 'fffbeb fef3c7 fde68a fcd34d fbbf24 f59e0b d97706 b45309 92400e 78350f 451a03',
+    yellow: 'fefce8 fef9c3 fef08a fde047 facc15 eab308 ca8a04 a16207 854d0e 713f12 422006',
+    lime: 'f7fee7 ecfccb d9f99d bef264 a3e635 84cc16 65a30d 4d7c0f 3f6212 365314 1a2e05',
+    green: 'f0fdf4 dcfce7 bbf7d0 86efac 4ade80 22c55e 16a34a 15803d 166534 14532d 052e16',
+    emerald: 'ecfdf5 d1fae5 a7f3d0 6ee7b7 34d399 10b981 059669 047857 065f46 064e3b 022c22',
+    teal: 'f0fdfa ccfbf1 99f6e4 5eead4 2dd4bf 14b8a6 0d9488 0f766e 115e59 134e4a 042f2e',
+    cyan: 'ecfeff cffafe a5f3fc 67e8f9 22d3ee 06b6d4 0891b2 0e7490 155e75 164e63 083344',
+    sky: 'f0f9ff e0f2fe bae6fd 7dd3fc 38bdf8 0ea5e9 0284c7 0369a1 075985 0c4a6e 082f49',
+    blue: 'eff6ff dbeafe bfdbfe 93c5fd 60a5fa 3b82f6 2563eb 1d4ed8 1e40af 1e3a8a 172554',
+    indigo: 'eef2ff e0e7ff c7d2fe a5b4fc 818cf8 6366f1 4f46e5 4338ca 3730a3 312e81 1e1b4b',
+    violet: 'f5f3ff ede9fe ddd6fe c4b5fd a78bfa 8b5cf6 7c3aed 6d28d9 5b21b6 4c1d95 2e1065',
+    purple: 'faf5ff f3e8ff e9d5ff d8b4fe c084fc a855f7 9333ea 7e22ce 6b21a8 581c87 3b0764',
+    fuchsia: 'fdf4ff fae8ff f5d0fe f0abfc e879f9 d946ef c026d3 a21caf 86198f 701a75 4a044e',
+    pink: 'fdf2f8 fce7f3 fbcfe8 f9a8d4 f472b6 ec4899 db2777 be185d 9d174d 831843 500724',
+    rose: 'fff1f2 ffe4e6 fecdd3 fda4af fb7185 f43f5e e11d48 be123c 9f1239 881337 4c0519'
+};
+
+const DEFAULT_COLORS: Record<string, string> = {
+    black: '#000000',
+    white: '#ffffff',
+    transparent: 'transparent',
+    current: 'currentColor',
+    inherit: 'inherit',
+    ...Object.fromEntries(Object.entries(PALETTE).flatMap(([name, hexes]) =>
+        hexes.split(' ').map((hex, i) => [`${name}-${SHADES[i]}`, `#${hex}`])))
+};
+
+const DEFAULT_FONT_SIZES: Record<string, string> = {
+    xs: '0.75rem', sm: '0.875rem', base: '1rem', lg: '1.125rem', xl: '1.25rem', '2xl': '1.5rem', '3xl': '1.875rem',
+    '4xl': '2.25rem', '5xl': '3rem', '6xl': '3.75rem', '7xl': '4.5rem', '8xl': '6rem', '9xl': '8rem'
+};
+
+const DEFAULT_FONT_WEIGHTS: Record<string, string> = {
+    thin: '100', extralight: '200', light: '300', normal: '400', medium: '500', semibold: '600', bold: '700', extrabold: '800', black: '900'
+};
+
+const DEFAULT_FONT_FAMILIES: Record<string, string> = {
+    sans: 'ui-sans-serif, system-ui, sans-serif',
+    serif: 'ui-serif, Georgia, Cambria, "Times New Roman", Times, serif',
+    mono: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace'
+};
+
+const DEFAULT_RADII: Record<string, string> = {
+    none: '0px', sm: '0.125rem', DEFAULT: '0.25rem', md: '0.375rem', lg: '0.5rem', xl: '0.75rem', '2xl': '1rem', '3xl': '1.5rem', full: '9999px'
+};
+
+const RADIUS_SIDES = new Set(['t', 'r', 'b', 'l', 's', 'e', 'tl', 'tr', 'br', 'bl', 'ss', 'se', 'es', 'ee']);
+
+const COLOR_UTILITY = /^(?:bg|text|border(?:-[xytrblse])?|ring|ring-offset|outline|divide|from|via|to|fill|stroke|accent|caret|decoration|placeholder|shadow)-(.+)$/;
+const SPACING_UTILITY = /^(?:p[xytrblse]?|m[xytrblse]?|gap(?:-[xy])?|space-[xy])-(.+)$/;
+const BORDER_WIDTH_UTILITY = /^border(?:-[xytrblse])?(?:-(\d+|\[.+\]))?$/;
+const HEX_COLOR = /#(?:[0-9a-fA-F]{8}|[0-9a-fA-F]{6}|[0-9a-fA-F]{3,4})\b/g;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Flattens a theme section the way Tailwind names its keys: `{ brand: { 500: x } }` becomes `brand-500`. */
+function flattenTheme(section: unknown, prefix = ''): Record<string, string> {
+    if (!isRecord(section)) return {};
+    return Object.entries(section).reduce<Record<string, string>>((flat, [key, value]) => {
+        const name = key === 'DEFAULT' && prefix ? prefix : prefix ? `${prefix}-${key}` : key;
+        if (isRecord(value)) Object.assign(flat, flattenTheme(value, name));
+        // Font sizes may be `[size, lineHeight]`.
+        else if (Array.isArray(value)) flat[name] = String(value[0]);
+        else flat[name] = String(value);
+        return flat;
+    }, {});
+}
+
+// Font families are lists.
+const joinFamilies = (section: unknown) => isRecord(section)
+    ? Object.fromEntries(Object.entries(section).map(([key, value]) => [key, Array.isArray(value) ? value.join(', ') : String(value)]))
+    : {};
+
+interface Scales {
+    colors: Record<string, string>;
+    fontSize: Record<string, string>;
+    fontWeight: Record<string, string>;
+    fontFamily: Record<string, string>;
+    borderRadius: Record<string, string>;
+    spacing: Record<string, string>;
+}
+
+const buildScales = (ds: DesignSystem): Scales => {
+    const theme = ds.tailwindTheme;
+    return {
+        colors: { ...DEFAULT_COLORS, ...flattenTheme(theme.colors) },
+        fontSize: { ...DEFAULT_FONT_SIZES, ...flattenTheme(theme.fontSize) },
+        fontWeight: { ...DEFAULT_FONT_WEIGHTS, ...flattenTheme(theme.fontWeight) },
+        fontFamily: { ...DEFAULT_FONT_FAMILIES, ...joinFamilies(theme.fontFamily) },
+        borderRadius: { ...DEFAULT_RADII, ...flattenTheme(theme.borderRadius) },
+        spacing: flattenTheme(theme.spacing)
+    };
+};
+
+/** `md:hover:!-mt-2` → `mt-2`: variants, `!important` and negation do not make a different token. */
+function baseUtility(className: string): string {
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < className.length; i++) {
+        const ch = className[i];
+        if (ch === '[') depth++;
+        else if (ch === ']') depth--;
+        else if (ch === ':' && depth === 0) start = i + 1;
+    }
+    return className.slice(start).replace(/^!/, '').replace(/^-/, '');
+}
+
+const arbitrary = (value: string) => /^\[.+\]$/.test(value) ? value.slice(1, -1).replace(/_/g, ' ') : null;
+const looksLikeColor = (value: string) => /^(#|rgba?\(|hsla?\()/.test(value);
+
+interface Match {
+    category: TokenCategory;
+    name: string;
+    value: string | null;
+}
+
+/** Names an arbitrary color after its hex where it has one, so the same color always gets one token. */
+const customColorName = (value: string, seen: Map<string, string>) => {
+    const key = value.toLowerCase();
+    if (!seen.has(key)) seen.set(key, /^#[0-9a-f]+$/.test(key) ? `custom-${key.slice(1)}` : `custom-${seen.size + 1}`);
+    return seen.get(key)!;
+};
+
+function matchUtility(utility: string, scales: Scales, customColors: Map<string, string>): Match | null {
+    const color = utility.match(COLOR_UTILITY);
+    if (color) {
+        // `bg-cyan-400/50` is still cyan-400; opacity is applied per use.
+        const key = color[1].replace(/\/(?:\d+|\[[^\]]+\])$/, '');
+        const value = arbitrary(key)?.replace(/^color:/, '');
+        if (value !== undefined && looksLikeColor(value)) {
+            return { category: 'colors', name: customColorName(value, customColors), value };
+        }
+        if (scales.colors[key]) return { category: 'colors', name: key, value: scales.colors[key] };
+    }
+
+    const spacing = utility.match(SPACING_UTILITY);
+    if (spacing && spacing[1] !== 'reverse' && spacing[1] !== 'auto') {
+        const key = spacing[1];
+        const value = arbitrary(key);
+        if (value !== null) return { category: 'spacing', name: value, value };
+        if (scales.spacing[key]) return { category: 'spacing', name: key, value: scales.spacing[key] };
+        if (key === 'px') return { category: 'spacing', name: key, value: '1px' };
+        if (/^\d+(\.\d+)?$/.test(key)) return { category: 'spacing', name: key, value: key === '0' ? '0px' : `${Number(key) / 4}rem` };
+        return null;
+    }
+
+    const size = utility.match(/^text-(.+)$/);
+    if (size) {
+        const value = arbitrary(size[1]);
+        if (value !== null && !looksLikeColor(value)) return { category: 'fontSize', name: value, value };
+        if (scales.fontSize[size[1]]) return { category: 'fontSize', name: size[1], value: scales.fontSize[size[1]] };
+        return null;
+    }
+
+    const font = utility.match(/^font-(.+)$/);
+    if (font) {
+        const value = arbitrary(font[1]);
+        if (value !== null) return /^\d+$/.test(value)
+            ? { category: 'fontWeight', name: value, value }
+            : { category: 'fontFamily', name: value, value };
+        if (scales.fontWeight[font[1]]) return { category: 'fontWeight', name: font[1], value: scales.fontWeight[font[1]] };
+        if (scales.fontFamily[font[1]]) return { category: 'fontFamily', name: font[1], value: scales.fontFamily[font[1]] };
+        return null;
+    }
+
+    if (utility === 'rounded' || utility.startsWith('rounded-')) {
+        const parts = utility.split('-').slice(1);
+        if (parts.length && RADIUS_SIDES.has(parts[0])) parts.shift();
+        const key = parts.join('-') || 'DEFAULT';
+        const value = arbitrary(key);
+        if (value !== null) return { category: 'borderRadius', name: value, value };
+        return { category: 'borderRadius', name: key, value: scales.borderRadius[key] ?? null };
+    }
+
+    const width = utility.match(BORDER_WIDTH_UTILITY);
+    if (width) {
+        const key = width[1] ?? 'DEFAULT';
+        const value = arbitrary(key);
+        return { category: 'borderWidth', name: value ?? key, value: value ?? (key === 'DEFAULT' ? '1px' : `${key}px`) };
+    }
+
+    return null;
+}
+
+const emptyTokens = (): DesignTokens => ({
+    colors: [], spacing: [], fontFamily: [], fontSize: [], fontWeight: [], borderRadius: [], borderWidth: []
+});
+
+/** Collects every token the artifact's classes, inline styles and `<style>` blocks use, most used first. */
+export function extractDesignTokens(html: string, ds: DesignSystem = DEFAULT_DESIGN_SYSTEM): DesignTokens {
+    const scales = buildScales(ds);
+    const customColors = new Map<string, string>();
+    const found = new Map<string, Match & { uses: number }>();
+    const record = (match: Match) => {
+        const key = `${match.category}:${match.name}`;
+        const existing = found.get(key);
+        if (existing) existing.uses++;
+        else found.set(key, { ...match, uses: 1 });
+    };
+    const recordCss = (css: string) => Array.from(css.matchAll(HEX_COLOR), m => m[0]).forEach(hex =>
+        record({ category: 'colors', name: customColorName(hex, customColors), value: hex.toLowerCase() }));
+
+    const visit = (nodes: HtmlNode[]) => nodes.forEach(node => {
+        if (node.type !== 'element' || node.tagName === 'script') return;
+        if (node.tagName === 'style') {
+            recordCss(rawText(node));
+            return;
+        }
+        (getAttribute(node, 'class') ?? '').split(/\s+/).filter(Boolean).forEach(className => {
+            const match = matchUtility(baseUtility(className), scales, customColors);
+            if (match) record(match);
+        });
+        recordCss(getAttribute(node, 'style') ?? '');
+        visit(node.children);
+    });
+    visit(parseHtml(html));
+
+    const tokens = emptyTokens();
+    [...found.values()]
+        .sort((a, b) => b.uses - a.uses || a.name.localeCompare(b.name, undefined, { numeric: true }))
+        .forEach(({ category, name, value, uses }) => tokens[category].push({ name, value, uses }));
+    return tokens;
+}
+
+export const countTokens = (tokens: DesignTokens) =>
+    (Object.keys(tokens) as TokenCategory[]).reduce((sum, category) => sum + tokens[category].length, 0);
+
+const CSS_PREFIXES: Record<TokenCategory, string> = {
+    colors: 'color',
+    spacing: 'spacing',
+    fontFamily: 'font',
+    fontSize: 'text',
+    fontWeight: 'font-weight',
+    borderRadius: 'radius',
+    borderWidth: 'border-width'
+};
+
+const cssName = (category: TokenCategory, name: string) =>
+    `--${CSS_PREFIXES[category]}-${name === 'DEFAULT' ? 'default' : name.replace(/\./g, '_').replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '')}`;
+
+/** The resolved tokens as `{ category: { name: value } }`, leaving out what could not be resolved. */
+const resolvedTokens = (tokens: DesignTokens) => Object.fromEntries(
+    (Object.keys(tokens) as TokenCategory[])
+        .filter(category => tokens[category].some(t => t.value !== null))
+        .map(category => [category, Object.fromEntries(tokens[category].filter(t => t.value !== null).map(t => [t.name, t.value]))])
+);
+
+export function formatTokens(tokens: DesignTokens, format: TokenFormat): string {
+    switch (format) {
+        case 'css': {
+            const lines = (Object.keys(tokens) as TokenCategory[]).flatMap(category => {
+                const resolved = tokens[category].filter(t => t.value !== null);
+                return resolved.length
+                    ? [`  /* ${TOKEN_CATEGORIES[category]} */`, ...resolved.map(t => `  ${cssName(category, t.name)}: ${t.value};`)]
+                    : [];
+            });
+            return `:root {\n${lines.join('\n')}\n}\n`;
+        }
+        case 'tailwind': {
+            const extend = JSON.stringify(resolvedTokens(tokens), null, 2).replace(/\n/g, '\n    ');
+            return [
+                "/** @type {import('tailwindcss').Config} */",
+                'export default {',
+                '  theme: {',
+                `    extend: ${extend}`,
+                '  }',
+                '};',
+                ''
+            ].join('\n');
+        }
+        default:
+            return JSON.stringify(Object.fromEntries(
+                (Object.keys(tokens) as TokenCategory[]).map(category => [
+                    category,
+                    Object.fromEntries(tokens[category].map(t => [t.name, t.value]))
+                ])
+            ), null, 2) + '\n';
+    }
+}
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { INSPECT_ATTRIBUTE, instrumentHtml, locateElement, replaceElement } from './elementEdit';
+
+const card = '<section class="card"><div><p>Hi <b>there</b></p><img src="a.png" alt="A"><br/><input value="x"></div><p>Tail</p></section>';
+
+const stripMarks = (html: string) => html.replace(new RegExp(` ${INSPECT_ATTRIBUTE}="\\d+"`, 'g'), '');
+
+describe('instrumentHtml', () => {
+    it('numbers nested and void elements in document order', () => {
+        expect(instrumentHtml(card)).toBe(
+            '<section data-sc-node="0" class="card"><div data-sc-node="1"><p data-sc-node="2">Hi <b data-sc-node="3">there</b></p>'
+            + '<img data-sc-node="4" src="a.png" alt="A"><br data-sc-node="5"/><input data-sc-node="6" value="x"></div>'
+            + '<p data-sc-node="7">Tail</p></section>'
+        );
+    });
+
+    it('skips document scaffolding and scripts, leaving the rest byte-for-byte', () => {
+        const page = '<!DOCTYPE html><html><head><title>x</title></head><body><main><hr><svg viewBox="0 0 2 2"><circle r="1"/></svg></main>'
+            + '<script>document.querySelector("p")</script></body></html>';
+        const instrumented = instrumentHtml(page);
+        expect(instrumented).toContain('<body><main data-sc-node="0"><hr data-sc-node="1"><svg data-sc-node="2" viewBox="0 0 2 2"><circle data-sc-node="3" r="1"/>');
+        expect(instrumented).toContain('<script>document.querySelector("p")</script>');
+        expect(stripMarks(instrumented)).toBe(page);
+    });
+});
+
+describe('locateElement', () => {
+    it('returns the source and path of a nested element', () => {
+        expect(locateElement(card, 3)).toEqual({ index: 3, tagName: 'b', outerHtml: '<b>there</b>', path: 'section.card > div > p > b' });
+        expect(locateElement(card, 5)?.outerHtml).toBe('<br/>');
+        expect(locateElement(card, 8)).toBeNull();
+    });
+});
+
+describe('replaceElement', () => {
+    it('replaces a nested element with everything inside it', () => {
+        expect(replaceElement(card, 1, '<div>New</div>'))
+            .toBe('<section class="card"><div>New</div><p>Tail</p></section>');
+    });
+
+    it('replaces void elements without swallowing their siblings', () => {
+        const edited = replaceElement(card, 4, '<img src="b.png" alt="B">');
+        expect(edited).toBe(card.replace('<img src="a.png" alt="A">', '<img src="b.png" alt="B">'));
+        expect(replaceElement(edited, 5, '<hr>')).toBe(edited.replace('<br/>', '<hr>'));
+    });
+
+    it('finds elements at their new offsets after an earlier edit', () => {
+        const longer = replaceElement(card, 3, '<strong class="loud">everyone in the room</strong>');
+        expect(locateElement(longer, 7)?.outerHtml).toBe('<p>Tail</p>');
+        expect(replaceElement(longer, 7, '<p>End</p>')).toBe(
+            '<section class="card"><div><p>Hi <strong class="loud">everyone in the room</strong></p><img src="a.png" alt="A"><br/><input value="x"></div><p>End</p></section>'
+        );
+
+        // Removing an element renumbers those after it.
+        const shorter = replaceElement(card, 2, '<p>Hi</p>');
+        expect(locateElement(shorter, 6)?.outerHtml).toBe('<p>Tail</p>');
+        expect(replaceElement(shorter, 6, '')).toBe('<section class="card"><div><p>Hi</p><img src="a.png" alt="A"><br/><input value="x"></div></section>');
+        expect(() => replaceElement(shorter, 7, '')).toThrow('no longer exists');
+    });
+
+    it('keeps instrumented offsets in step with the edited source', () => {
+        const edited = replaceElement(card, 2, '<p>Hi</p><p>Second <i>line</i></p>');
+        expect(stripMarks(instrumentHtml(edited))).toBe(edited);
+        expect(instrumentHtml(edited)).toContain('<i data-sc-node="4">line</i>');
+    });
+});
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { HtmlElement, HtmlNode, getAttribute, parseHtml } from './htmlParser';
+
+// Element-level editing. While inspecting, the preview renders a copy of the
+// artifact whose elements carry their index in the source; a click reports
+// that index, and the edit replaces exactly that element's source text.
+
+export const INSPECT_ATTRIBUTE = 'data-sc-node';
+
+// Document scaffolding and non-visual elements cannot be picked.
+const NOT_INSPECTABLE = new Set(['html', 'head', 'body', 'script', 'style', 'meta', 'link', 'title', 'template', 'noscript']);
+
+/** The artifact's pickable elements, in document order; an element's position is its index. */
+export function listInspectableElements(html: string): HtmlElement[] {
+    const found: HtmlElement[] = [];
+    const visit = (nodes: HtmlNode[]) => nodes.forEach(node => {
+        if (node.type !== 'element' || node.tagName === 'head') return;
+        if (!NOT_INSPECTABLE.has(node.tagName) && node.start !== undefined && node.end !== undefined) found.push(node);
+        if (!['script', 'style', 'template'].includes(node.tagName)) visit(node.children);
+    });
+    visit(parseHtml(html));
+    return found;
+}
+
+/**
+ * Adds the index attribute to every pickable element by inserting it into
+ * the opening tag, so the markup is otherwise byte-for-byte the original.
+ */
+export function instrumentHtml(html: string): string {
+    const elements = listInspectableElements(html);
+    let result = html;
+    // Back to front, so earlier offsets stay valid.
+    for (let i = elements.length - 1; i >= 0; i--) {
+        const start = elements[i].start!;
+        const nameLength = html.slice(start + 1).match(/^[a-zA-Z][\w:-]*/)![0].length;
+        const at = start + 1 + nameLength;
+        result = `${result.slice(0, at)} ${INSPECT_ATTRIBUTE}="${i}"${result.slice(at)}`;
+    }
+    return result;
+}
+
+export interface LocatedElement {
+    index: number;
+    tagName: string;
+    /** The element's source, exactly as written in the artifact. */
+    outerHtml: string;
+    /** Where it sits, e.g. `section.pricing > div > button`. */
+    path: string;
+}
+
+const describe = (el: HtmlElement) => {
+    const id = getAttribute(el, 'id');
+    const firstClass = getAttribute(el, 'class')?.trim().split(/\s+/)[0];
+    return el.tagName + (id ? `#${id}` : firstClass ? `.${firstClass}` : '');
+};
+
+export function locateElement(html: string, index: number): LocatedElement | null {
+    const elements = listInspectableElements(html);
+    const target = elements[index];
+    if (!target) return null;
+    const ancestors = elements.filter(el => el !== target && el.start! <= target.start! && el.end! >= target.end!);
+    return {
+        index,
+        tagName: target.tagName,
+        outerHtml: html.slice(target.start, target.end),
+        path: [...ancestors, target].map(describe).join(' > ')
+    };
+}
+
+/** Swaps element `index` for `replacement`, leaving the rest of the source untouched. */
+export function replaceElement(html: string, index: number, replacement: string): string {
+    const target = listInspectableElements(html)[index];
+    if (!target) throw new Error('The selected element no longer exists');
+    return html.slice(0, target.start) + replacement + html.slice(target.end);
+}
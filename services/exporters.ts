@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignSystem } from '../types';
+import { DEFAULT_DESIGN_SYSTEM } from './designSystems';
+import { serializeHtml } from './htmlParser';
+import {
+    INDENT,
+    buildMountCode,
+    escapeTemplateLiteral,
+    extractComponentParts,
+    hasBehaviour
+} from './componentParts';
+import { htmlToReactComponent } from './htmlToJsx';
+
+export type ExportFormat = 'html' | 'react' | 'vue' | 'svelte' | 'webcomponent';
+
+export interface ExportFormatInfo {
+    label: string;
+    /** File name used for single-file downloads. */
+    fileName: string;
+    mimeType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+    html: { label: 'HTML', fileName: 'signal-canvas-component.html', mimeType: 'text/html' },
+    react: { label: 'React', fileName: 'GeneratedComponent.tsx', mimeType: 'text/plain' },
+    vue: { label: 'Vue', fileName: 'GeneratedComponent.vue', mimeType: 'text/plain' },
+    svelte: { label: 'Svelte', fileName: 'GeneratedComponent.svelte', mimeType: 'text/plain' },
+    webcomponent: { label: 'Web Component', fileName: 'generated-component.js', mimeType: 'text/javascript' }
+};
+
+export const CUSTOM_ELEMENT_TAG = 'generated-component';
+const DEFAULT_COMPONENT_NAME = 'GeneratedComponent';
+
+const toKebabCase = (name: string) => name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+
+/** `StatusRow` → `status-row`; custom element names need a hyphen, so single words get a suffix. */
+const toCustomElementTag = (name: string) => {
+    const tag = toKebabCase(name);
+    return tag.includes('-') ? tag : `${tag}-component`;
+};
+
+/** File name for a component exported as `name`, e.g. `StatusRow.tsx` or `status-row.js`. */
+export function componentFileName(format: ExportFormat, name: string): string {
+    if (name === DEFAULT_COMPONENT_NAME) return EXPORT_FORMATS[format].fileName;
+    const extension = EXPORT_FORMATS[format].fileName.split('.').pop();
+    if (format === 'html') return `${toKebabCase(name)}.${extension}`;
+    return format === 'webcomponent' ? `${toCustomElementTag(name)}.${extension}` : `${name}.${extension}`;
+}
+
+/** Wraps a fragment in a standalone document that loads Tailwind from the CDN. */
+export const htmlToStandaloneDocument = (html: string, ds: DesignSystem = DEFAULT_DESIGN_SYSTEM) => `<!DOCTYPE html>
+<html lang="en" class="${ds.colorScheme}">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Signal Canvas Export</title>
+    <script src="https://cdn.tailwindcss.com"></script>
+    <script>tailwind.config = { darkMode: 'class', theme: { extend: ${JSON.stringify(ds.tailwindTheme)} } };</script>${ds.fonts.stylesheetUrl ? `
+    <link href="${ds.fonts.stylesheetUrl}" rel="stylesheet">` : ''}
+    <style>
+        body { margin: 0; padding: 20px; background: ${ds.palette.background}; color: ${ds.palette.text}; font-family: ${ds.fonts.sans}; }
+    </style>
+</head>
+<body>
+    ${html}
+</body>
+</html>`;
+
+const indentLines = (text: string, depth: number) =>
+    text.split('\n').map(line => line.trim() ? INDENT.repeat(depth) + line : line).join('\n');
+
+export function htmlToVueComponent(html: string): string {
+    const parts = extractComponentParts(html);
+    // v-pre keeps Vue from interpreting any `{{ }}` that happens to be in the generated text.
+    const markup = serializeHtml(parts.markup).trim();
+    const sections: string[] = [];
+
+    if (!hasBehaviour(parts)) {
+        sections.push([
+            '<template>',
+            `${INDENT}<div v-pre style="display: contents">`,
+            indentLines(markup, 2),
+            `${INDENT}</div>`,
+            '</template>'
+        ].join('\n'));
+    } else {
+        sections.push([
+            '<template>',
+            `${INDENT}<div ref="root" style="display: contents">`,
+            `${INDENT.repeat(2)}<div v-pre style="display: contents">`,
+            indentLines(markup, 3),
+            `${INDENT.repeat(2)}</div>`,
+            `${INDENT}</div>`,
+            '</template>'
+        ].join('\n'), [
+            '<script setup>',
+            `import { onBeforeUnmount, onMounted, ref } from 'vue';`,
+            '',
+            'const root = ref(null);',
+            'const cleanup = new AbortController();',
+            '',
+            'onMounted(() => {',
+            `${INDENT}const componentRoot = root.value;`,
+            `${INDENT}if (!componentRoot) return;`,
+            '',
+            buildMountCode(parts, 1),
+            '});',
+            '',
+            'onBeforeUnmount(() => cleanup.abort());',
+            '</script>'
+        ].join('\n'));
+    }
+
+    if (parts.styles.length) {
+        sections.push(`<style>\n${parts.styles.map(css => css.trim()).join('\n\n')}\n</style>`);
+    }
+
+    return sections.join('\n\n') + '\n';
+}
+
+// Svelte treats `{...}` in markup as expressions.
+const escapeSvelte = (text: string) => text.replace(/\{/g, '&#123;').replace(/\}/g, '&#125;');
+
+export function htmlToSvelteComponent(html: string): string {
+    const parts = extractComponentParts(html);
+    const markup = serializeHtml(parts.markup, { escape: escapeSvelte }).trim();
+    const sections: string[] = [];
+
+    if (hasBehaviour(parts)) {
+        sections.push([
+            '<script>',
+            `${INDENT}import { onMount } from 'svelte';`,
+            '',
+            `${INDENT}let componentRoot;`,
+            '',
+            `${INDENT}onMount(() => {`,
+            `${INDENT.repeat(2)}const cleanup = new AbortController();`,
+            '',
+            buildMountCode(parts, 2),
+            '',
+            `${INDENT.repeat(2)}return () => cleanup.abort();`,
+            `${INDENT}});`,
+            '</script>'
+        ].join('\n'));
+        sections.push(`<div bind:this={componentRoot} style="display: contents">\n${indentLines(markup, 1)}\n</div>`);
+    } else {
+        sections.push(markup);
+    }
+
+    if (parts.styles.length) {
+        // A component-level <style> would be scoped; generated CSS targets the whole page.
+        const css = escapeTemplateLiteral(parts.styles.map(s => s.trim()).join('\n\n'));
+        sections.push(`<svelte:head>\n${INDENT}{@html \`<style>\n${css}\n</style>\`}\n</svelte:head>`);
+    }
+
+    return sections.join('\n\n') + '\n';
+}
+
+/**
+ * A framework-free custom element. It renders into light DOM rather than a
+ * shadow root so the host page's Tailwind stylesheet applies to it.
+ */
+export function htmlToWebComponent(html: string, tagName = CUSTOM_ELEMENT_TAG, className = DEFAULT_COMPONENT_NAME): string {
+    const parts = extractComponentParts(html);
+    const styles = parts.styles.map(css => `<style>${css}</style>`).join('');
+    const template = escapeTemplateLiteral(serializeHtml(parts.markup).trim() + styles);
+    const body = hasBehaviour(parts)
+        ? [
+            '',
+            `${INDENT.repeat(2)}const componentRoot = this;`,
+            `${INDENT.repeat(2)}const cleanup = new AbortController();`,
+            `${INDENT.repeat(2)}this.cleanup = cleanup;`,
+            '',
+            buildMountCode(parts, 2)
+        ]
+        : [];
+
+    return [
+        `const template = \`${template}\`;`,
+        '',
+        `class ${className} extends HTMLElement {`,
+        `${INDENT}connectedCallback() {`,
+        `${INDENT.repeat(2)}this.innerHTML = template;`,
+        ...body,
+        `${INDENT}}`,
+        '',
+        `${INDENT}disconnectedCallback() {`,
+        `${INDENT.repeat(2)}this.cleanup?.abort();`,
+        `${INDENT}}`,
+        '}',
+        '',
+        `if (!customElements.get('${tagName}')) {`,
+        `${INDENT}customElements.define('${tagName}', ${className});`,
+        '}',
+        ''
+    ].join('\n');
+}
+
+/** `name` is a PascalCase component name; Vue and Svelte take theirs from the file name instead. */
+export function exportComponent(html: string, format: ExportFormat, name = DEFAULT_COMPONENT_NAME): string {
+    switch (format) {
+        case 'react': return htmlToReactComponent(html, name);
+        case 'vue': return htmlToVueComponent(html);
+        case 'svelte': return htmlToSvelteComponent(html);
+        case 'webcomponent': return htmlToWebComponent(html, name === DEFAULT_COMPONENT_NAME ? CUSTOM_ELEMENT_TAG : toCustomElementTag(name), name);
+        default: return html;
+    }
+}
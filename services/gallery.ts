@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Artifact, Session } from '../types';
+import { getSessionDesignSystem } from './designSystems';
+import { EXPORT_FORMATS, ExportFormat, exportComponent, htmlToStandaloneDocument } from './exporters';
+import { ZipEntry, createZip } from './zip';
+
+/** A starred artifact with the session it belongs to. */
+export interface GalleryEntry {
+    session: Session;
+    artifact: Artifact;
+}
+
+export interface GalleryFilter {
+    /** Matched against the prompt, style name and tags. */
+    query: string;
+    /** Only entries carrying this tag; `null` for all. */
+    tag: string | null;
+}
+
+const MAX_TAG_LENGTH = 32;
+
+/** Lowercase, single-spaced and bounded, so "Dark  Mode" and "dark mode" are one tag. */
+export const normalizeTag = (raw: string) => raw.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+
+export const addTag = (tags: string[] = [], raw: string) => {
+    const tag = normalizeTag(raw);
+    return !tag || tags.includes(tag) ? tags : [...tags, tag];
+};
+
+export const removeTag = (tags: string[] = [], tag: string) => tags.filter(t => t !== tag);
+
+/** Starred artifacts across every session, newest session first. */
+export const listGalleryEntries = (sessions: Session[]): GalleryEntry[] =>
+    [...sessions].reverse().flatMap(session => session.artifacts
+        .filter(artifact => artifact.starred)
+        .map(artifact => ({ session, artifact })));
+
+/** Every tag in use, most used first. */
+export function countTags(artifacts: Artifact[]): { tag: string; count: number }[] {
+    const counts = new Map<string, number>();
+    artifacts.forEach(a => a.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+    return [...counts].map(([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+export function filterGallery(entries: GalleryEntry[], { query, tag }: GalleryFilter): GalleryEntry[] {
+    const needle = query.trim().toLowerCase();
+    return entries.filter(({ session, artifact }) =>
+        (!tag || artifact.tags?.includes(tag)) &&
+        (!needle || [session.prompt, artifact.styleName, ...(artifact.tags ?? [])].some(text => text.toLowerCase().includes(needle)))
+    );
+}
+
+const slugify = (text: string, fallback: string) =>
+    text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || fallback;
+
+/**
+ * One file per entry in `format`, grouped by prompt, plus a `gallery.json`
+ * listing where each came from.
+ */
+export function buildGalleryFiles(entries: GalleryEntry[], format: ExportFormat): ZipEntry[] {
+    const extension = EXPORT_FORMATS[format].fileName.split('.').pop();
+    const used = new Set<string>();
+    const files: ZipEntry[] = [];
+    const manifest = entries.map(({ session, artifact }) => {
+        const base = `${slugify(session.prompt, session.id)}/${slugify(artifact.styleName, 'component')}`;
+        let path = `${base}.${extension}`;
+        for (let n = 2; used.has(path); n++) path = `${base}-${n}.${extension}`;
+        used.add(path);
+        files.push({
+            path,
+            content: format === 'html'
+                ? htmlToStandaloneDocument(artifact.html, getSessionDesignSystem(session))
+                : exportComponent(artifact.html, format)
+        });
+        return { file: path, prompt: session.prompt, styleName: artifact.styleName, tags: artifact.tags ?? [] };
+    });
+    files.push({ path: 'gallery.json', content: JSON.stringify(manifest, null, 2) + '\n' });
+    return files;
+}
+
+export function buildGalleryArchive(entries: GalleryEntry[], format: ExportFormat): Blob {
+    return new Blob([createZip(buildGalleryFiles(entries, format))], { type: 'application/zip' });
+}
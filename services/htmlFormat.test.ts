@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { formatHtml } from './htmlFormat';
+
+const LONG_TAIL = 'credits remaining on the plan, renewed on the first day of every month';
+
+describe('formatHtml', () => {
+    it('puts one block per line and keeps short inline content on its line', () => {
+        expect(formatHtml('<div class="card"><h2>Plan</h2><p>Hello <b>there</b></p></div>')).toBe([
+            '<div class="card">',
+            '  <h2>Plan</h2>',
+            '  <p>Hello <b>there</b></p>',
+            '</div>'
+        ].join('\n'));
+    });
+
+    it('keeps adjacent inline elements together when a long line is broken', () => {
+        expect(formatHtml(`<p>Total: <b>1,234</b><span>.56</span> ${LONG_TAIL}</p>`)).toBe([
+            '<p>',
+            '  Total:',
+            '  <b>1,234</b><span>.56</span>',
+            `  ${LONG_TAIL}`,
+            '</p>'
+        ].join('\n'));
+    });
+
+    it('only breaks between text and elements where there was whitespace', () => {
+        const html = `<p>(<a href="#">terms</a>)${' and more'.repeat(12)}</p>`;
+        expect(formatHtml(html).split('\n')[1]).toBe(`  (<a href="#">terms</a>)${' and more'.repeat(12)}`);
+    });
+
+    it('keeps the space at the edges of inline elements', () => {
+        expect(formatHtml('<p><a href="#"><b>Total: </b>5 </a>items</p>')).toBe('<p><a href="#"><b>Total: </b>5 </a>items</p>');
+    });
+
+    it('does not separate images or icons from their neighbours', () => {
+        expect(formatHtml('<div><img src="a.png"><img src="b.png"></div>')).toBe('<div><img src="a.png"><img src="b.png"></div>');
+        expect(formatHtml('<button><svg><path d="M0 0" /></svg>Save</button>')).toBe('<button><svg><path d="M0 0" /></svg>Save</button>');
+    });
+
+    it('breaks an inline element around its blocks but not at inline edges', () => {
+        expect(formatHtml('<a href="#"><div>Title</div>tail</a>')).toBe([
+            '<a href="#">',
+            '  <div>Title</div>',
+            '  tail</a>'
+        ].join('\n'));
+    });
+
+    it('lays out svg shapes freely but keeps text runs intact', () => {
+        const path = `M0 0${' L10 10'.repeat(12)}`;
+        expect(formatHtml(`<div><svg><path d="${path}" /><text>Hi<tspan>!</tspan></text></svg></div>`)).toBe([
+            '<div>',
+            '  <svg>',
+            `    <path d="${path}" />`,
+            '    <text>Hi<tspan>!</tspan></text>',
+            '  </svg>',
+            '</div>'
+        ].join('\n'));
+    });
+
+    it('leaves preformatted and script content alone', () => {
+        expect(formatHtml('<section><pre>  a\n b</pre><script>\nlet x = "a   b";\n</script></section>')).toBe([
+            '<section>',
+            '  <pre>  a\n b</pre>',
+            '  <script>',
+            '    let x = "a   b";',
+            '  </script>',
+            '</section>'
+        ].join('\n'));
+    });
+
+    it('is stable when run again', () => {
+        const html = `<!DOCTYPE html><html><body><main><p>Total: <b>1,234</b><span>.56</span> ${LONG_TAIL}</p><ul><li>a</li></ul></main></body></html>`;
+        const once = formatHtml(html);
+        expect(once.startsWith('<!DOCTYPE html>\n<html>')).toBe(true);
+        expect(formatHtml(once)).toBe(once);
+    });
+});
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+    HtmlNode,
+    RAW_TEXT_ELEMENTS,
+    VOID_ELEMENTS,
+    parseHtml,
+    serializeAttributes,
+    serializeHtml
+} from './htmlParser';
+import { INDENT, indentBlock } from './componentParts';
+
+// Elements whose whitespace is significant and must be written back untouched.
+const PRESERVE_WHITESPACE = new Set(['pre', 'textarea']);
+
+// Whitespace next to these is not rendered, so lines may break around them.
+// Anywhere else a line break shows as a space, so it only goes where one already was.
+const BLOCK_ELEMENTS = new Set([
+    'address', 'article', 'aside', 'base', 'blockquote', 'body', 'caption', 'col', 'colgroup', 'dd',
+    'details', 'dialog', 'div', 'dl', 'dt', 'fieldset', 'figcaption', 'figure', 'footer', 'form',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head', 'header', 'hgroup', 'hr', 'html', 'legend', 'li',
+    'link', 'main', 'menu', 'meta', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody',
+    'td', 'template', 'tfoot', 'th', 'thead', 'title', 'tr', 'ul'
+]);
+
+// Inside <svg> whitespace only renders within <text>, around these.
+const SVG_INLINE_ELEMENTS = new Set(['tspan', 'textpath']);
+
+const MAX_LINE_WIDTH = 100;
+
+const isBlock = (node: HtmlNode, inSvg: boolean) => node.type === 'element'
+    && (inSvg ? !SVG_INLINE_ELEMENTS.has(node.tagName) : BLOCK_ELEMENTS.has(node.tagName));
+
+/** Whether `node` goes on one line within text: it has no block inside. An <svg> counts as one, like an image. */
+const isInline = (node: HtmlNode, inSvg: boolean): boolean => node.type !== 'element'
+    || (node.tagName === 'svg' && !inSvg)
+    || (!isBlock(node, inSvg) && node.children.every(child => isInline(child, inSvg)));
+
+const breaksAt = (node: HtmlNode, edge: RegExp, inSvg: boolean) =>
+    isBlock(node, inSvg) || (node.type === 'text' && edge.test(node.value));
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ');
+
+/** Serializes nodes on one line, collapsing whitespace in text outside `<pre>`, `<textarea>` and raw text. */
+const serializeInline = (nodes: HtmlNode[]): string => nodes.map(node => {
+    if (node.type === 'text') return collapse(node.value);
+    if (node.type === 'comment' || VOID_ELEMENTS.has(node.tagName) || PRESERVE_WHITESPACE.has(node.tagName) || RAW_TEXT_ELEMENTS.has(node.tagName)) {
+        return serializeHtml([node]);
+    }
+    if (node.selfClosing && node.children.length === 0) return `<${node.tagName}${serializeAttributes(node.attributes)} />`;
+    return `<${node.tagName}${serializeAttributes(node.attributes)}>${serializeInline(node.children)}</${node.tagName}>`;
+}).join('');
+
+/** Splits siblings into runs that each go on one line, breaking only at whitespace or next to a block. */
+function splitRuns(nodes: HtmlNode[], inSvg: boolean): HtmlNode[][] {
+    const runs: HtmlNode[][] = [];
+    let canBreak = true;
+    for (const node of nodes) {
+        if (node.type === 'text' && !node.value.trim()) {
+            canBreak = true;
+            continue;
+        }
+        if (canBreak || breaksAt(node, /^\s/, inSvg)) runs.push([]);
+        runs[runs.length - 1].push(node);
+        canBreak = breaksAt(node, /\s$/, inSvg);
+    }
+    return runs;
+}
+
+function formatNodes(nodes: HtmlNode[], depth: number, inSvg = false): string[] {
+    const pad = INDENT.repeat(depth);
+    const lines: string[] = [];
+
+    for (const run of splitRuns(nodes, inSvg)) {
+        const [node] = run;
+        if (run.length > 1 || node.type === 'text') {
+            lines.push(pad + serializeInline(run).trim());
+            continue;
+        }
+        if (node.type === 'comment') {
+            lines.push(`${pad}<!--${node.value}-->`);
+            continue;
+        }
+
+        const tag = node.tagName;
+        const attributes = serializeAttributes(node.attributes);
+        if (VOID_ELEMENTS.has(tag)) {
+            lines.push(`${pad}<${tag}${attributes}>`);
+            continue;
+        }
+        if (node.selfClosing && node.children.length === 0) {
+            lines.push(`${pad}<${tag}${attributes} />`);
+            continue;
+        }
+
+        const open = `${pad}<${tag}${attributes}>`;
+        const close = `</${tag}>`;
+
+        if (PRESERVE_WHITESPACE.has(tag)) {
+            lines.push(open + serializeHtml(node.children) + close);
+            continue;
+        }
+        if (RAW_TEXT_ELEMENTS.has(tag)) {
+            const body = serializeHtml(node.children);
+            if (body.trim()) lines.push(open, indentBlock(body, depth + 1), pad + close);
+            else lines.push(open + close);
+            continue;
+        }
+        const block = isBlock(node, inSvg);
+        const childSvg = inSvg || tag === 'svg';
+        if (node.children.every(child => isInline(child, childSvg))) {
+            // Space at the edges of a block is not rendered; inside an inline element it is.
+            const inline = serializeInline(node.children);
+            const line = open + (block ? inline.trim() : inline) + close;
+            if (!block || line.length <= MAX_LINE_WIDTH) {
+                lines.push(line);
+                continue;
+            }
+        }
+        // Inside an inline element, a break at either edge would show as a space unless one is already there.
+        const inner = formatNodes(node.children, depth + 1, childSvg);
+        if (block || breaksAt(node.children[0], /^\s/, childSvg)) lines.push(open);
+        else inner[0] = open + inner[0].trimStart();
+        if (block || breaksAt(node.children[node.children.length - 1], /\s$/, childSvg)) inner.push(pad + close);
+        else inner[inner.length - 1] += close;
+        lines.push(...inner);
+    }
+
+    return lines;
+}
+
+/**
+ * Pretty-prints HTML with one block element per line. Lines only break where
+ * the page already has whitespace or next to a block, so the result renders
+ * like the input; `<pre>`/`<textarea>` content is left as-is.
+ */
+export function formatHtml(html: string): string {
+    const doctype = html.match(/^\s*(<!doctype[^>]*>)/i)?.[1];
+    const body = formatNodes(parseHtml(html), 0).join('\n');
+    return doctype ? `${doctype}\n${body}` : body;
+}
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { RAW_TEXT_ELEMENTS } from './htmlParser';
+
+// A lexical highlighter for the source editor. It only classifies character
+// ranges, so it never rejects input and joining the tokens gives back the
+// original source exactly; the editor relies on that to keep the highlighted
+// layer aligned with the text area on top of it.
+
+export type HighlightTokenType = 'text' | 'comment' | 'doctype' | 'punctuation' | 'tag' | 'attribute' | 'value' | 'raw';
+
+export interface HighlightToken {
+    type: HighlightTokenType;
+    text: string;
+}
+
+const COMMENT = /<!--[\s\S]*?(?:-->|$)/y;
+const DOCTYPE = /<![^>]*>?/y;
+const TAG_OPEN = /<\/?(?=[a-zA-Z])/y;
+const TAG_NAME = /[^\s/>]+/y;
+const WHITESPACE = /\s+/y;
+const ATTRIBUTE_NAME = /[^\s/>=]+/y;
+const EQUALS = /\s*=\s*/y;
+const ATTRIBUTE_VALUE = /"[^"]*"?|'[^']*'?|[^\s>]+/y;
+const TAG_CLOSE = /\/?>/y;
+const TEXT = /[^<]+|</y;
+
+export function highlightHtml(source: string): HighlightToken[] {
+    const tokens: HighlightToken[] = [];
+    let pos = 0;
+
+    const push = (type: HighlightTokenType, text: string) => {
+        const last = tokens[tokens.length - 1];
+        if (last?.type === type) last.text += text;
+        else tokens.push({ type, text });
+        pos += text.length;
+    };
+
+    const match = (pattern: RegExp) => {
+        pattern.lastIndex = pos;
+        return pattern.exec(source)?.[0] ?? null;
+    };
+
+    const readTag = () => {
+        const open = match(TAG_OPEN)!;
+        push('punctuation', open);
+        const name = match(TAG_NAME) ?? '';
+        push('tag', name);
+
+        while (pos < source.length) {
+            const space = match(WHITESPACE);
+            if (space) { push('text', space); continue; }
+            const close = match(TAG_CLOSE);
+            if (close) { push('punctuation', close); break; }
+            if (source[pos] === '<') break;
+            const attribute = match(ATTRIBUTE_NAME);
+            if (attribute) {
+                push('attribute', attribute);
+                const equals = match(EQUALS);
+                if (equals) {
+                    push('punctuation', equals);
+                    const value = match(ATTRIBUTE_VALUE);
+                    if (value) push('value', value);
+                }
+                continue;
+            }
+            push('punctuation', source[pos]);
+        }
+
+        const tagName = name.toLowerCase();
+        if (open === '<' && RAW_TEXT_ELEMENTS.has(tagName)) {
+            const end = source.toLowerCase().indexOf(`</${tagName}`, pos);
+            const raw = source.slice(pos, end === -1 ? source.length : end);
+            if (raw) push('raw', raw);
+        }
+    };
+
+    while (pos < source.length) {
+        const comment = match(COMMENT);
+        if (comment) { push('comment', comment); continue; }
+        if (match(TAG_OPEN) !== null) { readTag(); continue; }
+        const doctype = match(DOCTYPE);
+        if (doctype) { push('doctype', doctype); continue; }
+        push('text', match(TEXT)!);
+    }
+
+    return tokens;
+}
@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A small, forgiving HTML parser for model-generated markup. It does not need
+// a DOM, so it works in the browser, in workers and in Node scripts alike.
+
+export interface HtmlAttribute {
+    name: string;
+    /** `null` for boolean attributes written without a value, e.g. `<input disabled>`. */
+    value: string | null;
+}
+
+export interface HtmlElement {
+    type: 'element';
+    tagName: string;
+    attributes: HtmlAttribute[];
+    children: HtmlNode[];
+    /** Written as `<tag />` in the source. */
+    selfClosing: boolean;
+    /**
+     * Source offsets set by `parseHtml`: from the `<` of the opening tag to
+     * the end of the closing tag, or to where the element was implicitly closed.
+     */
+    start?: number;
+    end?: number;
+}
+
+export interface HtmlText {
+    type: 'text';
+    /** Raw source text, entities not decoded. */
+    value: string;
+}
+
+export interface HtmlComment {
+    type: 'comment';
+    value: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText | HtmlComment;
+
+export const VOID_ELEMENTS = new Set([
+    'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+    'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+// Inline-level elements whose surrounding whitespace is visible and must be kept.
+export const INLINE_ELEMENTS = new Set([
+    'a', 'abbr', 'b', 'button', 'code', 'em', 'i', 'img', 'input', 'kbd', 'label',
+    'mark', 'q', 's', 'select', 'small', 'span', 'strong', 'sub', 'sup', 'svg', 'time', 'u'
+]);
+
+export const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+// Opening one of these implicitly closes an open element of the listed kinds.
+const IMPLICIT_CLOSERS: Record<string, string[]> = {
+    li: ['li'],
+    dt: ['dt', 'dd'],
+    dd: ['dt', 'dd'],
+    tr: ['tr', 'td', 'th'],
+    td: ['td', 'th'],
+    th: ['td', 'th'],
+    option: ['option'],
+    p: ['p']
+};
+
+// Block-level elements that implicitly close an open `<p>`.
+const CLOSES_PARAGRAPH = new Set([
+    'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset',
+    'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'header', 'hr', 'main', 'nav', 'ol', 'pre', 'section', 'table', 'ul'
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    copy: '©', reg: '®', deg: '°', middot: '·', times: '×',
+    mdash: '—', ndash: '–', hellip: '…', bull: '•',
+    larr: '←', rarr: '→', uarr: '↑', darr: '↓'
+};
+
+export const decodeEntities = (text: string) =>
+    text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (match, body: string) => {
+        if (body[0] === '#') {
+            const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+            return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[body] ?? NAMED_ENTITIES[body.toLowerCase()] ?? match;
+    });
+
+const normalizeTagName = (name: string) =>
+    // HTML tag names are case-insensitive; SVG ones like `linearGradient` are not.
+    name === name.toUpperCase() || /^[A-Z]/.test(name) ? name.toLowerCase() : name;
+
+const CLOSE_TAG_PATTERN = /<\/\s*([a-zA-Z][\w:-]*)\s*>/y;
+// Quoted values and bare characters never start with the same character, so this cannot backtrack.
+const OPEN_TAG_PATTERN = /<([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/y;
+const ATTRIBUTE_PATTERN = /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const parseAttributes = (source: string): HtmlAttribute[] => {
+    const attributes: HtmlAttribute[] = [];
+    for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+        const value = match[2] ?? match[3] ?? match[4];
+        attributes.push({ name: match[1], value: value ?? null });
+    }
+    return attributes;
+};
+
+/** Parses an HTML fragment or document into a list of top-level nodes. */
+export function parseHtml(html: string): HtmlNode[] {
+    const root: HtmlElement = { type: 'element', tagName: '#root', attributes: [], children: [], selfClosing: false };
+    const stack: HtmlElement[] = [root];
+    const current = () => stack[stack.length - 1];
+
+    // Elements closed by another element's tag end where that tag starts.
+    const closeTo = (tagName: string, tagStart: number, tagEnd: number) => {
+        const index = stack.map(el => el.tagName).lastIndexOf(tagName);
+        if (index <= 0) return;
+        stack.slice(index).forEach((el, i) => { el.end = i === 0 ? tagEnd : tagStart; });
+        stack.length = index;
+    };
+
+    let pos = 0;
+    while (pos < html.length) {
+        const lt = html.indexOf('<', pos);
+        if (lt === -1) {
+            current().children.push({ type: 'text', value: html.slice(pos) });
+            break;
+        }
+        if (lt > pos) current().children.push({ type: 'text', value: html.slice(pos, lt) });
+
+        if (html.startsWith('<!--', lt)) {
+            const end = html.indexOf('-->', lt + 4);
+            const stop = end === -1 ? html.length : end;
+            current().children.push({ type: 'comment', value: html.slice(lt + 4, stop) });
+            pos = end === -1 ? html.length : end + 3;
+            continue;
+        }
+
+        if (html[lt + 1] === '!' || html[lt + 1] === '?') {
+            // Doctype or processing instruction: skip.
+            const end = html.indexOf('>', lt);
+            pos = end === -1 ? html.length : end + 1;
+            continue;
+        }
+
+        CLOSE_TAG_PATTERN.lastIndex = lt;
+        const closeMatch = CLOSE_TAG_PATTERN.exec(html);
+        if (closeMatch) {
+            pos = lt + closeMatch[0].length;
+            closeTo(normalizeTagName(closeMatch[1]), lt, pos);
+            continue;
+        }
+
+        OPEN_TAG_PATTERN.lastIndex = lt;
+        const openMatch = OPEN_TAG_PATTERN.exec(html);
+        if (!openMatch) {
+            // A stray `<` in text.
+            current().children.push({ type: 'text', value: '<' });
+            pos = lt + 1;
+            continue;
+        }
+
+        const tagName = normalizeTagName(openMatch[1]);
+        const attributeSource = openMatch[2].trimEnd();
+        const selfClosing = attributeSource.endsWith('/');
+        const element: HtmlElement = {
+            type: 'element',
+            tagName,
+            attributes: parseAttributes(selfClosing ? attributeSource.slice(0, -1) : attributeSource),
+            children: [],
+            selfClosing,
+            start: lt
+        };
+        pos = lt + openMatch[0].length;
+
+        const closes = IMPLICIT_CLOSERS[tagName];
+        if ((closes && closes.includes(current().tagName)) || (CLOSES_PARAGRAPH.has(tagName) && current().tagName === 'p')) {
+            stack.pop()!.end = lt;
+        }
+
+        current().children.push(element);
+        if (selfClosing || VOID_ELEMENTS.has(tagName)) {
+            element.end = pos;
+            continue;
+        }
+
+        if (RAW_TEXT_ELEMENTS.has(tagName)) {
+            const endPattern = new RegExp(`</\\s*${tagName}\\s*>`, 'i');
+            const rest = html.slice(pos);
+            const end = rest.search(endPattern);
+            const text = end === -1 ? rest : rest.slice(0, end);
+            if (text) element.children.push({ type: 'text', value: text });
+            pos = end === -1 ? html.length : pos + end + rest.slice(end).match(endPattern)![0].length;
+            element.end = pos;
+            continue;
+        }
+
+        stack.push(element);
+    }
+
+    stack.slice(1).forEach(el => { el.end = html.length; });
+    return root.children;
+}
+
+export const getAttribute = (element: HtmlElement, name: string) =>
+    element.attributes.find(a => a.name.toLowerCase() === name)?.value ?? null;
+
+/** Depth-first search for every element matching `predicate`. */
+export function findElements(nodes: HtmlNode[], predicate: (el: HtmlElement) => boolean): HtmlElement[] {
+    const found: HtmlElement[] = [];
+    const visit = (node: HtmlNode) => {
+        if (node.type !== 'element') return;
+        if (predicate(node)) found.push(node);
+        node.children.forEach(visit);
+    };
+    nodes.forEach(visit);
+    return found;
+}
+
+/**
+ * For full documents, returns the `<body>` children preceded by any
+ * `<style>`/`<script>` found in `<head>`. Fragments are returned unchanged.
+ */
+export function extractBodyContent(nodes: HtmlNode[]): HtmlNode[] {
+    const [body] = findElements(nodes, el => el.tagName === 'body');
+    const [head] = findElements(nodes, el => el.tagName === 'head');
+    if (!body && !head) {
+        const [htmlEl] = findElements(nodes, el => el.tagName === 'html');
+        return htmlEl ? htmlEl.children : nodes;
+    }
+    const headAssets = head ? head.children.filter(n => n.type === 'element' && (n.tagName === 'style' || n.tagName === 'script')) : [];
+    return [...headAssets, ...(body ? body.children : [])];
+}
+
+export interface SerializeOptions {
+    /** Transforms raw text nodes and attribute values, e.g. to escape template syntax. */
+    escape?: (text: string) => string;
+}
+
+const identity = (text: string) => text;
+
+/** Serializes an attribute list with a leading space per attribute, e.g. ` class="a" disabled`. */
+export const serializeAttributes = (attributes: HtmlAttribute[], escape: (text: string) => string = identity) =>
+    attributes
+        .map(({ name, value }) => value === null ? ` ${name}` : ` ${name}="${escape(value.replace(/"/g, '&quot;'))}"`)
+        .join('');
+
+/** Serializes nodes back to HTML. Void elements are written without a closing tag. */
+export function serializeHtml(nodes: HtmlNode[], options: SerializeOptions = {}): string {
+    const escape = options.escape ?? identity;
+    return nodes.map(node => {
+        if (node.type === 'text') return escape(node.value);
+        if (node.type === 'comment') return `<!--${node.value}-->`;
+        const attributes = serializeAttributes(node.attributes, escape);
+        if (VOID_ELEMENTS.has(node.tagName)) return `<${node.tagName}${attributes}>`;
+        if (node.selfClosing && node.children.length === 0) return `<${node.tagName}${attributes} />`;
+        return `<${node.tagName}${attributes}>${serializeHtml(node.children, options)}</${node.tagName}>`;
+    }).join('');
+}
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import path from 'node:path';
+import ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+import { htmlToJsx, htmlToReactComponent } from './htmlToJsx';
+
+// Shapes of markup the models produce; every one must compile as a strict TSX component.
+const CORPUS: Record<string, string> = {
+    Counter: `
+        <div class="p-4 flex gap-2">
+            <span id="count" class="text-2xl">0</span>
+            <button id="inc" class="btn">+1</button>
+        </div>
+        <script>
+            let count = 0;
+            document.querySelector('#inc').addEventListener('click', () => {
+                count++;
+                document.querySelector('#count').textContent = String(count);
+            });
+        </script>`,
+    InlineHandlers: `
+        <button onclick="this.classList.toggle('active'); event.stopPropagation()">Toggle</button>
+        <input type="text" oninput="document.getElementById('echo').textContent = this.value">
+        <p id="echo"></p>`,
+    StyledCard: `
+        <!-- A card with custom properties -->
+        <article class="card" style="--accent: #f97316; background: url('data:image/png;base64,AA==;'); padding: 12px">
+            <h2 style="-webkit-line-clamp: 2">Title &amp; <em>subtitle</em></h2>
+            <img src="/a.png" alt="">
+            <br>
+            <hr/>
+            <p>Uses {braces} and a &lt;tag&gt;</p>
+        </article>`,
+    Icon: `
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" xmlns:xlink="http://www.w3.org/1999/xlink">
+            <path d="M4 12h16" />
+            <use xlink:href="#icon" />
+        </svg>`,
+    FormControls: `
+        <form>
+            <label for="size">Size</label>
+            <select id="size" name="size">
+                <option value="s">Small</option>
+                <option value="m" selected>Medium</option>
+            </select>
+            <select multiple>
+                <optgroup label="Fruit">
+                    <option selected>Apple</option>
+                    <option selected value="pear">Pear</option>
+                </optgroup>
+            </select>
+            <input type="checkbox" checked tabindex="2" maxlength="4">
+            <input type="text" value="hello" readonly>
+            <textarea rows="3">Some &amp; notes</textarea>
+            <pre>  keep   spacing </pre>
+        </form>`,
+    Calculator: `
+        <form id="calc" class="space-y-2">
+            <input id="amount" type="number" value="10">
+            <select id="rate"><option value="0.2" selected>20%</option><option value="0.1">10%</option></select>
+            <label><input type="checkbox" class="round"> Round</label>
+            <output id="result"></output>
+            <canvas id="chart" width="120" height="40"></canvas>
+            <ul class="history"></ul>
+        </form>
+        <script>
+            const amount = document.getElementById('amount');
+            const chart = document.querySelector("#chart").getContext('2d');
+            function update() {
+                const rate = Number(document.querySelector('#rate').value);
+                let total = Number(amount.value) * (1 + rate);
+                if (document.querySelector('input.round').checked) total = Math.round(total);
+                document.getElementById('result').value = \`Total: \${total.toFixed(2)}\`;
+                chart?.fillRect(0, 0, total, 40);
+                const item = document.createElement('li');
+                item.textContent = document.querySelector('#result').value;
+                document.querySelector('.history').append(item);
+                item.closest('form').dataset.updated = 'true';
+            }
+            document.querySelectorAll('#calc input, #calc select').forEach(input => input.addEventListener('input', update));
+            // document.querySelector('#missing').value would not be typed inside this comment
+        </script>`,
+    FullDocument: `
+        <!DOCTYPE html>
+        <html lang="en">
+            <head>
+                <meta charset="utf-8">
+                <title>Dashboard</title>
+                <script src="https://cdn.tailwindcss.com"></script>
+                <style>.tile { color: \`red\`; content: "\${x}"; }</style>
+            </head>
+            <body class="bg-slate-900">
+                <table cellpadding="4">
+                    <tr><td colspan="2">Total</td></tr>
+                </table>
+                <script>
+                    const tiles = document.querySelectorAll('.tile');
+                    tiles.forEach(t => t.style.opacity = '1');
+                    window.addEventListener('resize', () => console.log(innerWidth));
+                </script>
+            </body>
+        </html>`
+};
+
+/**
+ * Type-checks the corpus as a project of in-memory files. They live in a
+ * virtual directory under the repo so `react` resolves from node_modules.
+ */
+function typeCheckCorpus(): string[] {
+    const root = path.resolve(__dirname, '__jsx_corpus__');
+    const files = new Map<string, string>();
+    for (const [name, html] of Object.entries(CORPUS)) {
+        files.set(path.join(root, `${name}.tsx`), htmlToReactComponent(html, name));
+    }
+
+    const options: ts.CompilerOptions = {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        jsx: ts.JsxEmit.ReactJSX,
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+        types: []
+    };
+    const host = ts.createCompilerHost(options);
+    const { fileExists, directoryExists, readFile, getSourceFile } = host;
+    host.directoryExists = dir => dir === root || (directoryExists?.(dir) ?? true);
+    host.fileExists = fileName => files.has(fileName) || fileExists(fileName);
+    host.readFile = fileName => files.get(fileName) ?? readFile(fileName);
+    host.getSourceFile = (fileName, languageVersion, ...rest) => files.has(fileName)
+        ? ts.createSourceFile(fileName, files.get(fileName)!, languageVersion)
+        : getSourceFile(fileName, languageVersion, ...rest);
+
+    const program = ts.createProgram([...files.keys()], options, host);
+    return ts.getPreEmitDiagnostics(program).map(d => {
+        const message = ts.flattenDiagnosticMessageText(d.messageText, '\n');
+        if (!d.file || d.start === undefined) return message;
+        const { line } = d.file.getLineAndCharacterOfPosition(d.start);
+        return `${path.basename(d.file.fileName)}:${line + 1} ${message}`;
+    });
+}
+
+describe('htmlToReactComponent', () => {
+    it('produces components that pass a strict type check', () => {
+        expect(typeCheckCorpus()).toEqual([]);
+    }, 30_000);
+
+    it('runs scripts in a useEffect with their lookups typed', () => {
+        const component = htmlToReactComponent(CORPUS.Counter, 'Counter');
+        expect(component).toContain('useEffect(() => {');
+        expect(component).toContain("document.querySelector<HTMLSpanElement>('#count')!.textContent = String(count);");
+        expect(component).not.toContain('@ts-');
+    });
+
+    it('types this in inline handlers as their element', () => {
+        expect(htmlToReactComponent(CORPUS.InlineHandlers)).toContain(
+            `componentRoot.querySelector<HTMLInputElement>('[data-inline-handler="1"]')?.addEventListener("input", function (event) {`
+        );
+    });
+
+    it('has no effect without behaviour', () => {
+        expect(htmlToReactComponent(CORPUS.StyledCard, 'StyledCard')).not.toContain('useEffect');
+    });
+});
+
+describe('htmlToJsx', () => {
+    it('selects options through the select\'s defaultValue', () => {
+        const jsx = htmlToJsx('<select><option value="a">A</option><option value="b" selected>B</option></select>');
+        expect(jsx).toContain('<select defaultValue={"b"}>');
+        expect(jsx).not.toContain('selected');
+    });
+
+    it('uses option text when there is no value', () => {
+        expect(htmlToJsx('<select><option selected>\n  Big   one </option></select>')).toContain('defaultValue={"Big one"}');
+    });
+
+    it('keeps the last selected option of a single select, as browsers do', () => {
+        expect(htmlToJsx('<select><option selected>A</option><option selected>B</option></select>')).toContain('defaultValue={"B"}');
+    });
+
+    it('collects every selected option of a multiple select', () => {
+        const jsx = htmlToJsx('<select multiple><optgroup><option selected>A</option></optgroup><option value="b" selected>B</option></select>');
+        expect(jsx).toContain('defaultValue={["A","b"]}');
+    });
+});
@@ -0,0 +1,293 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { HtmlElement, HtmlNode, INLINE_ELEMENTS, VOID_ELEMENTS, decodeEntities, getAttribute } from './htmlParser';
+import {
+    INDENT,
+    buildMountCode,
+    escapeTemplateLiteral,
+    extractComponentParts,
+    hasBehaviour,
+    rawText
+} from './componentParts';
+
+// HTML attribute names whose React prop is not a plain camelCase conversion.
+const ATTRIBUTE_RENAMES: Record<string, string> = {
+    'class': 'className',
+    'for': 'htmlFor',
+    'accept-charset': 'acceptCharset',
+    'accesskey': 'accessKey',
+    'allowfullscreen': 'allowFullScreen',
+    'autocomplete': 'autoComplete',
+    'autofocus': 'autoFocus',
+    'autoplay': 'autoPlay',
+    'cellpadding': 'cellPadding',
+    'cellspacing': 'cellSpacing',
+    'charset': 'charSet',
+    'colspan': 'colSpan',
+    'contenteditable': 'contentEditable',
+    'crossorigin': 'crossOrigin',
+    'datetime': 'dateTime',
+    'enctype': 'encType',
+    'formaction': 'formAction',
+    'frameborder': 'frameBorder',
+    'http-equiv': 'httpEquiv',
+    'inputmode': 'inputMode',
+    'maxlength': 'maxLength',
+    'minlength': 'minLength',
+    'novalidate': 'noValidate',
+    'playsinline': 'playsInline',
+    'readonly': 'readOnly',
+    'referrerpolicy': 'referrerPolicy',
+    'rowspan': 'rowSpan',
+    'spellcheck': 'spellCheck',
+    'srcdoc': 'srcDoc',
+    'srcset': 'srcSet',
+    'tabindex': 'tabIndex',
+    'usemap': 'useMap',
+    'xlink:href': 'xlinkHref',
+    'xml:lang': 'xmlLang',
+    'xml:space': 'xmlSpace',
+    'xmlns:xlink': 'xmlnsXlink'
+};
+
+// React props typed as numbers; integer literals are emitted as `{n}` rather than strings.
+const NUMERIC_PROPS = new Set([
+    'colSpan', 'rowSpan', 'tabIndex', 'rows', 'cols', 'size', 'maxLength', 'minLength', 'span', 'start'
+]);
+
+// Elements React treats as form controls; literal values must be defaults to stay uncontrolled.
+const FORM_CONTROLS = new Set(['input', 'select', 'textarea']);
+
+const camelCase = (name: string) => name.replace(/[-:]([a-z])/g, (_, c: string) => c.toUpperCase());
+
+const toPropName = (attribute: string) => {
+    const lower = attribute.toLowerCase();
+    if (ATTRIBUTE_RENAMES[lower]) return ATTRIBUTE_RENAMES[lower];
+    if (lower.startsWith('data-') || lower.startsWith('aria-')) return lower;
+    return camelCase(attribute);
+};
+
+const toStyleProperty = (property: string) => {
+    if (property.startsWith('--')) return `'${property}'`;
+    const name = property.startsWith('-ms-') ? property.slice(1) : property;
+    return camelCase(name.replace(/^-([a-z])/, (_, c: string) => c.toUpperCase()));
+};
+
+/** Splits a declaration list on `;`, ignoring semicolons inside quotes or parentheses (e.g. data URLs). */
+const splitDeclarations = (style: string) => {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let start = 0;
+    for (let i = 0; i < style.length; i++) {
+        const c = style[i];
+        if (quote) {
+            if (c === quote) quote = null;
+        } else if (c === '"' || c === "'") quote = c;
+        else if (c === '(') depth++;
+        else if (c === ')') depth = Math.max(0, depth - 1);
+        else if (c === ';' && depth === 0) {
+            parts.push(style.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(style.slice(start));
+    return parts.map(p => p.trim()).filter(Boolean);
+};
+
+export const styleToObjectLiteral = (style: string) => {
+    const entries = splitDeclarations(decodeEntities(style)).flatMap(declaration => {
+        const colon = declaration.indexOf(':');
+        if (colon === -1) return [];
+        const property = declaration.slice(0, colon).trim().toLowerCase();
+        const value = declaration.slice(colon + 1).trim();
+        if (!property || !value) return [];
+        return [`${toStyleProperty(property)}: ${JSON.stringify(value)}`];
+    });
+    if (!entries.length) return '{}';
+    const literal = `{ ${entries.join(', ')} }`;
+    // Custom properties are not part of CSSProperties and need a cast to type-check.
+    return entries.some(e => e.startsWith("'--")) ? `${literal} as React.CSSProperties` : literal;
+};
+
+const quoteAttributeValue = (value: string) => {
+    if (!value.includes('"')) return `"${value}"`;
+    if (!value.includes("'")) return `'${value}'`;
+    return `{${JSON.stringify(decodeEntities(value))}}`;
+};
+
+const escapeJsxText = (text: string) => text.replace(/[{}<>]/g, c => `{'${c}'}`);
+
+/**
+ * Values of the options marked `selected`, in document order. React warns on
+ * `selected` and expects the choice as the `<select>`'s `defaultValue`.
+ */
+const selectedOptionValues = (select: HtmlElement) => {
+    const values: string[] = [];
+    const visit = (nodes: HtmlNode[]) => nodes.forEach(node => {
+        if (node.type !== 'element') return;
+        if (node.tagName === 'optgroup') visit(node.children);
+        if (node.tagName !== 'option' || !node.attributes.some(a => a.name.toLowerCase() === 'selected')) return;
+        const value = getAttribute(node, 'value');
+        values.push(value !== null ? decodeEntities(value) : decodeEntities(rawText(node)).trim().replace(/\s+/g, ' '));
+    });
+    visit(select.children);
+    return values;
+};
+
+const convertAttributes = (element: HtmlElement) => {
+    const props: string[] = [];
+    for (const { name, value } of element.attributes) {
+        const lower = name.toLowerCase();
+
+        if (element.tagName === 'option' && lower === 'selected') continue;
+
+        if (lower === 'style') {
+            props.push(`style={${styleToObjectLiteral(value ?? '')}}`);
+            continue;
+        }
+
+        let prop = toPropName(name);
+        if (FORM_CONTROLS.has(element.tagName)) {
+            if (prop === 'value') prop = 'defaultValue';
+            if (prop === 'checked') prop = 'defaultChecked';
+        }
+
+        if (value !== null && NUMERIC_PROPS.has(prop) && /^-?\d+$/.test(value.trim())) {
+            props.push(`${prop}={${Number(value)}}`);
+            continue;
+        }
+
+        props.push(value === null ? prop : `${prop}=${quoteAttributeValue(value)}`);
+    }
+
+    const selected = element.tagName === 'select' ? selectedOptionValues(element) : [];
+    if (selected.length) {
+        // A single select shows the last option marked selected, as browsers do.
+        const multiple = element.attributes.some(a => a.name.toLowerCase() === 'multiple');
+        props.push(`defaultValue={${JSON.stringify(multiple ? selected : selected[selected.length - 1])}}`);
+    }
+    return props;
+};
+
+const isInlineNode = (node: HtmlNode | undefined) =>
+    !!node && (node.type === 'text' ? node.value.trim() !== '' : node.type === 'element' && INLINE_ELEMENTS.has(node.tagName));
+
+function convertNodes(nodes: HtmlNode[], depth: number, preformatted = false): string[] {
+    const pad = INDENT.repeat(depth);
+    const lines: string[] = [];
+
+    nodes.forEach((node, i) => {
+        if (node.type === 'comment') {
+            const text = node.value.trim().replace(/\*\//g, '* /');
+            if (text) lines.push(`${pad}{/* ${text} */}`);
+            return;
+        }
+
+        if (node.type === 'text') {
+            if (preformatted) {
+                lines.push(`${pad}{${JSON.stringify(decodeEntities(node.value))}}`);
+                return;
+            }
+            const trimmed = node.value.trim();
+            if (!trimmed) {
+                // Whitespace between two inline siblings renders as a space in HTML.
+                if (isInlineNode(nodes[i - 1]) && isInlineNode(nodes[i + 1])) lines.push(`${pad}{' '}`);
+                return;
+            }
+            const lead = /^\s/.test(node.value) && isInlineNode(nodes[i - 1]) ? "{' '}" : '';
+            const trail = /\s$/.test(node.value) && isInlineNode(nodes[i + 1]) ? "{' '}" : '';
+            lines.push(`${pad}${lead}${escapeJsxText(trimmed.replace(/\s+/g, ' '))}${trail}`);
+            return;
+        }
+
+        const tag = node.tagName;
+        const props = convertAttributes(node);
+
+        if (tag === 'textarea' && rawText(node)) {
+            props.push(`defaultValue={${JSON.stringify(decodeEntities(rawText(node)))}}`);
+        }
+
+        const open = [tag, ...props].join(' ');
+
+        const children = tag === 'textarea' ? [] : node.children;
+        if (VOID_ELEMENTS.has(tag) || children.length === 0) {
+            lines.push(`${pad}<${open} />`);
+            return;
+        }
+
+        const childLines = convertNodes(children, depth + 1, preformatted || tag === 'pre');
+        if (childLines.length === 0) {
+            lines.push(`${pad}<${open} />`);
+        } else if (childLines.length === 1 && childLines[0].length - pad.length < 80) {
+            lines.push(`${pad}<${open}>${childLines[0].trim()}</${tag}>`);
+        } else {
+            lines.push(`${pad}<${open}>`, ...childLines, `${pad}</${tag}>`);
+        }
+    });
+
+    return lines;
+}
+
+const styleLines = (styles: string[], depth: number) =>
+    styles.map(css => `${INDENT.repeat(depth)}<style>{\`${escapeTemplateLiteral(css)}\`}</style>`);
+
+/** Converts an HTML fragment or document into JSX markup (no component wrapper). */
+export function htmlToJsx(html: string, depth = 0): string {
+    const parts = extractComponentParts(html);
+    return [...convertNodes(parts.markup, depth), ...styleLines(parts.styles, depth)].join('\n');
+}
+
+/**
+ * Converts generated HTML into a self-contained React function component.
+ * Inline `<script>` blocks and `on*` attributes move into a single
+ * `useEffect` so they run after mount and share one scope; their element
+ * lookups are typed so the component passes a strict type check.
+ */
+export function htmlToReactComponent(html: string, componentName = 'GeneratedComponent'): string {
+    const parts = extractComponentParts(html);
+    const markup = [...convertNodes(parts.markup, 3), ...styleLines(parts.styles, 3)];
+
+    if (!hasBehaviour(parts)) {
+        return [
+            `import React from 'react';`,
+            '',
+            `export default function ${componentName}() {`,
+            `${INDENT}return (`,
+            `${INDENT.repeat(2)}<>`,
+            ...markup,
+            `${INDENT.repeat(2)}</>`,
+            `${INDENT});`,
+            `}`,
+            ''
+        ].join('\n');
+    }
+
+    return [
+        `import React, { useEffect, useRef } from 'react';`,
+        '',
+        `export default function ${componentName}() {`,
+        `${INDENT}const rootRef = useRef<HTMLDivElement>(null);`,
+        '',
+        `${INDENT}useEffect(() => {`,
+        `${INDENT.repeat(2)}const componentRoot = rootRef.current;`,
+        `${INDENT.repeat(2)}if (!componentRoot) return;`,
+        `${INDENT.repeat(2)}const cleanup = new AbortController();`,
+        '',
+        buildMountCode(parts, 2, true),
+        '',
+        `${INDENT.repeat(2)}return () => cleanup.abort();`,
+        `${INDENT}}, []);`,
+        '',
+        `${INDENT}return (`,
+        `${INDENT.repeat(2)}<div ref={rootRef} style={{ display: 'contents' }}>`,
+        ...markup,
+        `${INDENT.repeat(2)}</div>`,
+        `${INDENT});`,
+        `}`,
+        ''
+    ].join('\n');
+}
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { LayoutOption } from '../types';
+import { BUILT_IN_LAYOUTS, composeLayout, listLayoutSlots, parseLayoutOptions } from './layouts';
+
+const layout: LayoutOption = {
+    name: 'Two Up',
+    css: '.two { display: grid; }',
+    previewHtml: '<div class="two"><div data-slot="left" class="sc-slot">left</div><div data-slot="right" class="sc-slot">right</div></div>'
+};
+
+const body = (page: string) => page.slice(page.indexOf('</style>\n') + '</style>\n'.length);
+
+describe('composeLayout', () => {
+    it('fills slots with artifact markup as written', () => {
+        const page = composeLayout(layout, { left: '<button  onclick="go()">Go</button>', right: '<p>R</p>' });
+        expect(page.startsWith('<style>\n')).toBe(true);
+        expect(page).toContain('.two { display: grid; }');
+        expect(body(page)).toBe('<div class="two"><div data-slot="left" class="sc-slot"><button  onclick="go()">Go</button></div><div data-slot="right" class="sc-slot"><p>R</p></div></div>');
+    });
+
+    it('uses the body and head assets of full-document artifacts', () => {
+        const doc = '<!DOCTYPE html><html><head><title>x</title><style>.a{}</style></head><body><main>Hi</main></body></html>';
+        const filled = body(composeLayout(layout, { left: doc }));
+        expect(filled).toContain('<div data-slot="left" class="sc-slot"><style>.a{}</style><main>Hi</main></div>');
+        expect(filled).not.toMatch(/<html|<body|<title/);
+    });
+
+    it('drops unfilled slots, or keeps their labels for previews', () => {
+        expect(body(composeLayout(layout, { left: '<p>L</p>' }))).toBe('<div class="two"><div data-slot="left" class="sc-slot"><p>L</p></div></div>');
+        expect(body(composeLayout(layout, { left: '<p>L</p>' }, { placeholders: true })))
+            .toContain('<div data-slot="right" class="sc-slot">right</div>');
+    });
+
+    it('does not treat replacement patterns in artifacts specially', () => {
+        expect(body(composeLayout(layout, { left: "<p>$&amp; $' $1</p>" }))).toContain("<p>$&amp; $' $1</p>");
+    });
+
+    it('composes every built-in layout', () => {
+        for (const option of BUILT_IN_LAYOUTS) {
+            const slots = listLayoutSlots(option);
+            const page = composeLayout(option, Object.fromEntries(slots.map(name => [name, `<p>${name}</p>`])));
+            slots.forEach(name => expect(page, option.name).toContain(`<p>${name}</p>`));
+        }
+    });
+});
+
+describe('parseLayoutOptions', () => {
+    it('reads proposals from a fenced JSON array, keeping only the known fields', () => {
+        const text = 'Here you go:\n```json\n' + JSON.stringify([{ ...layout, extra: true }]) + '\n```';
+        expect(parseLayoutOptions(text)).toEqual([layout]);
+    });
+
+    it('drops malformed proposals and ones without slots', () => {
+        const noSlots = { name: 'Empty', css: '', previewHtml: '<div>nothing</div>' };
+        expect(parseLayoutOptions(JSON.stringify([null, 'x', { name: 'Half' }, { ...layout, css: 1 }, noSlots, layout]))).toEqual([layout]);
+        expect(parseLayoutOptions('no json here')).toEqual([]);
+    });
+
+    it('rejects CSS that could close the style element', () => {
+        const escaping = { ...layout, css: '.two { display: grid; }</style><script>alert(1)</script>' };
+        expect(parseLayoutOptions(JSON.stringify([escaping]))).toEqual([]);
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { LayoutOption } from '../types';
+import { HtmlNode, extractBodyContent, findElements, getAttribute, parseHtml, serializeHtml } from './htmlParser';
+import { extractJsonArray } from './streamParser';
+
+// Page scaffolds that focused artifacts are composed into. A layout's
+// `previewHtml` marks each slot with a `data-slot` attribute; the slot's
+// contents are only a label for previews and are replaced on composition.
+
+const slot = (name: string, label = name.replace(/-/g, ' ')) =>
+    `<div data-slot="${name}" class="sc-slot">${label}</div>`;
+
+// Shared by every layout: slots size to their content and label themselves while empty.
+const BASE_CSS = `.sc-slot { min-width: 0; min-height: 0; }
+.sc-slot:not(:has(*)) { display: flex; align-items: center; justify-content: center; min-height: 120px; border: 1px dashed currentColor; opacity: 0.4; font: 12px monospace; text-transform: uppercase; letter-spacing: 0.1em; }`;
+
+export const BUILT_IN_LAYOUTS: LayoutOption[] = [
+    {
+        name: 'Dashboard Grid',
+        css: `.sc-dashboard { display: grid; gap: 1.5rem; grid-template-columns: repeat(3, minmax(0, 1fr)); grid-template-areas: "header header header" "main main side" "panel-a panel-b side"; }
+.sc-dashboard > [data-slot="header"] { grid-area: header; }
+.sc-dashboard > [data-slot="main"] { grid-area: main; }
+.sc-dashboard > [data-slot="side"] { grid-area: side; }
+.sc-dashboard > [data-slot="panel-a"] { grid-area: panel-a; }
+.sc-dashboard > [data-slot="panel-b"] { grid-area: panel-b; }
+@media (max-width: 900px) { .sc-dashboard { grid-template-columns: 1fr; grid-template-areas: "header" "main" "side" "panel-a" "panel-b"; } }`,
+        previewHtml: `<div class="sc-dashboard">${slot('header')}${slot('main')}${slot('side')}${slot('panel-a')}${slot('panel-b')}</div>`
+    },
+    {
+        name: 'Sidebar + Content',
+        css: `.sc-sidebar { display: grid; gap: 1.5rem; grid-template-columns: 280px minmax(0, 1fr); min-height: calc(100vh - 3rem); }
+.sc-sidebar-main { display: flex; flex-direction: column; gap: 1.5rem; }
+@media (max-width: 900px) { .sc-sidebar { grid-template-columns: 1fr; } }`,
+        previewHtml: `<div class="sc-sidebar">${slot('sidebar')}<div class="sc-sidebar-main">${slot('toolbar')}${slot('content')}</div></div>`
+    },
+    {
+        name: 'Landing Page',
+        css: `.sc-landing { display: flex; flex-direction: column; gap: 4rem; max-width: 1200px; margin: 0 auto; }
+.sc-landing-row { display: grid; gap: 2rem; grid-template-columns: repeat(2, minmax(0, 1fr)); }
+@media (max-width: 900px) { .sc-landing-row { grid-template-columns: 1fr; } }`,
+        previewHtml: `<div class="sc-landing">${slot('hero')}<div class="sc-landing-row">${slot('feature-a')}${slot('feature-b')}</div>${slot('showcase')}${slot('call-to-action')}</div>`
+    },
+    {
+        name: 'Modal Stack',
+        css: `.sc-modal-stack { position: relative; min-height: calc(100vh - 3rem); }
+.sc-modal-backdrop { position: absolute; inset: 0; display: flex; align-items: center; justify-content: center; background: rgba(0, 0, 0, 0.6); backdrop-filter: blur(4px); }
+.sc-modal-backdrop > [data-slot] { width: min(640px, 90%); max-height: 90%; overflow: auto; }
+.sc-modal-stack > [data-slot="toast"] { position: absolute; right: 1rem; bottom: 1rem; width: min(360px, 90%); }`,
+        previewHtml: `<div class="sc-modal-stack">${slot('page')}<div class="sc-modal-backdrop">${slot('modal')}</div>${slot('toast')}</div>`
+    }
+];
+
+/** Slot names in document order. */
+export const listLayoutSlots = (layout: LayoutOption) =>
+    findElements(parseHtml(layout.previewHtml), el => getAttribute(el, 'data-slot') !== null)
+        .map(el => getAttribute(el, 'data-slot')!);
+
+/** Full documents contribute their body (plus head scripts/styles), not a nested <html>. */
+export const toFragment = (html: string) =>
+    /<html|<body/i.test(html) ? serializeHtml(extractBodyContent(parseHtml(html))) : html;
+
+/**
+ * Fills a layout's slots with artifact HTML and returns one body fragment,
+ * layout CSS included. Unassigned slots are dropped, or kept with their
+ * label when `placeholders` is set (for previews while composing).
+ */
+export function composeLayout(layout: LayoutOption, assignments: Record<string, string | undefined>, { placeholders = false } = {}): string {
+    const markers = new Map<string, string>();
+
+    const fill = (nodes: HtmlNode[]): HtmlNode[] => nodes.flatMap<HtmlNode>(node => {
+        if (node.type !== 'element') return [node];
+        const name = getAttribute(node, 'data-slot');
+        if (name === null) return [{ ...node, children: fill(node.children) }];
+        const html = assignments[name];
+        if (!html) return placeholders ? [node] : [];
+        const marker = `\u0000slot:${markers.size}\u0000`;
+        markers.set(marker, toFragment(html));
+        return [{ ...node, children: [{ type: 'text', value: marker }] }];
+    });
+
+    // Artifact markup is spliced in as text so it is not reformatted by a parse/serialize round trip.
+    let page = serializeHtml(fill(parseHtml(layout.previewHtml)));
+    markers.forEach((html, marker) => { page = page.replace(marker, () => html); });
+    return `<style>\n${BASE_CSS}\n${layout.css}\n</style>\n${page}`;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isLayoutOption = (value: unknown): value is LayoutOption =>
+    isRecord(value) && typeof value.name === 'string' && typeof value.css === 'string' && typeof value.previewHtml === 'string';
+
+/**
+ * Reads the model's layout proposals, dropping any without slots or with
+ * markup in their CSS.
+ */
+export function parseLayoutOptions(text: string): LayoutOption[] {
+    const items = extractJsonArray<unknown>(text) ?? [];
+    return items
+        .filter(isLayoutOption)
+        .map(({ name, css, previewHtml }): LayoutOption => ({ name, css, previewHtml }))
+        .filter(layout => !/<\//.test(layout.css) && listLayoutSlots(layout).length > 0);
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { countChanges, diffLines } from './lineDiff';
+
+const ops = (oldText: string, newText: string) =>
+    diffLines(oldText, newText).map(l => `${l.op === 'equal' ? ' ' : l.op === 'insert' ? '+' : '-'}${l.text}`);
+
+describe('diffLines', () => {
+    it('marks identical texts as equal with matching line numbers', () => {
+        expect(diffLines('a\nb', 'a\nb')).toEqual([
+            { op: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+            { op: 'equal', text: 'b', oldLine: 2, newLine: 2 }
+        ]);
+    });
+
+    it('shows a changed line as a delete followed by an insert', () => {
+        expect(ops('a\nb\nc', 'a\nB\nc')).toEqual([' a', '-b', '+B', ' c']);
+    });
+
+    it('numbers lines on each side after insertions and deletions', () => {
+        const diff = diffLines('a\nx\nb\nc', 'a\nb\ny\nz\nc');
+        expect(diff.map(l => [l.op, l.oldLine, l.newLine])).toEqual([
+            ['equal', 1, 1],
+            ['delete', 2, undefined],
+            ['equal', 3, 2],
+            ['insert', undefined, 3],
+            ['insert', undefined, 4],
+            ['equal', 4, 5]
+        ]);
+        expect(countChanges(diff)).toEqual({ added: 2, removed: 1 });
+    });
+
+    it('keeps the longest common run when lines move', () => {
+        expect(ops('a\nb\nc\nd', 'c\nd\na\nb').filter(l => l.startsWith(' '))).toHaveLength(2);
+    });
+
+    it('handles empty texts', () => {
+        expect(ops('', 'a\nb')).toEqual(['-', '+a', '+b']);
+        expect(countChanges(diffLines('', ''))).toEqual({ added: 0, removed: 0 });
+    });
+
+    it('falls back to a block replace for very large changes', () => {
+        const lines = (prefix: string) => Array.from({ length: 2001 }, (_, i) => `${prefix}${i % 2}`).join('\n');
+        const diff = diffLines(`top\n${lines('a')}\nend`, `top\n${lines('b')}\nend`);
+        expect(diff.map(l => l.op).join('')).toBe('equal' + 'delete'.repeat(2001) + 'insert'.repeat(2001) + 'equal');
+    });
+});
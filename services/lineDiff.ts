@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffLine {
+    op: DiffOp;
+    text: string;
+    /** 1-based line number in the old text; absent for insertions. */
+    oldLine?: number;
+    /** 1-based line number in the new text; absent for deletions. */
+    newLine?: number;
+}
+
+// Above this many cells the LCS table is too large; the changed middle is shown as a block replace.
+const MAX_TABLE_CELLS = 4_000_000;
+
+/** Line-level diff of two texts, based on the longest common subsequence of lines. */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+    const a = oldText.split('\n');
+    const b = newText.split('\n');
+
+    // Common prefix and suffix are matched directly, which keeps the table small for typical edits.
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+    const result: DiffLine[] = [];
+    for (let i = 0; i < start; i++) result.push({ op: 'equal', text: a[i], oldLine: i + 1, newLine: i + 1 });
+
+    const n = endA - start;
+    const m = endB - start;
+    const pushDelete = (i: number) => result.push({ op: 'delete', text: a[i], oldLine: i + 1 });
+    const pushInsert = (j: number) => result.push({ op: 'insert', text: b[j], newLine: j + 1 });
+
+    if (n * m > MAX_TABLE_CELLS) {
+        for (let i = start; i < endA; i++) pushDelete(i);
+        for (let j = start; j < endB; j++) pushInsert(j);
+    } else {
+        // lcs[i][j] = length of the LCS of a[start + i..endA) and b[start + j..endB).
+        const width = m + 1;
+        const lcs = new Uint32Array((n + 1) * width);
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i * width + j] = a[start + i] === b[start + j]
+                    ? lcs[(i + 1) * width + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < n && j < m) {
+            if (a[start + i] === b[start + j]) {
+                result.push({ op: 'equal', text: a[start + i], oldLine: start + i + 1, newLine: start + j + 1 });
+                i++; j++;
+            } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+                pushDelete(start + i++);
+            } else {
+                pushInsert(start + j++);
+            }
+        }
+        while (i < n) pushDelete(start + i++);
+        while (j < m) pushInsert(start + j++);
+    }
+
+    for (let k = 0; k < a.length - endA; k++) {
+        result.push({ op: 'equal', text: a[endA + k], oldLine: endA + k + 1, newLine: endB + k + 1 });
+    }
+    return result;
+}
+
+export const countChanges = (diff: DiffLine[]) => ({
+    added: diff.filter(l => l.op === 'insert').length,
+    removed: diff.filter(l => l.op === 'delete').length
+});
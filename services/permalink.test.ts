@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Session } from '../types';
+import { BUILT_IN_DESIGN_SYSTEMS, DEFAULT_DESIGN_SYSTEM } from './designSystems';
+import { PermalinkError, buildPermalink, isPermalink, readPermalink } from './permalink';
+
+const session = (extra: Partial<Session> = {}): Session => ({
+    id: 's',
+    prompt: 'Pricing card',
+    timestamp: 1,
+    artifacts: [{ id: 's_0', styleName: 'Glass', html: '<div class="p-4">$9</div>', status: 'complete' }],
+    ...extra
+});
+
+const share = async (value: Session) => {
+    const url = await buildPermalink(value.artifacts[0], value);
+    return url.slice(url.indexOf('#'));
+};
+
+// Links are made the way buildPermalink makes them, from a hand-written payload.
+const encode = async (payload: unknown) => {
+    const stream = new Blob([JSON.stringify(payload)]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+    return '#share=' + btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+beforeEach(() => {
+    vi.stubGlobal('location', { origin: 'https://canvas.test', pathname: '/' });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('permalinks', () => {
+    it('round-trip an artifact with its built-in design system', async () => {
+        const hash = await share(session({ designSystem: BUILT_IN_DESIGN_SYSTEMS[2] }));
+        expect(isPermalink(hash)).toBe(true);
+        expect(await readPermalink(hash)).toEqual({
+            prompt: 'Pricing card',
+            styleName: 'Glass',
+            html: '<div class="p-4">$9</div>',
+            designSystem: BUILT_IN_DESIGN_SYSTEMS[2]
+        });
+    });
+
+    it('carry custom design systems in full', async () => {
+        const custom = { ...BUILT_IN_DESIGN_SYSTEMS[1], id: 'custom-brand', name: 'Brand' };
+        const shared = await readPermalink(await share(session({ designSystem: custom })));
+        expect(shared.designSystem).toMatchObject({ id: 'custom-brand', name: 'Brand', palette: custom.palette, fonts: custom.fonts });
+    });
+
+    it('fall back to the default for design systems that do not validate', async () => {
+        const hostile = {
+            ...BUILT_IN_DESIGN_SYSTEMS[1],
+            palette: { ...BUILT_IN_DESIGN_SYSTEMS[1].palette, background: 'red}</style><script>alert(1)</script>' }
+        };
+        const shared = await readPermalink(await encode({ v: 1, prompt: 'x', styleName: 'y', html: '<p>x</p>', designSystem: hostile }));
+        expect(shared.designSystem).toBe(DEFAULT_DESIGN_SYSTEM);
+        const unknownId = await readPermalink(await encode({ v: 1, html: '<p>x</p>', designSystem: 'nope' }));
+        expect(unknownId).toMatchObject({ prompt: '', styleName: 'Shared Artifact', designSystem: DEFAULT_DESIGN_SYSTEM });
+    });
+
+    it('reject damaged and incompatible links', async () => {
+        await expect(readPermalink('#share=not-deflate')).rejects.toThrow(PermalinkError);
+        await expect(readPermalink(await encode({ v: 2, html: '<p>x</p>' }))).rejects.toThrow('incompatible version');
+        await expect(readPermalink(await encode(['<p>x</p>']))).rejects.toThrow('incompatible version');
+    });
+});
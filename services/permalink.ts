@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Artifact, DesignSystem, Session } from '../types';
+import { BUILT_IN_DESIGN_SYSTEMS, DEFAULT_DESIGN_SYSTEM, getSessionDesignSystem, validateDesignSystem } from './designSystems';
+
+// Permalinks carry a single artifact in the URL fragment, deflated and
+// base64url-encoded. Fragments never reach a server, so sharing needs no
+// backend, but links must stay short enough for chat apps and browsers.
+
+const FRAGMENT_PREFIX = '#share=';
+const PERMALINK_VERSION = 1;
+export const MAX_PERMALINK_LENGTH = 16_000;
+
+export interface SharedArtifact {
+    prompt: string;
+    styleName: string;
+    html: string;
+    designSystem: DesignSystem;
+}
+
+interface PermalinkPayload {
+    v: number;
+    prompt: string;
+    styleName: string;
+    html: string;
+    /** Built-in presets travel by id; custom ones in full. */
+    designSystem: string | DesignSystem;
+}
+
+export class PermalinkError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PermalinkError';
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Anyone can craft a link, and the design system ends up in the preview's
+// <style>, <link> and <script>, so a custom one is validated like an import.
+const readDesignSystem = (value: unknown): DesignSystem => {
+    if (typeof value === 'string') return BUILT_IN_DESIGN_SYSTEMS.find(preset => preset.id === value) ?? DEFAULT_DESIGN_SYSTEM;
+    try {
+        return validateDesignSystem(value);
+    } catch {
+        return DEFAULT_DESIGN_SYSTEM;
+    }
+};
+
+const pipe = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+export const isPermalink = (hash: string) => hash.startsWith(FRAGMENT_PREFIX);
+
+/** A link that opens `artifact` read-only. Fails for artifacts too large to fit in a URL. */
+export async function buildPermalink(artifact: Artifact, session: Session): Promise<string> {
+    const ds = getSessionDesignSystem(session);
+    const payload: PermalinkPayload = {
+        v: PERMALINK_VERSION,
+        prompt: session.prompt,
+        styleName: artifact.styleName,
+        html: artifact.html,
+        designSystem: BUILT_IN_DESIGN_SYSTEMS.some(preset => preset.id === ds.id) ? ds.id : ds
+    };
+    const encoded = toBase64Url(await pipe(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw')));
+    const url = `${location.origin}${location.pathname}${FRAGMENT_PREFIX}${encoded}`;
+    if (url.length > MAX_PERMALINK_LENGTH) {
+        throw new PermalinkError(`This artifact is too large for a link (${Math.round(url.length / 1000)}k characters, limit ${MAX_PERMALINK_LENGTH / 1000}k). Export the session instead.`);
+    }
+    return url;
+}
+
+/** Decodes a `#share=` fragment. */
+export async function readPermalink(hash: string): Promise<SharedArtifact> {
+    let payload: unknown;
+    try {
+        const bytes = await pipe(fromBase64Url(hash.slice(FRAGMENT_PREFIX.length)), new DecompressionStream('deflate-raw'));
+        payload = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+        throw new PermalinkError('This link is damaged or incomplete.');
+    }
+    if (!isRecord(payload) || payload.v !== PERMALINK_VERSION || typeof payload.html !== 'string') {
+        throw new PermalinkError('This link was made by an incompatible version of Signal Canvas.');
+    }
+    return {
+        prompt: typeof payload.prompt === 'string' ? payload.prompt : '',
+        styleName: typeof payload.styleName === 'string' ? payload.styleName : 'Shared Artifact',
+        html: payload.html,
+        designSystem: readDesignSystem(payload.designSystem)
+    };
+}
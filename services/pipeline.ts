@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignSystem, PromptTemplate, UsageRecord } from '../types';
+import { GenerationProvider, InlineImage, isAbortError } from './providers';
+import { buildArtifactPrompt, buildStyleDirectionsPrompt } from './prompts';
+import { withRetry } from './retry';
+import { extractJsonArray, stripCodeFences } from './streamParser';
+import { createUsageMeter } from './usage';
+
+// The two model steps behind a new session, shared by the app and the CLI:
+// choose a style direction per artifact, then stream each artifact's HTML.
+
+export interface PipelineStep {
+    provider: GenerationProvider;
+    template: PromptTemplate;
+    /** The user's request. */
+    prompt: string;
+    designSystem: DesignSystem;
+    images?: InlineImage[];
+    /** Overrides the template's temperature. */
+    temperature?: number;
+    seed?: number;
+    signal?: AbortSignal;
+    /** Called once the step settles, failed calls included. */
+    onRecord?: (record: UsageRecord | null) => void;
+    onRetry?: (attempt: number, delayMs: number) => void;
+}
+
+/**
+ * One style name per artifact. Directions the model did not supply come from
+ * the design system's fallbacks, so this never throws.
+ */
+export async function generateStyleDirections(step: PipelineStep & { count: number }): Promise<string[]> {
+    const { provider, template, prompt, designSystem, count, images = [], signal } = step;
+    const stylePrompt = buildStyleDirectionsPrompt(prompt, designSystem, count, images.length > 0, template);
+    const meter = createUsageMeter(provider.model, 'Style Directions', stylePrompt);
+
+    let text = '';
+    let parsed: string[] = [];
+    try {
+        text = await withRetry<string>(
+            () => provider.generateText({
+                prompt: stylePrompt,
+                images,
+                temperature: step.temperature ?? template.temperature,
+                seed: step.seed,
+                signal,
+                onUsage: meter.onUsage
+            }),
+            { signal, onRetry: (attempt, delayMs) => { meter.onRetry(); step.onRetry?.(attempt, delayMs); } }
+        );
+        parsed = extractJsonArray(text)?.filter((s): s is string => typeof s === 'string') ?? [];
+    } catch (e) {
+        if (!isAbortError(e)) console.warn("Style directions failed, using defaults", e);
+    }
+    step.onRecord?.(meter.finish(text));
+    return Array.from({ length: count }, (_, i) => parsed[i] ?? designSystem.fallbackStyles[i] ?? `Direction ${i + 1}`);
+}
+
+/**
+ * Streams one artifact, passing the code-fence-stripped HTML so far to
+ * `onPartial`. Rate limits are retried with backoff; other failures and
+ * cancellation reject.
+ */
+export async function generateArtifactHtml(step: PipelineStep & { styleName: string; onPartial?: (html: string) => void }): Promise<string> {
+    const { provider, template, designSystem, images = [], signal } = step;
+    const prompt = buildArtifactPrompt(step.prompt, step.styleName, designSystem, images.length > 0, template);
+    const meter = createUsageMeter(provider.model, 'Generation', prompt);
+    try {
+        const final = await withRetry(async () => {
+            let acc = '';
+            const stream = provider.streamText({
+                prompt,
+                images,
+                temperature: step.temperature ?? template.temperature,
+                seed: step.seed,
+                signal,
+                onUsage: meter.onUsage
+            });
+            for await (const chunk of stream) {
+                meter.onChunk(chunk);
+                acc += chunk;
+                step.onPartial?.(stripCodeFences(acc, true));
+            }
+            return stripCodeFences(acc);
+        }, {
+            signal,
+            onRetry: (attempt, delayMs) => {
+                meter.onRetry();
+                step.onRetry?.(attempt, delayMs);
+            }
+        });
+        if (!final) throw new Error('The model returned no HTML');
+        return final;
+    } finally {
+        step.onRecord?.(meter.finish());
+    }
+}
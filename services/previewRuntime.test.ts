@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { PREVIEW_MESSAGE_PREFIX, PREVIEW_RUNTIME_SCRIPT, injectPreviewRuntime, readPreviewMessage } from './previewRuntime';
+
+const RUNTIME = `<script>${PREVIEW_RUNTIME_SCRIPT}</script><meta name="csp">`;
+const inject = (html: string) => injectPreviewRuntime(html, '<meta name="csp">');
+
+describe('injectPreviewRuntime', () => {
+    it('opens the head with the runtime', () => {
+        expect(inject('<!DOCTYPE html><html><head lang="en"><title>x</title></head><body></body></html>'))
+            .toBe(`<!DOCTYPE html><html><head lang="en">${RUNTIME}<title>x</title></head><body></body></html>`);
+    });
+
+    it('follows <html> when there is no head', () => {
+        expect(inject('<!DOCTYPE html>\n<html class="dark"><body><header>x</header></body></html>'))
+            .toBe(`<!DOCTYPE html>\n<html class="dark">${RUNTIME}<body><header>x</header></body></html>`);
+    });
+
+    it('keeps the doctype first so the page stays in standards mode', () => {
+        expect(inject('\n<!doctype html>\n<div>x</div>')).toBe(`\n<!doctype html>${RUNTIME}\n<div>x</div>`);
+    });
+
+    it('prepends to a bare fragment', () => {
+        expect(inject('<div>x</div>')).toBe(`${RUNTIME}<div>x</div>`);
+    });
+});
+
+describe('readPreviewMessage', () => {
+    const diagnostic = (entry: unknown) => readPreviewMessage({ type: `${PREVIEW_MESSAGE_PREFIX}diagnostic`, entry });
+
+    it('ignores messages that are not from the runtime', () => {
+        for (const data of [null, undefined, 'signal-canvas:diagnostics-reset', 42, [], { type: 'other' }, { type: `${PREVIEW_MESSAGE_PREFIX}unknown` }]) {
+            expect(readPreviewMessage(data), JSON.stringify(data)).toBeNull();
+        }
+    });
+
+    it('reads resets and element selections', () => {
+        expect(readPreviewMessage({ type: `${PREVIEW_MESSAGE_PREFIX}diagnostics-reset` })).toEqual({ type: 'reset' });
+        expect(readPreviewMessage({ type: `${PREVIEW_MESSAGE_PREFIX}inspect-select`, node: 3, tagName: 'button' }))
+            .toEqual({ type: 'select', node: 3, tagName: 'button' });
+    });
+
+    it('drops selections with a bad node or tag name', () => {
+        for (const [node, tagName] of [[-1, 'p'], [1.5, 'p'], ['2', 'p'], [2, { toString: () => 'p' }]]) {
+            expect(readPreviewMessage({ type: `${PREVIEW_MESSAGE_PREFIX}inspect-select`, node, tagName })).toBeNull();
+        }
+    });
+
+    it('reads diagnostic entries', () => {
+        expect(diagnostic({ kind: 'error', level: 'error', message: 'boom', detail: 'at x', timestamp: 5 })).toEqual({
+            type: 'entry',
+            entry: { kind: 'error', level: 'error', message: 'boom', detail: 'at x', timestamp: 5 }
+        });
+    });
+
+    it('falls back for unknown kinds, levels and details', () => {
+        const result = diagnostic({ kind: 'shell', level: 'fatal', message: 'x', detail: { stack: 1 }, timestamp: NaN });
+        expect(result).toEqual({ type: 'entry', entry: { kind: 'console', level: 'log', message: 'x', detail: undefined, timestamp: expect.any(Number) } });
+        expect(Number.isFinite(result?.type === 'entry' && result.entry.timestamp)).toBe(true);
+    });
+
+    it('drops entries without a text message', () => {
+        for (const entry of [undefined, 'boom', { message: 1 }, { kind: 'error' }]) {
+            expect(diagnostic(entry), JSON.stringify(entry)).toBeNull();
+        }
+    });
+});
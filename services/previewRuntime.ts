@@ -0,0 +1,326 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AccessibilityFinding, DiagnosticEntry } from '../types';
+import { ACCESSIBILITY_AUDIT_SOURCE } from './accessibility';
+import { INSPECT_ATTRIBUTE } from './elementEdit';
+
+// Script injected into every preview document. The parent cannot reach into a
+// sandboxed iframe, so the preview answers requests over postMessage instead.
+
+export const PREVIEW_MESSAGE_PREFIX = 'signal-canvas:';
+
+// Per page load, so a script logging in a loop cannot flood the app.
+const MAX_DIAGNOSTICS = 500;
+
+/**
+ * Three services for the parent:
+ * - Diagnostics: console calls, uncaught errors, CSP violations and
+ *   fetch/XHR attempts are forwarded as they happen. It is injected first in
+ *   <head>, so it is in place before any generated script runs.
+ * - Capture: snapshots the visible viewport by re-rendering the live DOM
+ *   (including the styles Tailwind generated at runtime) through an SVG
+ *   foreignObject. Scripts are dropped and external fonts/images fall back.
+ * - Audit: runs the accessibility checks against the rendered document.
+ * - Inspect: outlines the element under the pointer and reports clicks on
+ *   elements carrying their source index (see elementEdit.ts). Other pointer
+ *   input is swallowed, so picking a button does not press it.
+ */
+export const PREVIEW_RUNTIME_SCRIPT = `
+(() => {
+    let sent = 0;
+    const post = (entry) => {
+        if (sent++ >= ${MAX_DIAGNOSTICS}) return;
+        entry.timestamp = Date.now();
+        window.parent.postMessage({ type: '${PREVIEW_MESSAGE_PREFIX}diagnostic', entry }, '*');
+    };
+    const format = (value) => {
+        if (typeof value === 'string') return value;
+        if (value instanceof Error) return value.stack || String(value);
+        try { return JSON.stringify(value) ?? String(value); } catch (e) { return String(value); }
+    };
+    const clip = (text) => text.length > 2000 ? text.slice(0, 2000) + '…' : text;
+
+    window.parent.postMessage({ type: '${PREVIEW_MESSAGE_PREFIX}diagnostics-reset' }, '*');
+
+    ['log', 'info', 'warn', 'error', 'debug'].forEach((level) => {
+        const original = console[level];
+        console[level] = function (...args) {
+            post({ kind: 'console', level, message: clip(args.map(format).join(' ')) });
+            return original.apply(this, args);
+        };
+    });
+
+    window.addEventListener('error', (event) => {
+        const where = event.filename ? ' (line ' + event.lineno + ':' + event.colno + ')' : '';
+        post({
+            kind: 'error',
+            level: 'error',
+            message: clip((event.message || 'Script error') + where),
+            detail: event.error && event.error.stack ? clip(event.error.stack) : undefined
+        });
+    });
+    window.addEventListener('unhandledrejection', (event) => {
+        post({ kind: 'error', level: 'error', message: clip('Unhandled rejection: ' + format(event.reason)) });
+    });
+    document.addEventListener('securitypolicyviolation', (event) => {
+        post({
+            kind: 'csp',
+            level: 'warn',
+            message: 'Blocked by ' + event.effectiveDirective + ': ' + (event.blockedURI || 'inline')
+        });
+    });
+
+    const originalFetch = window.fetch;
+    window.fetch = function (input, init) {
+        const url = typeof input === 'string' ? input : (input && input.url) || String(input);
+        const method = ((init && init.method) || (input && input.method) || 'GET').toUpperCase();
+        return originalFetch.apply(this, arguments).then((response) => {
+            post({ kind: 'network', level: response.ok ? 'info' : 'warn', message: method + ' ' + url + ' → ' + response.status });
+            return response;
+        }, (error) => {
+            post({ kind: 'network', level: 'error', message: method + ' ' + url + ' failed', detail: format(error) });
+            throw error;
+        });
+    };
+
+    const originalOpen = XMLHttpRequest.prototype.open;
+    const originalSend = XMLHttpRequest.prototype.send;
+    XMLHttpRequest.prototype.open = function (method, url) {
+        this.__request = String(method).toUpperCase() + ' ' + url;
+        return originalOpen.apply(this, arguments);
+    };
+    XMLHttpRequest.prototype.send = function () {
+        this.addEventListener('loadend', () => {
+            const ok = this.status >= 200 && this.status < 400;
+            post({
+                kind: 'network',
+                level: this.status === 0 ? 'error' : ok ? 'info' : 'warn',
+                message: this.__request + (this.status === 0 ? ' failed' : ' → ' + this.status)
+            });
+        });
+        return originalSend.apply(this, arguments);
+    };
+
+    const render = (scale) => new Promise((resolve, reject) => {
+        const width = window.innerWidth;
+        const height = window.innerHeight;
+        const clone = document.documentElement.cloneNode(true);
+        clone.querySelectorAll('script').forEach(s => s.remove());
+        const markup = new XMLSerializer().serializeToString(clone);
+        const fullHeight = Math.max(height, document.documentElement.scrollHeight);
+        const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="' + width + '" height="' + height + '">'
+            + '<foreignObject x="0" y="' + (-window.scrollY) + '" width="' + width + '" height="' + fullHeight + '">'
+            + markup + '</foreignObject></svg>';
+        const image = new Image();
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(width * scale);
+            canvas.height = Math.round(height * scale);
+            const ctx = canvas.getContext('2d');
+            ctx.scale(scale, scale);
+            ctx.fillStyle = getComputedStyle(document.body).backgroundColor;
+            ctx.fillRect(0, 0, width, height);
+            ctx.drawImage(image, 0, 0);
+            resolve(canvas.toDataURL('image/png'));
+        };
+        image.onerror = () => reject(new Error('The preview could not be rendered to an image'));
+        image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg);
+    });
+
+    const audit = ${ACCESSIBILITY_AUDIT_SOURCE.trim()};
+
+    // Tailwind generates its styles once the document has loaded; give it a moment.
+    const loaded = () => new Promise((resolve) => {
+        const settle = () => setTimeout(resolve, 100);
+        if (document.readyState === 'complete') settle();
+        else window.addEventListener('load', settle, { once: true });
+    });
+
+    const setInspecting = (() => {
+        let enabled = false;
+        let hovered = null;
+        let picked = null;
+        const box = (border, background) => {
+            const el = document.createElement('div');
+            el.setAttribute('aria-hidden', 'true');
+            el.style.cssText = 'position:fixed;pointer-events:none;z-index:2147483647;box-sizing:border-box;display:none;'
+                + 'border:' + border + ';background:' + background;
+            return el;
+        };
+        const hoverBox = box('1px dashed #38bdf8', 'rgba(56,189,248,0.08)');
+        const pickedBox = box('2px solid #fbbf24', 'rgba(251,191,36,0.12)');
+        const place = (el, node) => {
+            if (!node || !node.isConnected) {
+                el.style.display = 'none';
+                return;
+            }
+            const r = node.getBoundingClientRect();
+            Object.assign(el.style, { display: 'block', left: r.left + 'px', top: r.top + 'px', width: r.width + 'px', height: r.height + 'px' });
+        };
+        const refresh = () => {
+            place(hoverBox, hovered);
+            place(pickedBox, picked);
+        };
+        const inspectable = (event) => event.target && event.target.closest ? event.target.closest('[${INSPECT_ATTRIBUTE}]') : null;
+        const swallow = (event) => {
+            event.preventDefault();
+            event.stopPropagation();
+        };
+        const onMove = (event) => {
+            hovered = inspectable(event);
+            refresh();
+        };
+        const onClick = (event) => {
+            swallow(event);
+            const node = inspectable(event);
+            if (!node) return;
+            picked = node;
+            refresh();
+            window.parent.postMessage({
+                type: '${PREVIEW_MESSAGE_PREFIX}inspect-select',
+                node: Number(node.getAttribute('${INSPECT_ATTRIBUTE}')),
+                tagName: node.tagName.toLowerCase()
+            }, '*');
+        };
+        const swallowed = ['mousedown', 'mouseup', 'pointerdown', 'pointerup', 'dblclick', 'submit', 'contextmenu'];
+        return (on) => {
+            if (on === enabled) return;
+            enabled = on;
+            const method = on ? 'addEventListener' : 'removeEventListener';
+            document[method]('mousemove', onMove, true);
+            document[method]('click', onClick, true);
+            swallowed.forEach((type) => document[method](type, swallow, true));
+            window[method]('scroll', refresh, true);
+            window[method]('resize', refresh);
+            if (on) {
+                document.body.append(hoverBox, pickedBox);
+            } else {
+                hovered = picked = null;
+                hoverBox.remove();
+                pickedBox.remove();
+            }
+        };
+    })();
+
+    const handlers = {
+        capture: (data) => render(data.scale || 1).then((dataUrl) => ({ dataUrl })),
+        audit: () => loaded().then(() => ({ findings: audit() })),
+        inspect: (data) => {
+            setInspecting(!!data.enabled);
+            return {};
+        }
+    };
+
+    window.addEventListener('message', async (event) => {
+        const data = event.data;
+        if (event.source !== window.parent || !data || typeof data.type !== 'string') return;
+        const name = data.type.slice('${PREVIEW_MESSAGE_PREFIX}'.length);
+        if (data.type.indexOf('${PREVIEW_MESSAGE_PREFIX}') !== 0 || !Object.prototype.hasOwnProperty.call(handlers, name)) return;
+        const reply = (payload) => window.parent.postMessage(Object.assign({ type: data.type + '-result', id: data.id }, payload), '*');
+        try {
+            reply(await handlers[name](data));
+        } catch (e) {
+            reply({ error: String((e && e.message) || e) });
+        }
+    });
+})();
+`;
+
+/**
+ * Adds the runtime, plus any `headMarkup` (e.g. a CSP meta tag), to the start
+ * of a preview document's head, ahead of everything the model wrote. Without a
+ * `<head>` it goes after `<html>` or the doctype; anything before the doctype
+ * would put the page in quirks mode.
+ */
+export const injectPreviewRuntime = (documentHtml: string, headMarkup = '') => {
+    const tag = `<script>${PREVIEW_RUNTIME_SCRIPT}</script>${headMarkup}`;
+    const anchor = [/<head(?:\s[^>]*)?>/i, /<html(?:\s[^>]*)?>/i, /^\s*<!doctype[^>]*>/i].find(pattern => pattern.test(documentHtml));
+    return anchor ? documentHtml.replace(anchor, match => match + tag) : tag + documentHtml;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T => values.includes(value as T);
+
+/**
+ * What a preview's runtime reported, or null for unrelated messages. Frames
+ * run model-written code and can post anything, so every field is checked.
+ */
+export function readPreviewMessage(data: unknown):
+    | { type: 'reset' }
+    | { type: 'entry'; entry: Omit<DiagnosticEntry, 'id'> }
+    | { type: 'select'; node: number; tagName: string }
+    | null {
+    if (!isRecord(data)) return null;
+    if (data.type === `${PREVIEW_MESSAGE_PREFIX}diagnostics-reset`) return { type: 'reset' };
+    if (data.type === `${PREVIEW_MESSAGE_PREFIX}inspect-select`) {
+        const { node, tagName } = data;
+        return typeof node === 'number' && Number.isInteger(node) && node >= 0 && typeof tagName === 'string'
+            ? { type: 'select', node, tagName }
+            : null;
+    }
+    if (data.type !== `${PREVIEW_MESSAGE_PREFIX}diagnostic` || !isRecord(data.entry) || typeof data.entry.message !== 'string') return null;
+    const { kind, level, message, detail, timestamp } = data.entry;
+    return {
+        type: 'entry',
+        entry: {
+            kind: isOneOf(DIAGNOSTIC_KINDS, kind) ? kind : 'console',
+            level: isOneOf(DIAGNOSTIC_LEVELS, level) ? level : 'log',
+            message,
+            detail: typeof detail === 'string' ? detail : undefined,
+            timestamp: typeof timestamp === 'number' && Number.isFinite(timestamp) ? timestamp : Date.now()
+        }
+    };
+}
+
+const DIAGNOSTIC_KINDS: DiagnosticEntry['kind'][] = ['console', 'error', 'network', 'csp'];
+const DIAGNOSTIC_LEVELS: DiagnosticEntry['level'][] = ['log', 'info', 'warn', 'error', 'debug'];
+
+let nextRequestId = 0;
+
+/** Sends `type` to a preview's runtime and resolves with its reply. */
+function requestFromPreview<T>(iframe: HTMLIFrameElement, type: string, payload: object, timeoutMs: number, timeoutMessage: string): Promise<T> {
+    const target = iframe.contentWindow;
+    if (!target) return Promise.reject(new Error('The preview is not loaded'));
+
+    const id = ++nextRequestId;
+    const messageType = `${PREVIEW_MESSAGE_PREFIX}${type}`;
+    return new Promise((resolve, reject) => {
+        const cleanup = () => {
+            window.removeEventListener('message', handleMessage);
+            clearTimeout(timer);
+        };
+        const handleMessage = (event: MessageEvent) => {
+            const data = event.data;
+            if (event.source !== target || data?.type !== `${messageType}-result` || data.id !== id) return;
+            cleanup();
+            if (data.error) reject(new Error(data.error));
+            else resolve(data);
+        };
+        const timer = setTimeout(() => {
+            cleanup();
+            reject(new Error(timeoutMessage));
+        }, timeoutMs);
+
+        window.addEventListener('message', handleMessage);
+        target.postMessage({ ...payload, type: messageType, id }, '*');
+    });
+}
+
+/** Asks a preview iframe for a PNG of its current viewport and resolves with a data URL. */
+export const capturePreview = (iframe: HTMLIFrameElement, { scale = window.devicePixelRatio || 1, timeoutMs = 8000 } = {}) =>
+    requestFromPreview<{ dataUrl: string }>(iframe, 'capture', { scale }, timeoutMs, 'The preview did not respond to the screenshot request')
+        .then(result => result.dataUrl);
+
+/** Runs the accessibility audit inside a preview iframe once it has finished loading. */
+export const auditPreview = (iframe: HTMLIFrameElement, { timeoutMs = 8000 } = {}) =>
+    requestFromPreview<{ findings: AccessibilityFinding[] }>(iframe, 'audit', {}, timeoutMs, 'The preview did not respond to the accessibility audit')
+        .then(result => result.findings);
+
+/** Turns element picking on or off in a preview rendered from `instrumentHtml` output. */
+export const setPreviewInspecting = (iframe: HTMLIFrameElement, enabled: boolean, { timeoutMs = 4000 } = {}) =>
+    requestFromPreview<{}>(iframe, 'inspect', { enabled }, timeoutMs, 'The preview did not respond to the inspect request');
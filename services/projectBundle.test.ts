@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { EXPORT_FORMATS, ExportFormat } from './exporters';
+import { buildProjectFiles } from './projectBundle';
+
+// Peer majors each build tool accepts, per its own major (from `npm view <pkg>@<major> peerDependencies`).
+// A version bump in the bundle needs a matching entry here.
+const KNOWN_PEERS: Record<string, Record<number, Record<string, number[]>>> = {
+    '@vitejs/plugin-react': { 5: { vite: [4, 5, 6, 7] } },
+    '@vitejs/plugin-vue': { 5: { vite: [5, 6], vue: [3] } },
+    '@sveltejs/vite-plugin-svelte': { 5: { vite: [6], svelte: [5] } },
+    'autoprefixer': { 10: { postcss: [8] } },
+    'tailwindcss': { 3: { postcss: [8] } }
+};
+
+const major = (range: string) => Number(/\d+/.exec(range)![0]);
+
+const manifest = (format: ExportFormat) => {
+    const file = buildProjectFiles('<p>x</p>', format).find(f => f.path === 'package.json')!;
+    const pkg = JSON.parse(String(file.content));
+    return { ...pkg.dependencies, ...pkg.devDependencies } as Record<string, string>;
+};
+
+describe('buildProjectFiles', () => {
+    for (const format of Object.keys(EXPORT_FORMATS) as ExportFormat[]) {
+        it(`pins ${format} dependencies whose peer ranges agree`, () => {
+            const packages = manifest(format);
+            for (const [name, range] of Object.entries(packages)) {
+                if (!KNOWN_PEERS[name]) continue;
+                const peers = KNOWN_PEERS[name][major(range)];
+                expect(peers, `known peers of ${name}@${range}`).toBeDefined();
+                for (const [peer, majors] of Object.entries(peers)) {
+                    expect(packages[peer], `${name} needs ${peer}`).toBeDefined();
+                    expect(majors, `${name}@${range} accepts ${peer}@${packages[peer]}`).toContain(major(packages[peer]));
+                }
+            }
+        });
+    }
+
+    it('has peer data for every build plugin', () => {
+        for (const format of Object.keys(EXPORT_FORMATS) as ExportFormat[]) {
+            const plugins = Object.keys(manifest(format)).filter(name => name.includes('plugin'));
+            plugins.forEach(name => expect(KNOWN_PEERS, format).toHaveProperty([name]));
+        }
+    });
+
+    it('mounts Svelte components through the Svelte 5 API', () => {
+        const entry = buildProjectFiles('<p>x</p>', 'svelte').find(f => f.path === 'src/main.js')!;
+        expect(entry.content).toContain(`mount(GeneratedComponent, { target: document.getElementById('app') })`);
+        expect(entry.content).not.toContain('new GeneratedComponent');
+    });
+
+    it('places the body of a full-document artifact, not a nested document', () => {
+        const artifact = `<!DOCTYPE html>
+<html><head><script src="https://cdn.tailwindcss.com"></script><style>.x { color: red; }</style></head>
+<body class="p-4"><p class="x">Hi</p><script>console.log(1);</script></body></html>`;
+        const page = String(buildProjectFiles(artifact, 'html').find(f => f.path === 'index.html')!.content);
+        expect(page.match(/<html|<body|<head/g)).toEqual(['<html', '<head', '<body']);
+        expect(page).toContain('<style>.x { color: red; }</style>');
+        expect(page).toContain('<p class="x">Hi</p><script>console.log(1);</script>');
+        expect(page).not.toContain('cdn.tailwindcss.com');
+    });
+});
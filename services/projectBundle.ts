@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignSystem } from '../types';
+import { DEFAULT_DESIGN_SYSTEM } from './designSystems';
+import { CUSTOM_ELEMENT_TAG, EXPORT_FORMATS, ExportFormat, exportComponent } from './exporters';
+import { toFragment } from './layouts';
+import { ZipEntry, createZip } from './zip';
+
+// Builds a Vite project around an exported component. Tailwind is compiled at
+// build time from the bundled config, so the result does not need the CDN.
+
+interface FrameworkSetup {
+    dependencies: Record<string, string>;
+    devDependencies: Record<string, string>;
+    vitePlugin?: { importLine: string; call: string };
+    entryFile: string;
+    entry: string;
+    /** Markup placed inside <body>, or null when the entry mounts into #app. */
+    bodyMarkup?: (html: string) => string;
+}
+
+const componentPath = (format: ExportFormat) => `src/${EXPORT_FORMATS[format].fileName}`;
+
+const FRAMEWORKS: Record<ExportFormat, FrameworkSetup> = {
+    html: {
+        dependencies: {},
+        devDependencies: {},
+        entryFile: 'src/main.js',
+        entry: `import './styles.css';\n`,
+        bodyMarkup: html => toFragment(html).replace(/<script[^>]*cdn\.tailwindcss\.com[^>]*>\s*<\/script>/gi, '')
+    },
+    react: {
+        dependencies: { 'react': '^19.0.0', 'react-dom': '^19.0.0' },
+        devDependencies: { '@vitejs/plugin-react': '^5.0.0' },
+        vitePlugin: { importLine: `import react from '@vitejs/plugin-react';`, call: 'react()' },
+        entryFile: 'src/main.tsx',
+        entry: `import React from 'react';
+import { createRoot } from 'react-dom/client';
+import GeneratedComponent from './GeneratedComponent';
+import './styles.css';
+
+createRoot(document.getElementById('app')!).render(<GeneratedComponent />);
+`
+    },
+    vue: {
+        dependencies: { 'vue': '^3.5.0' },
+        devDependencies: { '@vitejs/plugin-vue': '^5.2.0' },
+        vitePlugin: { importLine: `import vue from '@vitejs/plugin-vue';`, call: 'vue()' },
+        entryFile: 'src/main.js',
+        entry: `import { createApp } from 'vue';
+import GeneratedComponent from './GeneratedComponent.vue';
+import './styles.css';
+
+createApp(GeneratedComponent).mount('#app');
+`
+    },
+    svelte: {
+        dependencies: {},
+        devDependencies: { 'svelte': '^5.0.0', '@sveltejs/vite-plugin-svelte': '^5.0.0' },
+        vitePlugin: { importLine: `import { svelte } from '@sveltejs/vite-plugin-svelte';`, call: 'svelte()' },
+        entryFile: 'src/main.js',
+        entry: `import { mount } from 'svelte';
+import GeneratedComponent from './GeneratedComponent.svelte';
+import './styles.css';
+
+mount(GeneratedComponent, { target: document.getElementById('app') });
+`
+    },
+    webcomponent: {
+        dependencies: {},
+        devDependencies: {},
+        entryFile: 'src/main.js',
+        entry: `import './styles.css';
+import './${EXPORT_FORMATS.webcomponent.fileName}';
+`,
+        bodyMarkup: () => `<${CUSTOM_ELEMENT_TAG}></${CUSTOM_ELEMENT_TAG}>`
+    }
+};
+
+const json = (value: unknown) => JSON.stringify(value, null, 2) + '\n';
+
+export function buildProjectFiles(html: string, format: ExportFormat, ds: DesignSystem = DEFAULT_DESIGN_SYSTEM): ZipEntry[] {
+    const setup = FRAMEWORKS[format];
+    const body = setup.bodyMarkup ? setup.bodyMarkup(html) : '<div id="app"></div>';
+
+    const files: ZipEntry[] = [
+        {
+            path: 'package.json',
+            content: json({
+                name: 'signal-canvas-component',
+                private: true,
+                version: '0.0.0',
+                type: 'module',
+                scripts: { dev: 'vite', build: 'vite build', preview: 'vite preview' },
+                dependencies: setup.dependencies,
+                devDependencies: {
+                    ...setup.devDependencies,
+                    'autoprefixer': '^10.4.0',
+                    'postcss': '^8.4.0',
+                    'tailwindcss': '^3.4.0',
+                    'vite': '^6.2.0'
+                }
+            })
+        },
+        {
+            path: 'tailwind.config.js',
+            content: `/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './src/**/*.{js,ts,jsx,tsx,vue,svelte}'],
+  darkMode: 'class',
+  theme: {
+    extend: ${JSON.stringify(ds.tailwindTheme, null, 2).replace(/\n/g, '\n    ')}
+  }
+};
+`
+        },
+        {
+            path: 'postcss.config.js',
+            content: `export default {
+  plugins: {
+    tailwindcss: {},
+    autoprefixer: {}
+  }
+};
+`
+        },
+        {
+            path: 'vite.config.js',
+            content: setup.vitePlugin
+                ? `import { defineConfig } from 'vite';\n${setup.vitePlugin.importLine}\n\nexport default defineConfig({\n  plugins: [${setup.vitePlugin.call}]\n});\n`
+                : `import { defineConfig } from 'vite';\n\nexport default defineConfig({});\n`
+        },
+        {
+            path: 'index.html',
+            content: `<!DOCTYPE html>
+<html lang="en" class="${ds.colorScheme}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Signal Canvas Component</title>${ds.fonts.stylesheetUrl ? `
+  <link href="${ds.fonts.stylesheetUrl}" rel="stylesheet">` : ''}
+</head>
+<body>
+  ${body}
+  <script type="module" src="/${setup.entryFile}"></script>
+</body>
+</html>
+`
+        },
+        {
+            path: 'src/styles.css',
+            content: `@tailwind base;
+@tailwind components;
+@tailwind utilities;
+
+body {
+  margin: 0;
+  padding: 20px;
+  background: ${ds.palette.background};
+  color: ${ds.palette.text};
+  font-family: ${ds.fonts.sans};
+}
+`
+        },
+        { path: setup.entryFile, content: setup.entry },
+        {
+            path: 'README.md',
+            content: `# Signal Canvas Component
+
+Exported from Signal Canvas as ${EXPORT_FORMATS[format].label}.
+
+\`\`\`sh
+npm install
+npm run dev
+\`\`\`
+
+Tailwind is compiled from \`tailwind.config.js\` at build time; no CDN is required.
+`
+        }
+    ];
+
+    if (format !== 'html') files.push({ path: componentPath(format), content: exportComponent(html, format) });
+
+    return files;
+}
+
+export function buildProjectBundle(html: string, format: ExportFormat, ds?: DesignSystem): Blob {
+    return new Blob([createZip(buildProjectFiles(html, format, ds))], { type: 'application/zip' });
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { PromptTemplate } from '../types';
+import { DEFAULT_PROMPT_TEMPLATES, parseTemplateExport, renderTemplate, serializeTemplates } from './promptTemplates';
+
+describe('renderTemplate', () => {
+    it('substitutes variables, with or without inner spaces', () => {
+        expect(renderTemplate('Build {{prompt}} in {{ style }}.', { prompt: 'a card', style: 'Neon' })).toBe('Build a card in Neon.');
+    });
+
+    it('drops lines holding only a variable that is empty', () => {
+        const body = 'Build {{prompt}}.\n  {{reference}}  \n{{palette}}\nDone.';
+        expect(renderTemplate(body, { prompt: 'x', reference: '', palette: 'Dark' })).toBe('Build x.\nDark\nDone.');
+        expect(renderTemplate('Note: {{reference}}\nEnd', { reference: '' })).toBe('Note: \nEnd');
+    });
+
+    it('leaves unknown variables as written, even on their own line', () => {
+        expect(renderTemplate('{{mystery}}\nHi {{name}} {{other}}', { name: 'Ada' })).toBe('{{mystery}}\nHi Ada {{other}}');
+    });
+
+    it('inserts values literally, replacement patterns included', () => {
+        expect(renderTemplate('Price: {{price}}', { price: "$& $1 $$ $' $`" })).toBe("Price: $& $1 $$ $' $`");
+    });
+
+    it('does not resolve names from the object prototype', () => {
+        expect(renderTemplate('{{constructor}} {{toString}}', {})).toBe('{{constructor}} {{toString}}');
+    });
+});
+
+describe('parseTemplateExport', () => {
+    const custom: PromptTemplate = { id: 'custom-1', name: 'Terse', kind: 'artifact', body: 'Build {{prompt}}', model: 'gpt-4o', temperature: 0.4 };
+
+    it('reads back exported templates', () => {
+        expect(parseTemplateExport(serializeTemplates([custom]))).toEqual([custom]);
+    });
+
+    it('accepts a bare array and never overwrites built-in templates', () => {
+        const [imported] = parseTemplateExport(JSON.stringify([{ ...DEFAULT_PROMPT_TEMPLATES[0], name: '  Mine  ', model: ' ' }]));
+        expect(imported.id).toMatch(/^custom-/);
+        expect(imported.name).toBe('Mine');
+        expect(imported).not.toHaveProperty('model');
+    });
+
+    it('rejects files that are not template exports', () => {
+        expect(() => parseTemplateExport('{')).toThrow('not valid JSON');
+        expect(() => parseTemplateExport('{"templates": []}')).toThrow('not a prompt template export');
+        expect(() => parseTemplateExport('"x"')).toThrow('not a prompt template export');
+    });
+
+    it('reports the first invalid template', () => {
+        const cases: [unknown, string][] = [
+            [null, 'Template 2 is not an object'],
+            [{ ...custom, name: ' ' }, 'Template 2 has no name'],
+            [{ ...custom, kind: 'toString' }, 'Template 2 has an unknown kind'],
+            [{ ...custom, body: 42 }, 'Template 2 has no body'],
+            [{ ...custom, model: 4 }, 'Template 2: "model" must be a string'],
+            [{ ...custom, temperature: 3 }, 'Template 2: "temperature" must be a number from 0 to 2']
+        ];
+        for (const [bad, message] of cases) {
+            expect(() => parseTemplateExport(JSON.stringify([custom, bad])), message).toThrow(message);
+        }
+    });
+});
@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PromptTemplate, PromptTemplateKind } from '../types';
+import { generateId } from '../utils';
+
+// Templates for the prompts users most often want to tune. The built-in
+// ones reproduce the app's original prompts and cannot be edited; custom
+// templates are clones or imports, stored locally. The values substituted
+// into them are computed in prompts.ts.
+
+const CUSTOM_KEY = 'signal-canvas.prompt-templates';
+const ACTIVE_KEY = 'signal-canvas.active-prompt-templates';
+const EXPORT_FORMAT = 'signal-canvas.prompt-templates';
+
+export interface TemplateKindInfo {
+    label: string;
+    /** Variable names and what they resolve to. */
+    variables: Record<string, string>;
+}
+
+export const TEMPLATE_KINDS: Record<PromptTemplateKind, TemplateKindInfo> = {
+    styleDirections: {
+        label: 'Style Directions',
+        variables: {
+            prompt: "The user's prompt",
+            count: 'How many directions to return',
+            designSystem: 'Design system name',
+            directionHint: "The design system's guidance for choosing directions",
+            reference: 'A note about the attached reference image, or nothing'
+        }
+    },
+    artifact: {
+        label: 'Artifact Generation',
+        variables: {
+            prompt: "The user's prompt",
+            style: 'The style direction being generated',
+            componentNoun: 'What is being designed, e.g. "HUD component"',
+            aesthetic: "The design system's one-line aesthetic",
+            rules: "The design system's rules as a bullet list",
+            palette: 'Palette colors as one sentence',
+            tailwindTheme: 'Tailwind theme extension as JSON',
+            reference: 'Instructions for recreating the attached reference image, or nothing'
+        }
+    },
+    variations: {
+        label: 'Mutations',
+        variables: {
+            prompt: "The user's prompt",
+            count: 'How many mutations to return',
+            aesthetic: "The design system's one-line aesthetic",
+            personas: 'The personas to use, plus how many to invent',
+            palette: 'Palette colors as one sentence'
+        }
+    },
+    placeholders: {
+        label: 'Prompt Suggestions',
+        variables: {
+            designSystem: 'Design system name',
+            componentNoun: 'What is being designed, e.g. "HUD component"',
+            examples: 'Example prompts, quoted'
+        }
+    }
+};
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+    {
+        id: 'default-style-directions',
+        name: 'Default',
+        kind: 'styleDirections',
+        body: `Generate {{count}} {{designSystem}} design directions for: "{{prompt}}".
+{{reference}}
+{{directionHint}}
+Return ONLY raw JSON array of strings.`
+    },
+    {
+        id: 'default-artifact',
+        name: 'Default',
+        kind: 'artifact',
+        body: `Design a complex, high-fidelity {{componentNoun}} for: "{{prompt}}".
+STYLE: {{style}} ({{aesthetic}})
+{{reference}}
+
+RULES:
+{{rules}}
+- {{palette}}
+- Use Tailwind CSS. The theme is extended with: {{tailwindTheme}}
+- Return ONLY the internal HTML body content. No <html> or <body> tags needed.`
+    },
+    {
+        id: 'default-variations',
+        name: 'Default',
+        kind: 'variations',
+        body: `Generate {{count}} radical {{aesthetic}} mutations for: "{{prompt}}".
+{{personas}}
+{{palette}}
+Required JSON Output Format: \`{ "name": "Persona Name", "html": "..." }\``,
+        temperature: 1.2
+    },
+    {
+        id: 'default-placeholders',
+        name: 'Default',
+        kind: 'placeholders',
+        body: 'Generate 20 {{designSystem}} {{componentNoun}} prompts (e.g. {{examples}}). Return ONLY a raw JSON array of strings.'
+    }
+];
+
+export const isBuiltInTemplate = (template: PromptTemplate) => template.id.startsWith('default-');
+
+export const defaultTemplate = (kind: PromptTemplateKind) => DEFAULT_PROMPT_TEMPLATES.find(t => t.kind === kind)!;
+
+const VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+const LONE_VARIABLE = /^\s*\{\{\s*(\w+)\s*\}\}\s*$/;
+
+const hasVariable = (variables: Record<string, string>, name: string) => Object.prototype.hasOwnProperty.call(variables, name);
+
+/**
+ * Substitutes `{{name}}` placeholders. A line holding nothing but a variable
+ * that resolves to an empty string is dropped, so optional notes leave no
+ * blank line behind. Unknown variables are left as written.
+ */
+export function renderTemplate(body: string, variables: Record<string, string>): string {
+    return body.split('\n')
+        .filter(line => {
+            const name = line.match(LONE_VARIABLE)?.[1];
+            return !name || !hasVariable(variables, name) || variables[name] !== '';
+        })
+        .join('\n')
+        .replace(VARIABLE, (match, name: string) => hasVariable(variables, name) ? variables[name] : match)
+        .trim();
+}
+
+/** Placeholders in the template that its kind does not define. */
+export const unknownTemplateVariables = (template: PromptTemplate) => [...new Set(
+    [...template.body.matchAll(VARIABLE)].map(m => m[1]).filter(name => !hasVariable(TEMPLATE_KINDS[template.kind].variables, name))
+)];
+
+/** A custom, editable copy. */
+export const cloneTemplate = (template: PromptTemplate): PromptTemplate =>
+    ({ ...template, id: `custom-${generateId()}`, name: `${template.name} Copy` });
+
+export class PromptTemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PromptTemplateError';
+    }
+}
+
+export function serializeTemplates(templates: PromptTemplate[]): string {
+    return JSON.stringify({ format: EXPORT_FORMAT, templates }, null, 2);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTemplateKind = (value: unknown): value is PromptTemplateKind =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(TEMPLATE_KINDS, value);
+
+const validateTemplate = (raw: unknown, index: number): PromptTemplate => {
+    const where = `Template ${index + 1}`;
+    if (!isRecord(raw)) throw new PromptTemplateError(`${where} is not an object`);
+    const { id, name, kind, body, model, temperature } = raw;
+    if (typeof name !== 'string' || !name.trim()) throw new PromptTemplateError(`${where} has no name`);
+    if (!isTemplateKind(kind)) {
+        throw new PromptTemplateError(`${where} has an unknown kind; expected one of ${Object.keys(TEMPLATE_KINDS).join(', ')}`);
+    }
+    if (typeof body !== 'string' || !body.trim()) throw new PromptTemplateError(`${where} has no body`);
+    if (model !== undefined && typeof model !== 'string') throw new PromptTemplateError(`${where}: "model" must be a string`);
+    if (temperature !== undefined && !(typeof temperature === 'number' && temperature >= 0 && temperature <= 2)) {
+        throw new PromptTemplateError(`${where}: "temperature" must be a number from 0 to 2`);
+    }
+    return {
+        // Imports never overwrite a built-in template.
+        id: typeof id === 'string' && id.startsWith('custom-') ? id : `custom-${generateId()}`,
+        name: name.trim(),
+        kind,
+        body,
+        ...(typeof model === 'string' && model.trim() ? { model: model.trim() } : {}),
+        ...(typeof temperature === 'number' ? { temperature } : {})
+    };
+};
+
+/** Reads an export file, or a bare array of templates. */
+export function parseTemplateExport(json: string): PromptTemplate[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new PromptTemplateError('The file is not valid JSON');
+    }
+    const templates = Array.isArray(data) ? data : isRecord(data) && data.format === EXPORT_FORMAT ? data.templates : null;
+    if (!Array.isArray(templates)) throw new PromptTemplateError('This is not a prompt template export');
+    return templates.map(validateTemplate);
+}
+
+export function loadCustomTemplates(): PromptTemplate[] {
+    try {
+        const stored = localStorage.getItem(CUSTOM_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch {
+        return [];
+    }
+}
+
+export function saveCustomTemplates(templates: PromptTemplate[]) {
+    try {
+        localStorage.setItem(CUSTOM_KEY, JSON.stringify(templates));
+    } catch (e) {
+        console.warn("Failed to save prompt templates", e);
+    }
+}
+
+export type ActiveTemplateIds = Partial<Record<PromptTemplateKind, string>>;
+
+export function loadActiveTemplateIds(): ActiveTemplateIds {
+    try {
+        const stored = localStorage.getItem(ACTIVE_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch {
+        return {};
+    }
+}
+
+export function saveActiveTemplateIds(ids: ActiveTemplateIds) {
+    try {
+        localStorage.setItem(ACTIVE_KEY, JSON.stringify(ids));
+    } catch (e) {
+        console.warn("Failed to save prompt template selection", e);
+    }
+}
+
+/** The template in use for `kind`, falling back to the built-in one. */
+export const resolveTemplate = (templates: PromptTemplate[], active: ActiveTemplateIds, kind: PromptTemplateKind) =>
+    templates.find(t => t.id === active[kind] && t.kind === kind) ?? defaultTemplate(kind);
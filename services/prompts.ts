@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignSystem, PromptTemplate } from '../types';
+import { defaultTemplate, renderTemplate } from './promptTemplates';
+
+// Prompt builders. Everything aesthetic comes from the design system so a
+// preset changes what the model is asked for, not only how it is previewed.
+// The first four render a prompt template (see promptTemplates.ts), the
+// built-in one unless the user picked another.
+
+const bulletList = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+const paletteLine = ({ palette }: DesignSystem) =>
+    `Palette: background ${palette.background}, surface ${palette.surface}, text ${palette.text}, muted ${palette.muted}, accent ${palette.accent}, border ${palette.border}.`;
+
+export const buildPlaceholderPrompt = (ds: DesignSystem, template = defaultTemplate('placeholders')) =>
+    renderTemplate(template.body, {
+        designSystem: ds.name,
+        componentNoun: ds.componentNoun,
+        examples: ds.examplePrompts.map(p => `"${p}"`).join(', ')
+    });
+
+// Appended when the user attached images; the images follow the prompt text.
+const REFERENCE_NOTE = 'The attached image is the reference UI to recreate. Match its layout, content, hierarchy and components closely; only the visual styling should follow the style above.';
+
+export const buildStyleDirectionsPrompt = (prompt: string, ds: DesignSystem, count: number, hasReference = false, template = defaultTemplate('styleDirections')) =>
+    renderTemplate(template.body, {
+        prompt,
+        count: String(count),
+        designSystem: ds.name,
+        directionHint: ds.directionHint,
+        reference: hasReference ? 'Base them on the attached reference image: each direction restyles the same UI.' : ''
+    });
+
+export const buildArtifactPrompt = (prompt: string, styleInstruction: string, ds: DesignSystem, hasReference = false, template = defaultTemplate('artifact')) =>
+    renderTemplate(template.body, {
+        prompt,
+        style: styleInstruction,
+        componentNoun: ds.componentNoun,
+        aesthetic: ds.aesthetic,
+        rules: bulletList(ds.promptRules),
+        palette: paletteLine(ds),
+        tailwindTheme: JSON.stringify(ds.tailwindTheme),
+        reference: hasReference ? REFERENCE_NOTE : ''
+    });
+
+// Uses the preset's personas first and asks the model to invent any beyond those.
+const personaLine = (ds: DesignSystem, count: number) => {
+    const named = ds.variationPersonas.slice(0, count);
+    const extra = count - named.length;
+    const list = named.map(p => `"${p}"`).join(', ');
+    return extra > 0 ? `Personas: ${list}, plus ${extra} more distinct persona(s) of your own.` : `Personas: ${list}.`;
+};
+
+export const buildVariationsPrompt = (prompt: string, ds: DesignSystem, count: number, template = defaultTemplate('variations')) =>
+    renderTemplate(template.body, {
+        prompt,
+        count: String(count),
+        aesthetic: ds.aesthetic,
+        personas: personaLine(ds, count),
+        palette: paletteLine(ds)
+    });
+
+/** `template` resolved against sample values from `ds`, for previews while editing. */
+export function previewPromptTemplate(template: PromptTemplate, ds: DesignSystem): string {
+    const prompt = ds.examplePrompts[0] ?? 'Example prompt';
+    switch (template.kind) {
+        case 'styleDirections': return buildStyleDirectionsPrompt(prompt, ds, 3, false, template);
+        case 'artifact': return buildArtifactPrompt(prompt, ds.fallbackStyles[0] ?? 'Direction 1', ds, false, template);
+        case 'variations': return buildVariationsPrompt(prompt, ds, 3, template);
+        case 'placeholders': return buildPlaceholderPrompt(ds, template);
+    }
+}
+
+export const buildRefinePrompt = (prompt: string, instruction: string, html: string, ds: DesignSystem) => `
+You are refining an existing ${ds.componentNoun} for: "${prompt}".
+INSTRUCTION: ${instruction}
+
+CURRENT HTML:
+${html}
+
+RULES:
+- Apply the instruction and keep everything else (layout, aesthetic, content) unchanged.
+- Keep using Tailwind CSS and the existing visual language (${ds.aesthetic}).
+- Return ONLY the complete updated internal HTML body content. No explanations, no <html> or <body> tags.
+`.trim();
+
+export const buildElementEditPrompt = (prompt: string, instruction: string, elementHtml: string, path: string, ds: DesignSystem) => `
+You are editing one element of an existing ${ds.componentNoun} for: "${prompt}".
+The element sits at: ${path}
+INSTRUCTION: ${instruction}
+
+CURRENT ELEMENT HTML:
+${elementHtml}
+
+RULES:
+- Apply the instruction to this element and its contents only; it will replace the element in place, so the rest of the component stays as it is.
+- Keep using Tailwind CSS and the existing visual language (${ds.aesthetic}), and keep any ids and classes other markup or scripts may rely on.
+- Return ONLY the updated HTML for this element. No explanations, no surrounding markup, no <html> or <body> tags.
+`.trim();
+
+export const buildAccessibilityFixPrompt = (prompt: string, findings: string, html: string, ds: DesignSystem) => `
+You are fixing accessibility problems in an existing ${ds.componentNoun} for: "${prompt}".
+An automated audit of the rendered component reported:
+${findings}
+
+CURRENT HTML:
+${html}
+
+RULES:
+- Fix every reported problem: text must meet WCAG AA contrast (4.5:1, or 3:1 for large text), images need alt text, icon-only controls need aria-label, fields need labels, heading levels must not skip and anything clickable must be keyboard focusable.
+- Where contrast fails, adjust the color within the palette rather than changing the aesthetic. ${paletteLine(ds)}
+- Keep the layout, content and visual language (${ds.aesthetic}) otherwise unchanged.
+- Return ONLY the complete updated internal HTML body content. No explanations, no <html> or <body> tags.
+`.trim();
+
+export const buildLayoutOptionsPrompt = (prompt: string, ds: DesignSystem, count: number) => `
+Propose ${count} page layouts that compose several ${ds.componentNoun}s for: "${prompt}".
+Each layout is a scaffold only: empty regions that whole components are placed into.
+
+Return ONLY a raw JSON array of objects: [{ "name": "Layout Name", "css": "...", "previewHtml": "..." }]
+- previewHtml: the scaffold markup. Mark every region with data-slot="kebab-case-name" and put only its name inside as text. 2 to 6 slots. No Tailwind, no scripts.
+- css: plain CSS for the scaffold (grid, flex, positioning, gaps, responsive breakpoints). Prefix every class with "sc-". No colors or fonts; components bring their own.
+`.trim();
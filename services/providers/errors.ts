@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** A failed provider call, carrying the HTTP status when one is known. */
+export class ProviderError extends Error {
+    readonly status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'ProviderError';
+        this.status = status;
+    }
+}
+
+/** The fields thrown values are inspected for; anything may be thrown, so each is checked before use. */
+const errorFields = (e: unknown) => (typeof e === 'object' && e !== null ? e : {}) as { name?: unknown; status?: unknown; message?: unknown };
+
+export const isAbortError = (e: unknown) =>
+    e instanceof DOMException ? e.name === 'AbortError' : errorFields(e).name === 'AbortError';
+
+export const isRateLimitError = (e: unknown) => {
+    const { status, message } = errorFields(e);
+    if (status === 429) return true;
+    return typeof message === 'string' && /\b429\b|rate.?limit|RESOURCE_EXHAUSTED|too many requests/i.test(message);
+};
+
+export const describeError = (e: unknown) => {
+    if (isAbortError(e)) return 'Generation cancelled';
+    if (isRateLimitError(e)) return 'Rate limited by the provider';
+    const { message } = errorFields(e);
+    const text = String(message ?? e ?? 'Unknown error');
+    return text.length > 240 ? text.slice(0, 240) + '…' : text;
+};
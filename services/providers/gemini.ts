@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerateContentResponseUsageMetadata, GoogleGenAI } from '@google/genai';
+import { GenerationProvider, GenerationRequest } from './types';
+import { ProviderError } from './errors';
+
+/**
+ * Calls Gemini directly with `apiKey`. Only the app server (see server/)
+ * uses this; the browser reaches Gemini through the server's proxy so the
+ * key never ships in the bundle.
+ */
+export function createGeminiProvider(model: string, apiKey: string | undefined): GenerationProvider {
+    let client: GoogleGenAI | null = null;
+
+    const getClient = () => {
+        if (!apiKey) throw new ProviderError("GEMINI_API_KEY is not set on the server.", 503);
+        return client ??= new GoogleGenAI({ apiKey });
+    };
+
+    const toParams = ({ prompt, images = [], temperature, seed }: GenerationRequest) => ({
+        model,
+        contents: [{
+            role: 'user',
+            parts: [{ text: prompt }, ...images.map(({ mimeType, data }) => ({ inlineData: { mimeType, data } }))]
+        }],
+        config: temperature !== undefined || seed !== undefined ? { temperature, seed } : undefined
+    });
+
+    const reportUsage = (request: GenerationRequest, metadata?: GenerateContentResponseUsageMetadata) => {
+        if (!metadata) return;
+        request.onUsage?.({ inputTokens: metadata.promptTokenCount ?? 0, outputTokens: metadata.candidatesTokenCount ?? 0 });
+    };
+
+    return {
+        id: 'gemini',
+        model,
+        isConfigured: !!apiKey,
+        // This SDK version takes no abort signal, so cancellation is checked between awaits.
+        async generateText(request) {
+            request.signal?.throwIfAborted();
+            const response = await getClient().models.generateContent(toParams(request));
+            request.signal?.throwIfAborted();
+            reportUsage(request, response.usageMetadata);
+            return response.text || '';
+        },
+        async *streamText(request) {
+            request.signal?.throwIfAborted();
+            const responseStream = await getClient().models.generateContentStream(toParams(request));
+            // Each chunk carries the running totals; the last one is final.
+            let usage: GenerateContentResponseUsageMetadata | undefined;
+            for await (const chunk of responseStream) {
+                request.signal?.throwIfAborted();
+                usage = chunk.usageMetadata ?? usage;
+                if (typeof chunk.text === 'string') yield chunk.text;
+            }
+            reportUsage(request, usage);
+        }
+    };
+}
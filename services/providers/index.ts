@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createMockProvider } from './mock';
+import { createOpenAiProvider } from './openai';
+import { createProxyProvider } from './proxy';
+import { GenerationProvider, ProviderId, ProviderSettings } from './types';
+
+export type { GenerationProvider, GenerationRequest, InlineImage, ProviderId, ProviderSettings, TokenUsage } from './types';
+export { ProviderError, describeError, isAbortError, isRateLimitError } from './errors';
+
+const SETTINGS_KEY = 'signal-canvas.provider';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+    gemini: 'Google Gemini (app server)',
+    openai: 'OpenAI-compatible',
+    mock: 'Offline Mock'
+};
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+    gemini: 'gemini-3-flash-preview',
+    openai: 'gpt-4o-mini',
+    mock: 'mock-hud-v1'
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    providerId: 'gemini',
+    model: DEFAULT_MODELS.gemini,
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: ''
+};
+
+export function createProvider(settings: ProviderSettings): GenerationProvider {
+    const model = settings.model.trim() || DEFAULT_MODELS[settings.providerId];
+    switch (settings.providerId) {
+        case 'openai': return createOpenAiProvider(model, settings.baseUrl, settings.apiKey);
+        case 'mock': return createMockProvider(model);
+        default: return createProxyProvider(model);
+    }
+}
+
+export function loadProviderSettings(): ProviderSettings {
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        return stored ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PROVIDER_SETTINGS;
+    } catch {
+        return DEFAULT_PROVIDER_SETTINGS;
+    }
+}
+
+export function saveProviderSettings(settings: ProviderSettings) {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.warn("Failed to save provider settings", e);
+    }
+}
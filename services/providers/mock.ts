@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerationProvider } from './types';
+import { BUILT_IN_LAYOUTS } from '../layouts';
+import { estimateTokens } from '../usage';
+
+const STREAM_CHUNK_SIZE = 48;
+const STREAM_DELAY_MS = 12;
+
+const CANNED_STYLES = [
+    "Crystalline Lattice", "Holographic Overlay", "Neural Matrix",
+    "Orbital Schematic", "Deep Core Readout", "Quantum Relay",
+    "Thermal Spectrum", "Signal Cascade", "Vector Array"
+];
+
+const CANNED_PROMPTS = [
+    "Crystalline thermal map", "Neural sync relay", "Orbital trajectory graph",
+    "Reactor containment monitor", "Subspace signal scanner", "Biometric crew roster",
+    "Atmospheric entry console", "Star chart navigator", "Shield harmonics tuner",
+    "Power grid distribution panel"
+];
+
+const CANNED_HTML = [
+    (title: string) => `<div class="max-w-xl mx-auto border border-cyan-400/40 rounded p-6 space-y-4 font-mono">
+  <div class="flex justify-between text-xs uppercase tracking-widest text-cyan-300"><span>${title}</span><span>SYS.OK</span></div>
+  <div class="grid grid-cols-3 gap-3">
+    <div class="border border-cyan-400/30 p-3"><div class="text-[10px] text-cyan-500">CORE</div><div class="text-2xl text-cyan-200">98.2%</div></div>
+    <div class="border border-cyan-400/30 p-3"><div class="text-[10px] text-cyan-500">FLUX</div><div class="text-2xl text-cyan-200">4.71</div></div>
+    <div class="border border-cyan-400/30 p-3"><div class="text-[10px] text-cyan-500">SYNC</div><div class="text-2xl text-cyan-200">LOCK</div></div>
+  </div>
+  <div class="h-2 bg-cyan-950"><div class="h-2 w-3/4 bg-cyan-400 shadow-[0_0_12px_#22d3ee]"></div></div>
+</div>`,
+    (title: string) => `<div class="max-w-xl mx-auto font-mono text-cyan-100">
+  <h2 class="text-sm uppercase tracking-[0.3em] text-cyan-400 mb-4">${title}</h2>
+  <ul class="divide-y divide-cyan-900 border border-cyan-800">
+    <li class="flex justify-between p-3"><span>RELAY-01</span><span class="text-emerald-400">ONLINE</span></li>
+    <li class="flex justify-between p-3"><span>RELAY-02</span><span class="text-emerald-400">ONLINE</span></li>
+    <li class="flex justify-between p-3"><span>RELAY-03</span><span class="text-amber-400">DEGRADED</span></li>
+  </ul>
+  <button class="mt-4 w-full border border-cyan-400 py-2 uppercase text-xs tracking-widest hover:bg-cyan-400/10">Recalibrate</button>
+</div>`,
+    (title: string) => `<div class="max-w-xl mx-auto font-mono border border-cyan-500/40 p-6">
+  <div class="text-xs text-cyan-500 uppercase tracking-widest mb-2">${title}</div>
+  <svg viewBox="0 0 200 60" class="w-full h-24"><polyline fill="none" stroke="#22d3ee" stroke-width="1.5" points="0,40 25,32 50,36 75,18 100,24 125,10 150,22 175,14 200,20"/></svg>
+  <div class="flex gap-4 text-[10px] text-cyan-300 mt-2"><span>T+00:14</span><span>&Delta; 0.032</span><span>&sigma; 1.8</span></div>
+</div>`
+];
+
+// Small string hash so the same prompt always selects the same canned output.
+const hash = (text: string) => {
+    let h = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 16777619);
+    }
+    return h >>> 0;
+};
+
+const escapeHtml = (text: string) =>
+    text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+
+const pick = <T,>(items: T[], seed: number, count: number) =>
+    Array.from({ length: count }, (_, i) => items[(seed + i) % items.length]);
+
+const extractSubject = (prompt: string) => prompt.match(/"([^"]+)"/)?.[1] ?? 'Signal Component';
+
+const extractCount = (prompt: string) => {
+    const count = Number(prompt.match(/\b(\d+)\b/)?.[1]);
+    return count > 0 && count <= 20 ? count : 3;
+};
+
+/**
+ * Recognises the shape of output the prompt asks for (a JSON array of
+ * strings or of layouts, a stream of `{ name, html }` objects, or raw HTML)
+ * and returns a canned response of that shape.
+ */
+const respond = (prompt: string, requestSeed = 0) => {
+    const seed = (hash(prompt) + requestSeed) >>> 0;
+    const subject = extractSubject(prompt);
+
+    if (prompt.includes('"previewHtml"')) {
+        return JSON.stringify(pick(BUILT_IN_LAYOUTS, seed, Math.min(extractCount(prompt), BUILT_IN_LAYOUTS.length))
+            .map(layout => ({ ...layout, name: `${layout.name} // ${subject}` })));
+    }
+
+    if (prompt.includes('"html"')) {
+        const personas = prompt.match(/Personas?:\s*(.+)/)?.[1].match(/"([^"]+)"/g)?.map(p => p.slice(1, -1));
+        const extra = Number(prompt.match(/plus (\d+) more/)?.[1] ?? 0);
+        const names = personas?.length
+            ? [...personas, ...pick(CANNED_STYLES, seed, extra)]
+            : pick(CANNED_STYLES, seed, extractCount(prompt));
+        return names
+            .map((name, i) => JSON.stringify({ name, html: CANNED_HTML[(seed + i) % CANNED_HTML.length](escapeHtml(`${subject} // ${name}`)) }))
+            .join('\n');
+    }
+
+    if (/JSON array/i.test(prompt)) {
+        const source = /prompts/i.test(prompt) ? CANNED_PROMPTS : CANNED_STYLES;
+        return JSON.stringify(pick(source, seed, Math.min(extractCount(prompt), source.length)));
+    }
+
+    const style = prompt.match(/STYLE:\s*([^(\n]+)/)?.[1].trim() ?? '';
+    return CANNED_HTML[seed % CANNED_HTML.length](escapeHtml(style ? `${subject} // ${style}` : subject));
+};
+
+/**
+ * Offline provider for demos and tests: no network, no API key, and the same
+ * prompt (and seed) always produces the same output.
+ */
+export function createMockProvider(model: string): GenerationProvider {
+    return {
+        id: 'mock',
+        model,
+        isConfigured: true,
+        async generateText({ prompt, seed, signal, onUsage }) {
+            signal?.throwIfAborted();
+            const text = respond(prompt, seed);
+            onUsage?.({ inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) });
+            return text;
+        },
+        async *streamText({ prompt, seed, signal, onUsage }) {
+            const text = respond(prompt, seed);
+            for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+                await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+                signal?.throwIfAborted();
+                yield text.slice(i, i + STREAM_CHUNK_SIZE);
+            }
+            onUsage?.({ inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) });
+        }
+    };
+}
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerationProvider, GenerationRequest, TokenUsage } from './types';
+import { ProviderError } from './errors';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const tokenCount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : 0;
+
+/**
+ * Talks to any server implementing the OpenAI `/chat/completions` API
+ * (OpenAI itself, OpenRouter, Ollama, LM Studio, vLLM...).
+ */
+export function createOpenAiProvider(model: string, baseUrl: string, apiKey: string): GenerationProvider {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    // Plain string content unless there are images, for servers without vision support.
+    const toContent = ({ prompt, images = [] }: GenerationRequest) => images.length ? [
+        { type: 'text', text: prompt },
+        ...images.map(({ mimeType, data }) => ({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } }))
+    ] : prompt;
+
+    // Response bodies come from arbitrary servers, so the counts are checked rather than trusted.
+    const toUsage = (usage: unknown): TokenUsage | null => isRecord(usage)
+        ? { inputTokens: tokenCount(usage.prompt_tokens), outputTokens: tokenCount(usage.completion_tokens) }
+        : null;
+
+    const post = async (request: GenerationRequest, stream: boolean) => {
+        const { temperature, seed, signal } = request;
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            signal,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+            },
+            body: JSON.stringify({
+                model,
+                messages: [{ role: 'user', content: toContent(request) }],
+                temperature,
+                seed,
+                stream,
+                // Asks for a final chunk with token counts; servers that do not support it ignore it.
+                ...(stream ? { stream_options: { include_usage: true } } : {})
+            })
+        });
+        if (!response.ok) {
+            throw new ProviderError(`${response.status} ${response.statusText}: ${await response.text()}`, response.status);
+        }
+        return response;
+    };
+
+    return {
+        id: 'openai',
+        model,
+        isConfigured: !!baseUrl,
+        async generateText(request) {
+            const response = await post(request, false);
+            const data = await response.json();
+            const usage = toUsage(data.usage);
+            if (usage) request.onUsage?.(usage);
+            return data.choices?.[0]?.message?.content ?? '';
+        },
+        async *streamText(request) {
+            const response = await post(request, true);
+            if (!response.body) return;
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            let buffer = '';
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                buffer += value;
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+                for (const line of lines) {
+                    const payload = line.replace(/^data:\s*/, '').trim();
+                    if (!line.startsWith('data:') || !payload) continue;
+                    if (payload === '[DONE]') return;
+                    const data = JSON.parse(payload);
+                    const usage = toUsage(data.usage);
+                    if (usage) request.onUsage?.(usage);
+                    const delta = data.choices?.[0]?.delta?.content;
+                    if (typeof delta === 'string' && delta) yield delta;
+                }
+            }
+        }
+    };
+}
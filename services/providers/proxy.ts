@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ComponentVariation } from '../../types';
+import { StreamParseError } from '../streamParser';
+import { GenerationProvider, GenerationRequest, InlineImage } from './types';
+import { ProviderError } from './errors';
+
+// Client for the app server's generation endpoints (see server/). The server
+// holds the API key and talks to the model; the browser only ever sees text.
+//
+// Streaming endpoints answer with server-sent events:
+//   chunk      { text }                 a piece of model output
+//   variation  { value }                a parsed `{ name, html }` object (variations only)
+//   malformed  { message, raw }         output that did not parse (variations only)
+//   usage      { inputTokens, outputTokens }
+//   error      { message, status? }     the call failed after the stream started
+//   done       {}
+
+export const PROXY_ROUTES = {
+    generate: '/api/generate',
+    stream: '/api/stream',
+    variations: '/api/variations',
+    health: '/api/health'
+};
+
+/** JSON body of every generation endpoint. */
+export interface ProxyRequestBody {
+    prompt: string;
+    model: string;
+    images?: InlineImage[];
+    temperature?: number;
+    seed?: number;
+}
+
+export interface ServerSentEvent {
+    event: string;
+    data: any;
+}
+
+/** Parses an event stream; `data` lines are JSON. */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() ?? '';
+        for (const block of blocks) {
+            let event = 'message';
+            const data: string[] = [];
+            for (const line of block.split('\n')) {
+                if (line.startsWith('event:')) event = line.slice(6).trim();
+                else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+            }
+            if (data.length) yield { event, data: JSON.parse(data.join('\n')) };
+        }
+    }
+}
+
+export function createProxyProvider(model: string, baseUrl = ''): GenerationProvider {
+    const root = baseUrl.replace(/\/+$/, '');
+
+    const post = async (route: string, { prompt, images, temperature, seed, signal }: GenerationRequest) => {
+        const body: ProxyRequestBody = { prompt, model, images, temperature, seed };
+        const response = await fetch(`${root}${route}`, {
+            method: 'POST',
+            signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        if (!response.ok) {
+            const error = await response.json().catch(() => null);
+            throw new ProviderError(error?.error ?? `${response.status} ${response.statusText}`, response.status);
+        }
+        return response;
+    };
+
+    // Yields the stream's events, handling the ones every endpoint shares.
+    async function* events(route: string, request: GenerationRequest) {
+        const response = await post(route, request);
+        if (!response.body) return;
+        for await (const { event, data } of readServerSentEvents(response.body)) {
+            if (event === 'usage') request.onUsage?.(data);
+            else if (event === 'error') throw new ProviderError(data.message, data.status);
+            else if (event === 'done') return;
+            else yield { event, data };
+        }
+    }
+
+    return {
+        id: 'gemini',
+        model,
+        isConfigured: true,
+        async generateText(request) {
+            const response = await post(PROXY_ROUTES.generate, request);
+            const { text, usage } = await response.json();
+            if (usage) request.onUsage?.(usage);
+            return text ?? '';
+        },
+        async *streamText(request) {
+            for await (const { event, data } of events(PROXY_ROUTES.stream, request)) {
+                if (event === 'chunk') yield data.text;
+            }
+        },
+        async *streamVariations(request) {
+            for await (const { event, data } of events(PROXY_ROUTES.variations, request)) {
+                if (event === 'variation') yield { type: 'value', value: data.value as ComponentVariation };
+                else if (event === 'malformed') yield { type: 'error', error: new StreamParseError(data.message, data.raw) };
+            }
+        }
+    };
+}
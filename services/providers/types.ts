@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ComponentVariation } from '../../types';
+import type { JsonStreamEvent } from '../streamParser';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface InlineImage {
+    mimeType: string;
+    /** Base64 data, without the `data:` prefix. */
+    data: string;
+}
+
+/** Token counts for one call, as reported by the backend. */
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface GenerationRequest {
+    prompt: string;
+    /** Images sent after the prompt text, e.g. a screenshot to recreate. */
+    images?: InlineImage[];
+    temperature?: number;
+    /** Asks for repeatable output; backends honour it on a best-effort basis. */
+    seed?: number;
+    /** Aborting rejects the call (or ends the stream) with an AbortError. */
+    signal?: AbortSignal;
+    /** Called once the backend reports token counts; not every backend does. */
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * A backend capable of turning a prompt into text, either in one shot or as
+ * a stream of text deltas.
+ */
+export interface GenerationProvider {
+    id: ProviderId;
+    model: string;
+    /** False when required credentials are missing; callers should skip optional calls. */
+    isConfigured: boolean;
+    generateText(request: GenerationRequest): Promise<string>;
+    streamText(request: GenerationRequest): AsyncGenerator<string>;
+    /**
+     * Streams mutations already parsed into `{ name, html }` objects, for
+     * backends that parse server-side. Without it, callers parse `streamText`.
+     */
+    streamVariations?(request: GenerationRequest): AsyncGenerator<JsonStreamEvent<ComponentVariation>>;
+}
+
+export interface ProviderSettings {
+    providerId: ProviderId;
+    model: string;
+    /** Base URL for OpenAI-compatible endpoints, e.g. `http://localhost:11434/v1`. */
+    baseUrl: string;
+    /** API key for OpenAI-compatible endpoints. Gemini's key stays on the app server. */
+    apiKey: string;
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { isRateLimitError } from './providers';
+
+export interface RetryOptions {
+    /** Retries after the first attempt. */
+    retries?: number;
+    baseDelayMs?: number;
+    signal?: AbortSignal;
+    /** Which errors are worth retrying. Defaults to rate-limit errors only. */
+    shouldRetry?: (error: unknown) => boolean;
+    onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/** Runs `run`, retrying with exponential backoff and jitter on retryable errors. */
+export async function withRetry<T>(
+    run: (attempt: number) => Promise<T>,
+    { retries = 3, baseDelayMs = 1000, signal, shouldRetry = isRateLimitError, onRetry }: RetryOptions = {}
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await run(attempt);
+        } catch (e) {
+            if (attempt >= retries || signal?.aborted || !shouldRetry(e)) throw e;
+            const delayMs = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+            onRetry?.(attempt + 1, delayMs, e);
+            await sleep(delayMs, signal);
+        }
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { Artifact } from '../types';
+import { commitRevision, getRevisionIndex, getRevisions, selectRevision } from './revisions';
+
+const artifact = (html = '<p>v1</p>'): Artifact => ({ id: 'a', styleName: 'Neon', html, status: 'complete' });
+
+describe('getRevisions', () => {
+    it('seeds an Original entry for a never-edited artifact', () => {
+        const revisions = getRevisions(artifact());
+        expect(revisions).toHaveLength(1);
+        expect(revisions[0]).toMatchObject({ html: '<p>v1</p>', label: 'Original' });
+        expect(getRevisionIndex(artifact())).toBe(0);
+    });
+});
+
+describe('commitRevision', () => {
+    it('appends the edit after the original and makes it current', () => {
+        const edited = commitRevision(artifact(), '<p>v2</p>', 'Bigger');
+        expect(edited.html).toBe('<p>v2</p>');
+        expect(edited.revisions!.map(r => r.label)).toEqual(['Original', 'Bigger']);
+        expect(getRevisionIndex(edited)).toBe(1);
+    });
+
+    it('keeps later revisions when editing from an older one', () => {
+        const v3 = commitRevision(commitRevision(artifact(), '<p>v2</p>', 'Two'), '<p>v3</p>', 'Three');
+        const fromOriginal = commitRevision(selectRevision(v3, 0), '<p>v4</p>', 'Four');
+        expect(fromOriginal.revisions!.map(r => r.html)).toEqual(['<p>v1</p>', '<p>v2</p>', '<p>v3</p>', '<p>v4</p>']);
+        expect(getRevisionIndex(fromOriginal)).toBe(3);
+    });
+
+    it('takes the history from base while the artifact holds a partial stream', () => {
+        const base = commitRevision(artifact(), '<p>v2</p>', 'Two');
+        const streaming: Artifact = { ...base, html: '<p>par', status: 'streaming', revisions: undefined };
+        const done = commitRevision(streaming, '<p>v3</p>', 'Three', base);
+        expect(done.status).toBe('complete');
+        expect(done.revisions!.map(r => r.html)).toEqual(['<p>v1</p>', '<p>v2</p>', '<p>v3</p>']);
+    });
+});
+
+describe('selectRevision', () => {
+    it('shows the chosen revision without dropping any', () => {
+        const edited = commitRevision(artifact(), '<p>v2</p>', 'Two');
+        const original = selectRevision(edited, 0);
+        expect(original.html).toBe('<p>v1</p>');
+        expect(original.revisions).toHaveLength(2);
+        expect(getRevisionIndex(original)).toBe(0);
+    });
+
+    it('ignores an index out of range', () => {
+        const edited = commitRevision(artifact(), '<p>v2</p>', 'Two');
+        expect(selectRevision(edited, 5)).toBe(edited);
+    });
+});
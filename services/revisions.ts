@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Artifact, ArtifactRevision } from '../types';
+import { generateId } from '../utils';
+
+const makeRevision = (html: string, label: string): ArtifactRevision => ({
+    id: generateId(),
+    html,
+    label,
+    timestamp: Date.now()
+});
+
+/** The artifact's history, seeding an "Original" entry for never-edited artifacts. */
+export const getRevisions = (artifact: Artifact): ArtifactRevision[] =>
+    artifact.revisions?.length ? artifact.revisions : [makeRevision(artifact.html, 'Original')];
+
+export const getRevisionIndex = (artifact: Artifact) =>
+    artifact.revisionIndex ?? getRevisions(artifact).length - 1;
+
+/**
+ * Records `html` as a new revision and makes it current. Starting from an
+ * older revision does not discard later ones; the new version is appended.
+ * `base` is the version the edit was made from, in case `artifact.html`
+ * currently holds a partial stream.
+ */
+export const commitRevision = (artifact: Artifact, html: string, label: string, base: Artifact = artifact): Artifact => {
+    const revisions = [...getRevisions(base), makeRevision(html, label)];
+    return { ...artifact, html, status: 'complete', revisions, revisionIndex: revisions.length - 1 };
+};
+
+export const selectRevision = (artifact: Artifact, index: number): Artifact => {
+    const revisions = getRevisions(artifact);
+    const revision = revisions[index];
+    if (!revision) return artifact;
+    return { ...artifact, html: revision.html, status: 'complete', revisions, revisionIndex: index };
+};
+
+/** One selectable version in the comparison view. */
+export interface ComparisonCandidate {
+    key: string;
+    label: string;
+    html: string;
+}
+
+export const candidateKey = (artifact: Artifact, revision?: ArtifactRevision) =>
+    revision ? `${artifact.id}:${revision.id}` : artifact.id;
+
+/** The key of the version an artifact currently shows. */
+export const currentCandidateKey = (artifact: Artifact) =>
+    artifact.revisions?.length ? candidateKey(artifact, artifact.revisions[getRevisionIndex(artifact)]) : candidateKey(artifact);
+
+/** Every committed version of every complete artifact. */
+export const listComparisonCandidates = (artifacts: Artifact[]): ComparisonCandidate[] =>
+    artifacts.filter(a => a.status === 'complete').flatMap(artifact => artifact.revisions?.length
+        ? artifact.revisions.map((rev, i) => ({
+            key: candidateKey(artifact, rev),
+            label: `${artifact.styleName} — REV ${i + 1} ${rev.label}`,
+            html: rev.html
+        }))
+        : [{ key: candidateKey(artifact), label: artifact.styleName, html: artifact.html }]
+    );
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { sanitizeArtifactHtml } from './sandbox';
+
+describe('sanitizeArtifactHtml', () => {
+    it('points qualified parent frame access back at the frame', () => {
+        const { html, findings } = sanitizeArtifactHtml(
+            '<script>window.parent.postMessage("x", "*"); globalThis.top["location"] = "/"; window . opener.focus();</script>'
+        );
+        expect(html).toBe('<script>self.postMessage("x", "*"); self["location"] = "/"; self.focus();</script>');
+        expect(findings).toEqual(Array(3).fill('Parent frame access in an inline script'));
+    });
+
+    it('leaves local variables and properties named parent or top alone', () => {
+        const source = [
+            '<script>',
+            'const top = list[0]; top.classList.add("first");',
+            'function walk(parent) { return parent.children[0]; }',
+            'let opener = {}; opener["x"] = node.parent.top;',
+            '</script>'
+        ].join('\n');
+        expect(sanitizeArtifactHtml(source)).toEqual({ html: source, findings: [] });
+    });
+
+    it('rewrites qualified access in handlers and javascript: links', () => {
+        const { html } = sanitizeArtifactHtml('<a href="javascript:window.top.close()" onclick="window.parent.go()">x</a>');
+        expect(html).toContain('href="javascript:self.close()"');
+        expect(html).toContain('onclick="self.go()"');
+    });
+});
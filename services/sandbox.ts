@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignSystem } from '../types';
+import { HtmlElement, HtmlNode, getAttribute, parseHtml, serializeHtml } from './htmlParser';
+
+// Generated markup is untrusted. Previews run in an opaque origin (no
+// allow-same-origin), behind a CSP, after the constructs that reach outside
+// the frame have been neutralized. A per-artifact "trusted" opt-in lifts all three.
+
+export const SANDBOX_FLAGS = 'allow-scripts allow-forms allow-modals allow-popups allow-presentation';
+
+/** Full flags for artifacts the user has explicitly trusted. Scripts can then reach the app. */
+export const TRUSTED_SANDBOX_FLAGS = `${SANDBOX_FLAGS} allow-same-origin`;
+
+export const getSandboxFlags = (trusted?: boolean) => trusted ? TRUSTED_SANDBOX_FLAGS : SANDBOX_FLAGS;
+
+const TAILWIND_CDN = 'https://cdn.tailwindcss.com';
+
+const originOf = (url: string | undefined) => {
+    try {
+        return url ? new URL(url).origin : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Inline scripts and styles are allowed (generated components depend on them),
+ * network access from script is not, and forms cannot submit anywhere.
+ */
+export function buildContentSecurityPolicy(ds: DesignSystem): string {
+    const fontCss = originOf(ds.fonts.stylesheetUrl);
+    return [
+        `default-src 'none'`,
+        `script-src 'unsafe-inline' ${TAILWIND_CDN}`,
+        `style-src 'unsafe-inline'${fontCss ? ` ${fontCss}` : ''}`,
+        `font-src https: data:`,
+        `img-src https: data: blob:`,
+        `media-src https: data: blob:`,
+        `connect-src 'none'`,
+        `frame-src 'none'`,
+        `object-src 'none'`,
+        `form-action 'none'`,
+        `base-uri 'none'`
+    ].join('; ');
+}
+
+export const contentSecurityPolicyMeta = (ds: DesignSystem) =>
+    `<meta http-equiv="Content-Security-Policy" content="${buildContentSecurityPolicy(ds)}">`;
+
+// `window.parent.x`, `globalThis.top[...]`... are pointed back at the frame itself. Bare
+// `parent`/`top` are too often local variables to rewrite; the sandbox and CSP contain those.
+const FRAME_ESCAPE_PATTERN = /(?<![\w$.])(?:window|globalThis)\s*\.\s*(?:parent|top|opener)\b(?=\s*[.[])/g;
+const NAVIGATION_TARGETS = new Set(['_top', '_parent']);
+const EMBEDDING_ELEMENTS = new Set(['iframe', 'frame', 'frameset', 'object', 'embed', 'portal']);
+
+const isExternalUrl = (url: string) => /^\s*(?:[a-z][a-z0-9+.-]*:)?\/\//i.test(url);
+const isScriptUrl = (url: string) => /^\s*javascript:/i.test(url);
+
+export interface SanitizeResult {
+    html: string;
+    /** One entry per neutralized construct, for display. */
+    findings: string[];
+}
+
+/** Rewrites generated HTML so it cannot navigate, post to, or script the embedding page. */
+export function sanitizeArtifactHtml(html: string): SanitizeResult {
+    const findings: string[] = [];
+    const doctype = html.match(/^\s*(<!doctype[^>]*>)/i)?.[1] ?? '';
+
+    const setAttribute = (el: HtmlElement, name: string, value: string | null) => {
+        el.attributes = el.attributes.filter(a => a.name.toLowerCase() !== name);
+        if (value !== null) el.attributes.push({ name, value });
+    };
+
+    const rewriteScript = (code: string, where: string) => code.replace(FRAME_ESCAPE_PATTERN, () => {
+        findings.push(`Parent frame access in ${where}`);
+        return 'self';
+    });
+
+    const visit = (nodes: HtmlNode[]): HtmlNode[] => nodes.flatMap<HtmlNode>(node => {
+        if (node.type !== 'element') return [node];
+        const tag = node.tagName;
+
+        if (EMBEDDING_ELEMENTS.has(tag) || tag === 'base') {
+            findings.push(`Removed <${tag}>`);
+            return [];
+        }
+        if (tag === 'meta' && getAttribute(node, 'http-equiv')?.toLowerCase() === 'refresh') {
+            findings.push('Removed meta refresh');
+            return [];
+        }
+
+        const target = getAttribute(node, 'target')?.toLowerCase();
+        if (target && NAVIGATION_TARGETS.has(target)) {
+            findings.push(`Top-level navigation (target="${target}") on <${tag}>`);
+            setAttribute(node, 'target', '_blank');
+        }
+
+        for (const attr of ['action', 'formaction']) {
+            const url = getAttribute(node, attr);
+            if (url !== null && (isExternalUrl(url) || isScriptUrl(url))) {
+                findings.push(`External form submission to ${url.trim().slice(0, 80)}`);
+                setAttribute(node, attr, null);
+            }
+        }
+
+        const href = getAttribute(node, 'href');
+        if (href !== null && isScriptUrl(href)) {
+            setAttribute(node, 'href', rewriteScript(href, 'a javascript: link'));
+        }
+
+        for (const attribute of node.attributes) {
+            if (attribute.value !== null && /^on/i.test(attribute.name)) {
+                attribute.value = rewriteScript(attribute.value, `${attribute.name} handler`);
+            }
+        }
+
+        if (tag === 'script') {
+            node.children = node.children.map(child =>
+                child.type === 'text' ? { ...child, value: rewriteScript(child.value, 'an inline script') } : child
+            );
+        } else {
+            node.children = visit(node.children);
+        }
+        return [node];
+    });
+
+    const nodes = visit(parseHtml(html));
+    // Serializing an unchanged tree could still reformat it, so only rewrite when something was found.
+    if (!findings.length) return { html, findings };
+    return { html: doctype + serializeHtml(nodes), findings };
+}
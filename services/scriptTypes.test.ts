@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { parseHtml } from './htmlParser';
+import { narrowElementLookups, resolveSelectorType } from './scriptTypes';
+
+const markup = parseHtml(`
+    <div id="app" class="card">
+        <input id="name" class="field"><select class="field"></select>
+        <button class="btn primary" data-id="3">Go</button><a class="btn" href="#">Link</a>
+        <svg id="chart"><path class="line"></path><circle class="dot"></circle></svg>
+    </div>`);
+
+describe('resolveSelectorType', () => {
+    it('uses the interface of the matched elements', () => {
+        expect(resolveSelectorType('#name', markup)).toBe('HTMLInputElement');
+        expect(resolveSelectorType('.card > button.primary[data-id="3"]', markup)).toBe('HTMLButtonElement');
+        expect(resolveSelectorType('svg', markup)).toBe('SVGSVGElement');
+    });
+
+    it('falls back to the shared base when matches differ', () => {
+        expect(resolveSelectorType('.btn', markup)).toBe('HTMLElement');
+        expect(resolveSelectorType('.line, .dot', markup)).toBe('SVGElement');
+    });
+
+    it('types unmatched selectors by their tag, else as HTMLElement', () => {
+        expect(resolveSelectorType('canvas.later', markup)).toBe('HTMLCanvasElement');
+        expect(resolveSelectorType('.missing', markup)).toBe('HTMLElement');
+        expect(resolveSelectorType('input:not(.x) ~ *:hover', markup)).toBe('HTMLElement');
+    });
+});
+
+describe('narrowElementLookups', () => {
+    const narrow = (code: string) => narrowElementLookups(code, markup);
+
+    it('types single lookups and asserts them present', () => {
+        expect(narrow("document.querySelector('#name').value = '';")).toBe("document.querySelector<HTMLInputElement>('#name')!.value = '';");
+        expect(narrow('el.closest(".card")')).toBe('el.closest<HTMLDivElement>(".card")!');
+    });
+
+    it('types lists without asserting them', () => {
+        expect(narrow("document.querySelectorAll('.field')")).toBe("document.querySelectorAll<HTMLElement>('.field')");
+    });
+
+    it('casts getElementById on document, which takes no type argument', () => {
+        expect(narrow("document.getElementById('name').focus()")).toBe("(document.getElementById('name') as HTMLInputElement).focus()");
+        expect(narrow("document.getElementById('app')")).toBe("(document.getElementById('app') as HTMLDivElement)");
+        expect(narrow("root.getElementById('nope')")).toBe("root.getElementById('nope')!");
+    });
+
+    it('types computed selectors as HTMLElement', () => {
+        expect(narrow('document.querySelector(`#${id}`).hidden = true'))
+            .toBe('document.querySelector<HTMLElement>(`#${id}`)!.hidden = true');
+    });
+
+    it('handles nested lookups', () => {
+        expect(narrow("document.querySelector(document.querySelector('#app').dataset.target)"))
+            .toBe("document.querySelector<HTMLElement>(document.querySelector<HTMLDivElement>('#app')!.dataset.target)!");
+    });
+
+    it('leaves strings, comments and template text alone', () => {
+        const code = [
+            "const help = 'call document.querySelector(\"#name\")';",
+            '// document.querySelector("#name")',
+            '/* el.closest(".card") */',
+            "const html = `<b>.querySelector('#app')</b> ${document.querySelector('#app').id}`;"
+        ].join('\n');
+        expect(narrow(code)).toBe(code.replace("${document.querySelector('#app')", "${document.querySelector<HTMLDivElement>('#app')!"));
+    });
+});
@@ -0,0 +1,232 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { HtmlElement, HtmlNode, getAttribute } from './htmlParser';
+
+// Types the element lookups in a component's scripts so they pass a strict
+// TypeScript check. Lookups are resolved against the component's own markup,
+// e.g. `querySelector('#amount')` on an `<input id="amount">` becomes
+// `querySelector<HTMLInputElement>('#amount')!`. The rest of the script is
+// left as written: the lookups succeed on the rendered markup, and the added
+// annotations are type-only, so the code runs exactly as before.
+
+const HTML_INTERFACES: Record<string, string> = {
+    a: 'HTMLAnchorElement',
+    audio: 'HTMLAudioElement',
+    button: 'HTMLButtonElement',
+    canvas: 'HTMLCanvasElement',
+    details: 'HTMLDetailsElement',
+    dialog: 'HTMLDialogElement',
+    div: 'HTMLDivElement',
+    fieldset: 'HTMLFieldSetElement',
+    form: 'HTMLFormElement',
+    h1: 'HTMLHeadingElement',
+    h2: 'HTMLHeadingElement',
+    h3: 'HTMLHeadingElement',
+    h4: 'HTMLHeadingElement',
+    h5: 'HTMLHeadingElement',
+    h6: 'HTMLHeadingElement',
+    iframe: 'HTMLIFrameElement',
+    img: 'HTMLImageElement',
+    input: 'HTMLInputElement',
+    label: 'HTMLLabelElement',
+    li: 'HTMLLIElement',
+    meter: 'HTMLMeterElement',
+    ol: 'HTMLOListElement',
+    option: 'HTMLOptionElement',
+    output: 'HTMLOutputElement',
+    p: 'HTMLParagraphElement',
+    pre: 'HTMLPreElement',
+    progress: 'HTMLProgressElement',
+    select: 'HTMLSelectElement',
+    span: 'HTMLSpanElement',
+    table: 'HTMLTableElement',
+    tbody: 'HTMLTableSectionElement',
+    td: 'HTMLTableCellElement',
+    template: 'HTMLTemplateElement',
+    textarea: 'HTMLTextAreaElement',
+    tfoot: 'HTMLTableSectionElement',
+    th: 'HTMLTableCellElement',
+    thead: 'HTMLTableSectionElement',
+    tr: 'HTMLTableRowElement',
+    ul: 'HTMLUListElement',
+    video: 'HTMLVideoElement'
+};
+
+const FALLBACK_INTERFACE = 'HTMLElement';
+
+interface TypedElement {
+    element: HtmlElement;
+    type: string;
+}
+
+const interfaceOf = (tagName: string, inSvg: boolean) => inSvg
+    ? (tagName === 'svg' ? 'SVGSVGElement' : 'SVGElement')
+    : HTML_INTERFACES[tagName] ?? FALLBACK_INTERFACE;
+
+function collectElements(nodes: HtmlNode[], inSvg = false, out: TypedElement[] = []): TypedElement[] {
+    for (const node of nodes) {
+        if (node.type !== 'element') continue;
+        // Content of a <foreignObject> is HTML again.
+        const svg = (inSvg || node.tagName === 'svg') && node.tagName !== 'foreignobject';
+        out.push({ element: node, type: interfaceOf(node.tagName, svg) });
+        collectElements(node.children, svg, out);
+    }
+    return out;
+}
+
+const COMPOUND = /^(\*|[a-zA-Z][\w-]*)?((?:#[\w-]+|\.[\w-]+|\[[^\]]+\])*)$/;
+const SIMPLE = /#([\w-]+)|\.([\w-]+)|\[\s*([\w:-]+)\s*(?:([~|^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]*)))?\s*\]/g;
+
+/** Matches one compound selector such as `button.primary[data-id="3"]`, or returns null when it is not one. */
+const compoundMatcher = (selector: string): ((element: HtmlElement) => boolean) | null => {
+    const match = COMPOUND.exec(selector.replace(/::?[\w-]+(?:\([^)]*\))?/g, ''));
+    if (!match) return null;
+    const tag = match[1] && match[1] !== '*' ? match[1].toLowerCase() : null;
+    const tests: ((element: HtmlElement) => boolean)[] = [];
+    for (const [, id, className, attribute, operator, ...values] of match[2].matchAll(SIMPLE)) {
+        if (id) tests.push(el => getAttribute(el, 'id') === id);
+        else if (className) tests.push(el => (getAttribute(el, 'class') ?? '').split(/\s+/).includes(className));
+        else {
+            const value = values.find(v => v !== undefined);
+            const name = attribute.toLowerCase();
+            // Only exact matches are checked; other operators match any element with the attribute.
+            tests.push(el => el.attributes.some(a => a.name.toLowerCase() === name && (operator !== '=' || a.value === value)));
+        }
+    }
+    return el => (!tag || el.tagName === tag) && tests.every(test => test(el));
+};
+
+const commonType = (types: Set<string>) => {
+    if (types.size === 1) return [...types][0];
+    return types.size && [...types].every(t => t.startsWith('SVG')) ? 'SVGElement' : FALLBACK_INTERFACE;
+};
+
+/**
+ * The DOM interface a selector's matches share in `markup`, e.g.
+ * `HTMLInputElement`; `HTMLElement` when they differ or cannot be told.
+ */
+export function resolveSelectorType(selector: string, markup: HtmlNode[]): string {
+    const elements = collectElements(markup);
+    const types = new Set<string>();
+    for (const part of selector.split(',')) {
+        const compound = part.trim().split(/\s*[>+~]\s*|\s+/).pop() ?? '';
+        const matches = compoundMatcher(compound);
+        if (!matches) return FALLBACK_INTERFACE;
+        const found = elements.filter(e => matches(e.element));
+        if (found.length) found.forEach(e => types.add(e.type));
+        else {
+            // Nothing matches yet (the script may create it); the tag alone still tells the type.
+            const tag = COMPOUND.exec(compound)?.[1]?.toLowerCase();
+            types.add(tag && tag !== '*' ? interfaceOf(tag, tag === 'svg') : FALLBACK_INTERFACE);
+        }
+    }
+    return commonType(types);
+}
+
+const resolveIdType = (id: string, markup: HtmlNode[]) =>
+    commonType(new Set(collectElements(markup).filter(e => getAttribute(e.element, 'id') === id).map(e => e.type)));
+
+/** Marks which characters of `code` are code rather than string, template text or comment. */
+function codeMask(code: string): Uint8Array {
+    const mask = new Uint8Array(code.length);
+
+    const skipString = (i: number) => {
+        const quote = code[i];
+        for (i++; i < code.length && code[i] !== quote && code[i] !== '\n'; i++) {
+            if (code[i] === '\\') i++;
+        }
+        return i + 1;
+    };
+
+    const scanTemplate = (i: number): number => {
+        while (i < code.length) {
+            if (code[i] === '\\') i += 2;
+            else if (code[i] === '`') return i + 1;
+            else if (code[i] === '$' && code[i + 1] === '{') i = scan(i + 2, true);
+            else i++;
+        }
+        return i;
+    };
+
+    // Inside a template expression, stops after the `}` that closes it.
+    const scan = (i: number, inExpression: boolean): number => {
+        let depth = 0;
+        while (i < code.length) {
+            const c = code[i];
+            if (c === '/' && code[i + 1] === '/') {
+                const end = code.indexOf('\n', i);
+                i = end === -1 ? code.length : end;
+            } else if (c === '/' && code[i + 1] === '*') {
+                const end = code.indexOf('*/', i + 2);
+                i = end === -1 ? code.length : end + 2;
+            } else if (c === '"' || c === "'") {
+                i = skipString(i);
+            } else if (c === '`') {
+                i = scanTemplate(i + 1);
+            } else {
+                if (inExpression && c === '{') depth++;
+                if (inExpression && c === '}') {
+                    if (depth === 0) return i + 1;
+                    depth--;
+                }
+                mask[i++] = 1;
+            }
+        }
+        return i;
+    };
+
+    scan(0, false);
+    return mask;
+}
+
+const LOOKUP = /\.\s*(querySelectorAll|querySelector|getElementById|closest)(\s*)\(/g;
+const STRING_ARGUMENT = /^\s*(?:'([^'\\]*)'|"([^"\\]*)")\s*$/;
+
+/**
+ * Adds element types to the `querySelector`, `querySelectorAll`,
+ * `getElementById` and `closest` calls in `code`, resolved against `markup`,
+ * and asserts single lookups non-null.
+ */
+export function narrowElementLookups(code: string, markup: HtmlNode[]): string {
+    const mask = codeMask(code);
+    const inserts: { at: number; text: string }[] = [];
+
+    for (const match of code.matchAll(LOOKUP)) {
+        if (!mask[match.index]) continue;
+        const [, method, space] = match;
+        const open = match.index + match[0].length - 1;
+        let close = -1;
+        for (let i = open, depth = 0; i < code.length; i++) {
+            if (!mask[i]) continue;
+            if (code[i] === '(') depth++;
+            else if (code[i] === ')' && --depth === 0) { close = i; break; }
+        }
+        if (close === -1) continue;
+
+        const literal = STRING_ARGUMENT.exec(code.slice(open + 1, close));
+        const argument = literal ? literal[1] ?? literal[2] : null;
+        const type = argument === null ? FALLBACK_INTERFACE
+            : method === 'getElementById' ? resolveIdType(argument, markup)
+            : resolveSelectorType(argument, markup);
+
+        if (method !== 'getElementById') {
+            inserts.push({ at: open - space.length, text: `<${type}>` });
+            if (method !== 'querySelectorAll') inserts.push({ at: close + 1, text: '!' });
+            continue;
+        }
+        // getElementById takes no type argument; a lookup on `document` is cast instead.
+        const receiver = /(?<![\w$.])document\s*$/.exec(code.slice(0, match.index));
+        if (receiver && type !== FALLBACK_INTERFACE) {
+            inserts.push({ at: receiver.index, text: '(' }, { at: close + 1, text: ` as ${type})` });
+        } else {
+            inserts.push({ at: close + 1, text: '!' });
+        }
+    }
+
+    return inserts
+        .sort((a, b) => b.at - a.at)
+        .reduce((out, { at, text }) => out.slice(0, at) + text + out.slice(at), code);
+}
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { Artifact, Session } from '../types';
+import { MIGRATIONS, SCHEMA_VERSION, createMemorySessionStore, settleInterrupted, upgradeSession } from './sessionStore';
+
+const artifact = (id: string, status: Artifact['status'], html = '<p>x</p>'): Artifact => ({ id, styleName: id, html, status });
+
+const session = (id: string, timestamp: number, artifacts: Artifact[] = [artifact(`${id}-a`, 'complete')]): Session => ({
+    id,
+    prompt: `prompt ${id}`,
+    timestamp,
+    artifacts
+});
+
+describe('MIGRATIONS', () => {
+    it('has a step for every version below the current one', () => {
+        for (let v = 0; v < SCHEMA_VERSION; v++) {
+            expect(MIGRATIONS[v as keyof typeof MIGRATIONS], `migration from ${v}`).toBeTypeOf('function');
+        }
+    });
+
+    it('upgrades unversioned records without changing their content', () => {
+        const legacy = session('legacy', 1);
+        expect(upgradeSession(structuredClone(legacy), 0)).toEqual(legacy);
+    });
+
+    it('leaves current records untouched', () => {
+        const current = session('current', 1);
+        expect(upgradeSession(current, SCHEMA_VERSION)).toBe(current);
+    });
+});
+
+describe('settleInterrupted', () => {
+    it('marks streaming artifacts as failed and keeps the rest', () => {
+        const input = session('s', 1, [artifact('a', 'streaming', '<div>par'), artifact('b', 'complete'), artifact('c', 'error')]);
+        const settled = settleInterrupted(input);
+
+        expect(settled.artifacts.map(a => a.status)).toEqual(['error', 'complete', 'error']);
+        expect(settled.artifacts[0]).toMatchObject({ html: '<div>par', error: 'Interrupted by page reload' });
+        expect(settled.artifacts[1]).toBe(input.artifacts[1]);
+        expect(settled.artifacts[2].error).toBeUndefined();
+    });
+
+    it('does not mutate its input', () => {
+        const input = session('s', 1, [artifact('a', 'streaming')]);
+        settleInterrupted(input);
+        expect(input.artifacts[0].status).toBe('streaming');
+    });
+});
+
+describe('createMemorySessionStore', () => {
+    it('restores saved sessions oldest first, settling interrupted runs', async () => {
+        const store = createMemorySessionStore();
+        await store.saveSession(session('late', 20));
+        await store.saveSession(session('early', 10, [artifact('x', 'streaming')]));
+
+        const restored = await store.loadSessions();
+        expect(restored.map(s => s.id)).toEqual(['early', 'late']);
+        expect(restored[0].artifacts[0].status).toBe('error');
+    });
+
+    it('stores a copy rather than the live object', async () => {
+        const store = createMemorySessionStore();
+        const live = session('s', 1);
+        await store.saveSession(live);
+        live.prompt = 'changed';
+        expect((await store.loadSessions())[0].prompt).toBe('prompt s');
+    });
+
+    it('overwrites by id, deletes and clears', async () => {
+        const store = createMemorySessionStore();
+        await store.saveSession(session('a', 1));
+        await store.saveSession({ ...session('a', 1), prompt: 'updated' });
+        await store.saveSession(session('b', 2));
+        expect((await store.loadSessions()).map(s => s.prompt)).toEqual(['updated', 'prompt b']);
+
+        await store.deleteSession('a');
+        expect((await store.loadSessions()).map(s => s.id)).toEqual(['b']);
+
+        await store.clear();
+        expect(await store.loadSessions()).toEqual([]);
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Session } from '../types';
+
+// Bump this whenever the persisted shape of `Session` / `Artifact` changes,
+// and add a step to MIGRATIONS that upgrades records from the previous version.
+export const SCHEMA_VERSION = 1;
+
+const DB_NAME = 'signal-canvas';
+const SESSIONS_STORE = 'sessions';
+
+interface StoredSession {
+    schemaVersion: number;
+    session: Session;
+}
+
+/**
+ * The persisted session shape at each schema version. When the shape
+ * changes, keep the old one here under its version number and add the new.
+ */
+export interface SessionVersions {
+    /** Written before records carried a version; already the version 1 shape. */
+    0: Session;
+    1: Session;
+}
+
+type NextVersion = { 0: 1 };
+
+type Migration<V extends keyof NextVersion> = (session: SessionVersions[V]) => SessionVersions[NextVersion[V]];
+
+// MIGRATIONS[n] upgrades a record from version n to version n + 1.
+export const MIGRATIONS: { [V in keyof NextVersion]: Migration<V> } = {
+    0: session => session
+};
+
+export interface SessionStore {
+    loadSessions(): Promise<Session[]>;
+    saveSession(session: Session): Promise<void>;
+    deleteSession(id: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+/** Upgrades a session written at `fromVersion` to the current schema. Also used for imported files. */
+export const upgradeSession = (session: SessionVersions[keyof SessionVersions], fromVersion: number): Session => {
+    // Each step's input is the previous step's output, which the table's types guarantee pairwise.
+    const steps = MIGRATIONS as Record<number, (session: SessionVersions[keyof SessionVersions]) => SessionVersions[keyof SessionVersions]>;
+    for (let v = fromVersion; v < SCHEMA_VERSION; v++) {
+        const step = steps[v];
+        if (step) session = step(session);
+    }
+    return session as Session;
+};
+
+const migrate = (record: StoredSession): Session => upgradeSession(record.session, record.schemaVersion ?? 0);
+
+// A run that was still streaming when the page went away can never finish,
+// so surface it as failed instead of leaving the card blurred forever.
+export const settleInterrupted = (session: Session): Session => ({
+    ...session,
+    artifacts: session.artifacts.map(art =>
+        art.status === 'streaming' ? { ...art, status: 'error', error: 'Interrupted by page reload' } : art
+    )
+});
+
+const sortByTimestamp = (sessions: Session[]) =>
+    [...sessions].sort((a, b) => a.timestamp - b.timestamp);
+
+export function createMemorySessionStore(): SessionStore {
+    const records = new Map<string, StoredSession>();
+    return {
+        async loadSessions() {
+            return sortByTimestamp([...records.values()].map(migrate).map(settleInterrupted));
+        },
+        async saveSession(session) {
+            records.set(session.id, { schemaVersion: SCHEMA_VERSION, session: structuredClone(session) });
+        },
+        async deleteSession(id) {
+            records.delete(id);
+        },
+        async clear() {
+            records.clear();
+        }
+    };
+}
+
+const promisify = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+            db.createObjectStore(SESSIONS_STORE, { keyPath: 'session.id' });
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+export function createIndexedDbSessionStore(): SessionStore {
+    const dbPromise = openDatabase();
+
+    const withStore = async <T,>(
+        name: string,
+        mode: IDBTransactionMode,
+        run: (store: IDBObjectStore) => IDBRequest<T>
+    ) => {
+        const db = await dbPromise;
+        return promisify(run(db.transaction(name, mode).objectStore(name)));
+    };
+
+    const saveSession = async (session: Session) => {
+        await withStore(SESSIONS_STORE, 'readwrite', s => s.put({ schemaVersion: SCHEMA_VERSION, session }));
+    };
+
+    return {
+        saveSession,
+        async loadSessions() {
+            const records = await withStore<StoredSession[]>(SESSIONS_STORE, 'readonly', s => s.getAll());
+            const sessions = records.map(migrate).map(settleInterrupted);
+            // Write upgraded records back so migrations only ever run once.
+            if (records.some(r => r.schemaVersion !== SCHEMA_VERSION)) {
+                await Promise.all(sessions.map(saveSession));
+            }
+            return sortByTimestamp(sessions);
+        },
+        async deleteSession(id) {
+            await withStore(SESSIONS_STORE, 'readwrite', s => s.delete(id));
+        },
+        async clear() {
+            await withStore(SESSIONS_STORE, 'readwrite', s => s.clear());
+        }
+    };
+}
+
+/**
+ * Returns an IndexedDB-backed store, or an in-memory one where IndexedDB is
+ * unavailable (tests, private browsing modes that disable it).
+ */
+export function createSessionStore(): SessionStore {
+    if (typeof indexedDB === 'undefined') return createMemorySessionStore();
+    return createIndexedDbSessionStore();
+}
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { Artifact, Session } from '../types';
+import { BUILT_IN_DESIGN_SYSTEMS } from './designSystems';
+import { SCHEMA_VERSION } from './sessionStore';
+import { SessionImportError, mergeImport, parseSessionExport, planImport, serializeSessions } from './sessionTransfer';
+
+const artifact = (id: string, extra: Partial<Artifact> = {}): Artifact => ({ id, styleName: id, html: `<p>${id}</p>`, status: 'complete', ...extra });
+
+const session = (id: string, timestamp: number, extra: Partial<Session> = {}): Session => ({
+    id,
+    prompt: `prompt ${id}`,
+    timestamp,
+    artifacts: [artifact(`${id}-a`)],
+    ...extra
+});
+
+const exportFile = (sessions: unknown[], schemaVersion = SCHEMA_VERSION) =>
+    JSON.stringify({ format: 'signal-canvas.sessions', schemaVersion, exportedAt: '', sessions });
+
+describe('parseSessionExport', () => {
+    it('reads back exported sessions, settling interrupted runs', () => {
+        const full = session('s', 1, {
+            artifacts: [
+                artifact('a', {
+                    revisions: [{ id: 'r1', html: '<p>1</p>', label: 'Original', timestamp: 1 }, { id: 'r2', html: '<p>a</p>', label: 'Edit', timestamp: 2 }],
+                    revisionIndex: 1,
+                    starred: true,
+                    tags: ['hero'],
+                    usage: [{ model: 'm', label: 'Generation', inputTokens: 1, outputTokens: 2, latencyMs: 3, retries: 0, timestamp: 4, estimated: true }]
+                }),
+                artifact('b', { status: 'streaming' })
+            ],
+            attachments: [{ id: 'i', name: 'ref.png', mimeType: 'image/png', data: 'iVBORw0KGgo=', width: 2, height: 3 }],
+            designSystem: BUILT_IN_DESIGN_SYSTEMS[1]
+        });
+        const [read] = parseSessionExport(serializeSessions([full]));
+        expect(read).toEqual({ ...full, artifacts: [full.artifacts[0], { ...full.artifacts[1], status: 'error', error: 'Interrupted by page reload' }] });
+    });
+
+    it('rejects files that are not session exports', () => {
+        expect(() => parseSessionExport('{')).toThrow('not valid JSON');
+        expect(() => parseSessionExport('[]')).toThrow('not a Signal Canvas session export');
+        expect(() => parseSessionExport(exportFile([], SCHEMA_VERSION + 1))).toThrow('newer version');
+        expect(() => parseSessionExport(exportFile([{ id: 's', artifacts: [] }]))).toThrow('Session 1 is missing its id or prompt');
+        expect(() => parseSessionExport(exportFile([session('s', 1, { artifacts: [{ id: 'a' } as Artifact] })]))).toThrow('Session 1, artifact 1 is missing its id or HTML');
+    });
+
+    it('drops trust and fields the app does not know', () => {
+        const [read] = parseSessionExport(exportFile([{ ...session('s', 1), extra: 1, artifacts: [{ ...artifact('a'), trusted: true, script: 'x' }] }]));
+        expect(read).toEqual(session('s', 1, { artifacts: [artifact('a')] }));
+        expect(read.artifacts[0]).not.toHaveProperty('script');
+    });
+
+    it('rejects malformed nested records', () => {
+        const cases: [Partial<Session>, string][] = [
+            [{ artifacts: [artifact('a', { revisions: [{ html: '<p>x</p>' }] as never })] }, 'artifact 1: its revisions are malformed'],
+            [{ artifacts: [artifact('a', { tags: 'hero' as never })] }, 'artifact 1: its tags are malformed'],
+            [{ attachments: [{ id: 'i', name: 'x', mimeType: 'text/html', data: 'PGI+', width: 1, height: 1 }] }, 'its attachments are malformed'],
+            [{ attachments: [{ id: 'i', name: 'x', mimeType: 'image/png', data: '"><script>', width: 1, height: 1 }] }, 'its attachments are malformed'],
+            [{ usage: [{ model: 'm' }] as never }, 'its usage records are malformed']
+        ];
+        for (const [extra, message] of cases) {
+            expect(() => parseSessionExport(exportFile([session('s', 1, extra)])), message).toThrow(message);
+        }
+    });
+
+    it('validates custom design systems and resolves built-in ones by id', () => {
+        const custom = { ...BUILT_IN_DESIGN_SYSTEMS[0], id: 'custom-mine', name: 'Mine' };
+        expect(parseSessionExport(exportFile([session('s', 1, { designSystem: custom })]))[0].designSystem).toMatchObject({ id: 'custom-mine', palette: custom.palette });
+        const spoofed = { ...BUILT_IN_DESIGN_SYSTEMS[0], palette: { ...BUILT_IN_DESIGN_SYSTEMS[0].palette, text: 'red}</style>' } };
+        expect(parseSessionExport(exportFile([session('s', 1, { designSystem: spoofed })]))[0].designSystem).toBe(BUILT_IN_DESIGN_SYSTEMS[0]);
+        const broken = { ...custom, fonts: { sans: 'x', mono: 'y', stylesheetUrl: 'http://fonts.test/a.css' } };
+        expect(() => parseSessionExport(exportFile([session('s', 1, { designSystem: broken })]))).toThrow(SessionImportError);
+    });
+
+    it('ignores a revision index outside the revisions', () => {
+        const revisions = [{ id: 'r', html: '<p>a</p>', label: 'Original', timestamp: 1 }];
+        const [read] = parseSessionExport(exportFile([session('s', 1, { artifacts: [artifact('a', { revisions, revisionIndex: 3 })] })]));
+        expect(read.artifacts[0].revisionIndex).toBeUndefined();
+    });
+});
+
+describe('planImport', () => {
+    it('sorts incoming sessions into added, conflicting and unchanged', () => {
+        const local = [session('same', 1), session('edited', 2)];
+        const incoming = parseSessionExport(serializeSessions([session('same', 1), session('edited', 2, { prompt: 'new' }), session('new', 3)]));
+        const plan = planImport(incoming, local);
+        expect(plan.added.map(s => s.id)).toEqual(['new']);
+        expect(plan.conflicts.map(s => s.prompt)).toEqual(['new']);
+        expect(plan.unchanged).toBe(1);
+    });
+
+    it('treats a local session a file could not carry as changed', () => {
+        const local = session('s', 1, { artifacts: [artifact('a', { tags: [' Hero '] })] });
+        expect(planImport(parseSessionExport(serializeSessions([local])), [local]).unchanged).toBe(1);
+        const invalid = { ...local, artifacts: [{ ...local.artifacts[0], html: undefined as never }] };
+        expect(planImport([session('s', 1)], [invalid]).conflicts).toHaveLength(1);
+    });
+});
+
+describe('mergeImport', () => {
+    const local = [session('a', 1), session('b', 3)];
+    const plan = planImport([session('b', 3, { prompt: 'theirs' }), session('c', 2)], local);
+
+    it('replaces conflicting sessions in place', () => {
+        const merged = mergeImport(local, plan, 'replace');
+        expect(merged.map(s => [s.id, s.prompt])).toEqual([['a', 'prompt a'], ['c', 'prompt c'], ['b', 'theirs']]);
+    });
+
+    it('keeps both versions of a conflict under fresh ids', () => {
+        const merged = mergeImport(local, plan, 'duplicate');
+        expect(merged.map(s => s.prompt)).toEqual(['prompt a', 'prompt c', 'prompt b', 'theirs']);
+        const copy = merged[3];
+        expect(copy.id).not.toBe('b');
+        expect(copy.artifacts[0].id).toBe(`${copy.id}_0`);
+    });
+});
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Artifact, ArtifactRevision, Attachment, DesignSystem, Session, UsageRecord } from '../types';
+import { generateId } from '../utils';
+import { BUILT_IN_DESIGN_SYSTEMS, DesignSystemError, validateDesignSystem } from './designSystems';
+import { addTag } from './gallery';
+import { SCHEMA_VERSION, SessionVersions, settleInterrupted, upgradeSession } from './sessionStore';
+
+// Sessions exported to, and imported from, JSON files. Files carry the
+// session schema version so older exports go through the same migrations
+// as the local archive.
+
+const EXPORT_FORMAT = 'signal-canvas.sessions';
+
+export interface SessionExportFile {
+    format: typeof EXPORT_FORMAT;
+    schemaVersion: number;
+    exportedAt: string;
+    sessions: Session[];
+}
+
+export class SessionImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SessionImportError';
+    }
+}
+
+export function serializeSessions(sessions: Session[]): string {
+    const file: SessionExportFile = {
+        format: EXPORT_FORMAT,
+        schemaVersion: SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        sessions: sessions.map(settleInterrupted)
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+export const exportFileName = (sessions: Session[]) => {
+    if (sessions.length !== 1) return `signal-canvas-sessions-${new Date().toISOString().slice(0, 10)}.json`;
+    const slug = sessions[0].prompt.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+    return `signal-canvas-${slug || sessions[0].id}.json`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Imported records are rebuilt field by field, so nothing the app does not
+// know about, or of the wrong type, is carried into the local archive.
+
+const readRevision = (value: unknown): ArtifactRevision | null =>
+    isRecord(value) && isString(value.id) && isString(value.html) && isString(value.label) && isNumber(value.timestamp)
+        ? { id: value.id, html: value.html, label: value.label, timestamp: value.timestamp }
+        : null;
+
+const readUsage = (value: unknown): UsageRecord | null => {
+    if (!isRecord(value) || !isString(value.model) || !isString(value.label)) return null;
+    const { inputTokens, outputTokens, latencyMs, retries, timestamp, estimated, firstTokenMs } = value;
+    if (!isNumber(inputTokens) || !isNumber(outputTokens) || !isNumber(latencyMs) || !isNumber(retries) || !isNumber(timestamp)) return null;
+    return {
+        model: value.model,
+        label: value.label,
+        inputTokens,
+        outputTokens,
+        ...(estimated === true ? { estimated } : {}),
+        ...(isNumber(firstTokenMs) ? { firstTokenMs } : {}),
+        latencyMs,
+        retries,
+        timestamp
+    };
+};
+
+// Attachments become data: URLs and model input, so they must be base64 images.
+const readAttachment = (value: unknown): Attachment | null =>
+    isRecord(value) && isString(value.id) && isString(value.name)
+        && isString(value.mimeType) && /^image\/[\w.+-]+$/.test(value.mimeType)
+        && isString(value.data) && /^[A-Za-z0-9+/]*={0,2}$/.test(value.data)
+        && isNumber(value.width) && isNumber(value.height)
+        ? { id: value.id, name: value.name, mimeType: value.mimeType, data: value.data, width: value.width, height: value.height }
+        : null;
+
+/** Reads an optional list, throwing when it is there but any item is malformed. */
+const readList = <T,>(value: unknown, read: (item: unknown) => T | null, what: string): T[] | undefined => {
+    if (value === undefined) return undefined;
+    const items = Array.isArray(value) ? value.map(read) : null;
+    if (!items || items.some(item => item === null)) throw new SessionImportError(`${what} are malformed`);
+    return items as T[];
+};
+
+// Built-in presets resolve by id; anything else is validated like an imported preset.
+const readDesignSystem = (value: unknown, where: string): DesignSystem | undefined => {
+    if (value === undefined) return undefined;
+    const builtIn = isRecord(value) && BUILT_IN_DESIGN_SYSTEMS.find(preset => preset.id === value.id);
+    if (builtIn) return builtIn;
+    try {
+        return validateDesignSystem(value);
+    } catch (e) {
+        if (e instanceof DesignSystemError) throw new SessionImportError(`${where} has an invalid design system: ${e.message}`);
+        throw e;
+    }
+};
+
+const readArtifact = (value: unknown, where: string): Artifact => {
+    if (!isRecord(value) || !isString(value.id) || !isString(value.html)) throw new SessionImportError(`${where} is missing its id or HTML`);
+    const revisions = readList(value.revisions, readRevision, `${where}: its revisions`);
+    const { revisionIndex } = value;
+    const tags = readList(value.tags, tag => isString(tag) ? tag : null, `${where}: its tags`);
+    return {
+        id: value.id,
+        styleName: isString(value.styleName) ? value.styleName : 'Imported',
+        html: value.html,
+        status: value.status === 'error' ? 'error' : 'complete',
+        error: value.status === 'error' && isString(value.error) ? value.error : undefined,
+        revisions,
+        revisionIndex: revisions && isNumber(revisionIndex) && Number.isInteger(revisionIndex) && revisionIndex >= 0 && revisionIndex < revisions.length
+            ? revisionIndex
+            : undefined,
+        // Trust is a decision about one's own artifacts; it never travels with a file.
+        trusted: undefined,
+        usage: readList(value.usage, readUsage, `${where}: its usage records`),
+        starred: value.starred === true ? true : undefined,
+        tags: tags?.reduce<string[]>(addTag, [])
+    };
+};
+
+const validateSession = (value: unknown, index: number): Session => {
+    const where = `Session ${index + 1}`;
+    if (!isRecord(value)) throw new SessionImportError(`${where} is not an object`);
+    if (!isString(value.id) || !isString(value.prompt)) throw new SessionImportError(`${where} is missing its id or prompt`);
+    if (!Array.isArray(value.artifacts)) throw new SessionImportError(`${where} has no artifacts`);
+    return {
+        id: value.id,
+        prompt: value.prompt,
+        timestamp: isNumber(value.timestamp) ? value.timestamp : Date.now(),
+        artifacts: value.artifacts.map((art, i) => readArtifact(art, `${where}, artifact ${i + 1}`)),
+        designSystem: readDesignSystem(value.designSystem, where),
+        attachments: readList(value.attachments, readAttachment, `${where}: its attachments`),
+        usage: readList(value.usage, readUsage, `${where}: its usage records`)
+    };
+};
+
+/** Parses an export file, upgrading sessions written by older versions. */
+export function parseSessionExport(json: string): Session[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new SessionImportError('The file is not valid JSON');
+    }
+    if (!isRecord(data) || data.format !== EXPORT_FORMAT || !Array.isArray(data.sessions)) {
+        throw new SessionImportError('This is not a Signal Canvas session export');
+    }
+    const version = Number(data.schemaVersion) || 0;
+    if (version > SCHEMA_VERSION) {
+        throw new SessionImportError(`The file was exported by a newer version (schema ${version}); update the app to import it`);
+    }
+    return data.sessions.map((session, i) => {
+        if (!isRecord(session)) throw new SessionImportError(`Session ${i + 1} is not an object`);
+        // Migrations see the record in the shape its version had; it is validated once current.
+        return validateSession(upgradeSession(session as unknown as SessionVersions[0], version), i);
+    });
+}
+
+export type ConflictStrategy = 'replace' | 'duplicate';
+
+export interface ImportPlan {
+    /** Sessions that do not exist locally yet. */
+    added: Session[];
+    /** Sessions whose id exists locally with different content. */
+    conflicts: Session[];
+    /** Sessions identical to a local one; nothing to do. */
+    unchanged: number;
+}
+
+// Local sessions are normalized the way an import would be, so a session that
+// was exported and re-imported unchanged is recognized as such. One that would
+// not pass an import today differs from anything imported.
+const fingerprint = (session: Session) => {
+    try {
+        return JSON.stringify(validateSession(settleInterrupted(session), 0));
+    } catch {
+        return null;
+    }
+};
+
+export function planImport(incoming: Session[], existing: Session[]): ImportPlan {
+    const local = new Map(existing.map(s => [s.id, s]));
+    const plan: ImportPlan = { added: [], conflicts: [], unchanged: 0 };
+    for (const session of incoming) {
+        const match = local.get(session.id);
+        const localPrint = match && fingerprint(match);
+        if (!match) plan.added.push(session);
+        else if (localPrint !== null && localPrint === fingerprint(session)) plan.unchanged++;
+        else plan.conflicts.push(session);
+    }
+    return plan;
+}
+
+/** A copy of `session` under fresh ids, so it can sit next to the original. */
+export function duplicateSession(session: Session): Session {
+    const id = generateId();
+    return {
+        ...session,
+        id,
+        artifacts: session.artifacts.map((art, i) => ({ ...art, id: `${id}_${i}` }))
+    };
+}
+
+/**
+ * Merges imported sessions into `existing`. Conflicting ids either replace
+ * the local session or are imported as copies under new ids.
+ */
+export function mergeImport(existing: Session[], plan: ImportPlan, strategy: ConflictStrategy): Session[] {
+    const replacements = new Map(strategy === 'replace' ? plan.conflicts.map(s => [s.id, s]) : []);
+    const merged = existing.map(s => replacements.get(s.id) ?? s);
+    const additions = strategy === 'duplicate' ? [...plan.added, ...plan.conflicts.map(duplicateSession)] : plan.added;
+    return [...merged, ...additions].sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import {
+    JsonStreamEvent,
+    JsonStreamParserOptions,
+    StreamParseError,
+    createJsonStreamParser,
+    extractJsonArray,
+    parseJsonStream,
+    stripCodeFences
+} from './streamParser';
+
+const replay = (chunks: string[], options?: JsonStreamParserOptions) => {
+    const parser = createJsonStreamParser(options);
+    return [...chunks.flatMap(chunk => parser.push(chunk)), ...parser.end()];
+};
+
+const values = (events: JsonStreamEvent[]) => events.map(e => e.type === 'value' ? e.value : e.error);
+
+/** Every way of cutting `text` into two chunks, so no split point goes untested. */
+const splits = (text: string) => Array.from({ length: text.length + 1 }, (_, i) => [text.slice(0, i), text.slice(i)]);
+
+describe('createJsonStreamParser', () => {
+    it('ignores braces and brackets inside strings', () => {
+        const text = '[{"css": ".card { color: red; } a[href] {}", "js": "if (x) { y[0] = \'}\'; }"}, {"n": "]"}]';
+        for (const chunks of splits(text)) {
+            expect(values(replay(chunks))).toEqual([
+                { css: '.card { color: red; } a[href] {}', js: "if (x) { y[0] = '}'; }" },
+                { n: ']' }
+            ]);
+        }
+    });
+
+    it('handles escaped quotes split across chunks', () => {
+        expect(values(replay(['{"say": "a \\', '"quoted\\', '" } word"}']))).toEqual([{ say: 'a "quoted" } word' }]);
+        expect(values(replay(['{"path": "C:\\\\', '"}']))).toEqual([{ path: 'C:\\' }]);
+    });
+
+    it('skips code fences and prose split across chunks', () => {
+        const text = 'Here you go:\n```json\n[{"name": "Neon"}, {"fence": "```"}]\n```\nEnjoy!';
+        for (const chunks of splits(text)) {
+            expect(values(replay(chunks))).toEqual([{ name: 'Neon' }, { fence: '```' }]);
+        }
+    });
+
+    it('emits each value as soon as it is complete', () => {
+        const parser = createJsonStreamParser();
+        expect(parser.push('[{"a": 1}, {"b":')).toEqual([{ type: 'value', value: { a: 1 } }]);
+        expect(parser.pending).toBe('{"b":');
+        expect(parser.push(' 2}')).toEqual([{ type: 'value', value: { b: 2 } }]);
+        expect(parser.pending).toBe('');
+    });
+
+    it('reports a malformed object and keeps parsing the ones after it', () => {
+        const events = replay(['[{"a": 1,}, {"b": tru', 'e}, {"c": 3}]']);
+        expect(events).toHaveLength(3);
+        expect(events[0].type).toBe('error');
+        expect(events[0].type === 'error' && events[0].error.raw).toBe('{"a": 1,}');
+        expect(values(events.slice(1))).toEqual([{ b: true }, { c: 3 }]);
+    });
+
+    it('repairs raw control characters inside strings', () => {
+        expect(values(replay(['{"html": "<p>\n\tHi', '</p>"}']))).toEqual([{ html: '<p>\n\tHi</p>' }]);
+    });
+
+    it('reports an unterminated value on end and resets', () => {
+        const parser = createJsonStreamParser();
+        expect(parser.push('[{"a": 1}, {"b": "open { [')).toHaveLength(1);
+        const [event] = parser.end();
+        expect(event.type).toBe('error');
+        if (event.type !== 'error') return;
+        expect(event.error).toBeInstanceOf(StreamParseError);
+        expect(event.error.raw).toBe('{"b": "open { [');
+        expect(parser.pending).toBe('');
+        expect(parser.push('{"c": 3}')).toEqual([{ type: 'value', value: { c: 3 } }]);
+    });
+
+    it('emits bare strings of a top-level array', () => {
+        expect(values(replay(['["one", "t', 'wo ]"]']))).toEqual(['one', 'two ]']);
+    });
+
+    it('emits whole arrays when not splitting them', () => {
+        expect(values(replay(['[[1], ', '{"a": "]"}]'], { splitArrays: false }))).toEqual([[[1], { a: ']' }]]);
+    });
+});
+
+describe('parseJsonStream', () => {
+    it('yields the events of an async chunk stream', async () => {
+        async function* chunks() {
+            yield '```json\n[{"a": "}';
+            yield '"}, {"b"';
+            yield ': 2}, {"c": ';
+        }
+        const events: JsonStreamEvent[] = [];
+        for await (const event of parseJsonStream(chunks())) events.push(event);
+        expect(values(events.slice(0, 2))).toEqual([{ a: '}' }, { b: 2 }]);
+        expect(events[2].type).toBe('error');
+    });
+});
+
+describe('extractJsonArray', () => {
+    it('returns the first valid array in surrounding prose', () => {
+        expect(extractJsonArray('Sure! [see below]\n```\n["a [b]", {"c": "]"}]\n```')).toEqual(['a [b]', { c: ']' }]);
+    });
+
+    it('returns null without an array', () => {
+        expect(extractJsonArray('{"a": 1}')).toBeNull();
+        expect(extractJsonArray('["unterminated"')).toBeNull();
+    });
+});
+
+describe('stripCodeFences', () => {
+    it('holds back a half-written fence while streaming', () => {
+        expect(stripCodeFences('``', true)).toBe('');
+        expect(stripCodeFences('```htm', true)).toBe('');
+        expect(stripCodeFences('```html\n<p>Hi</p>\n``', true)).toBe('<p>Hi</p>');
+        expect(stripCodeFences('Intro\n```html\n<p>Hi</p>\n```\nOutro')).toBe('<p>Hi</p>');
+    });
+});
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Incremental parsers for model output. Models wrap JSON and HTML in prose and
+// markdown fences, split tokens across chunks, and put braces inside strings
+// (CSS rules, inline JS), so output is scanned with a proper state machine
+// rather than by counting raw characters.
+
+export class StreamParseError extends Error {
+    /** The raw text that failed to parse. */
+    readonly raw: string;
+
+    constructor(message: string, raw: string) {
+        super(message);
+        this.name = 'StreamParseError';
+        this.raw = raw;
+    }
+}
+
+export type JsonStreamEvent<T = unknown> =
+    | { type: 'value'; value: T }
+    | { type: 'error'; error: StreamParseError };
+
+export interface JsonStreamParser<T = unknown> {
+    /** Feeds a chunk and returns every value completed by it. */
+    push(chunk: string): JsonStreamEvent<T>[];
+    /** Signals end of input; reports a trailing unterminated value as an error. */
+    end(): JsonStreamEvent<T>[];
+    /** Text of the value currently being received, if any. */
+    readonly pending: string;
+}
+
+// Models often emit raw newlines or tabs inside JSON strings. Escape them and retry once.
+const repairControlCharacters = (raw: string) => {
+    let out = '';
+    let inString = false;
+    let escaped = false;
+    for (const c of raw) {
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (c === '\\') escaped = true;
+            else if (c === '"') inString = false;
+            else if (c === '\n') { out += '\\n'; continue; }
+            else if (c === '\r') { out += '\\r'; continue; }
+            else if (c === '\t') { out += '\\t'; continue; }
+        } else if (c === '"') {
+            inString = true;
+        }
+        out += c;
+    }
+    return out;
+};
+
+const parseValue = <T,>(raw: string): JsonStreamEvent<T> => {
+    try {
+        return { type: 'value', value: JSON.parse(raw) };
+    } catch {
+        try {
+            return { type: 'value', value: JSON.parse(repairControlCharacters(raw)) };
+        } catch (e) {
+            return { type: 'error', error: new StreamParseError(e instanceof Error ? e.message : 'Invalid JSON', raw) };
+        }
+    }
+};
+
+export interface JsonStreamParserOptions {
+    /** Emit elements of a top-level array one by one (default) rather than the array as a whole. */
+    splitArrays?: boolean;
+}
+
+/**
+ * Emits each top-level JSON object in the stream, and each element of a
+ * top-level array, as soon as it is complete. Text outside values (prose,
+ * markdown fences) is skipped.
+ */
+export function createJsonStreamParser<T = unknown>({ splitArrays = true }: JsonStreamParserOptions = {}): JsonStreamParser<T> {
+    let buffer = '';
+    let pos = 0;
+    let depth = 0;              // nesting depth of the value being captured
+    let inString = false;
+    let escaped = false;
+    let valueStart = -1;        // start of the value being captured, -1 when between values
+    let inTopLevelArray = false;
+
+    const scan = (): JsonStreamEvent<T>[] => {
+        const events: JsonStreamEvent<T>[] = [];
+
+        for (; pos < buffer.length; pos++) {
+            const c = buffer[pos];
+
+            if (inString) {
+                if (escaped) escaped = false;
+                else if (c === '\\') escaped = true;
+                else if (c === '"') {
+                    inString = false;
+                    // A bare string element of a top-level array, e.g. ["a", "b"].
+                    if (depth === 0 && valueStart !== -1) {
+                        events.push(parseValue<T>(buffer.slice(valueStart, pos + 1)));
+                        valueStart = -1;
+                    }
+                }
+                continue;
+            }
+
+            if (valueStart === -1) {
+                if (c === '{' || (c === '[' && !splitArrays)) {
+                    valueStart = pos;
+                    depth = 1;
+                } else if (c === '[' && !inTopLevelArray) {
+                    inTopLevelArray = true;
+                } else if (inTopLevelArray && c === '[') {
+                    valueStart = pos;
+                    depth = 1;
+                } else if (inTopLevelArray && c === '"') {
+                    valueStart = pos;
+                    inString = true;
+                } else if (inTopLevelArray && c === ']') {
+                    inTopLevelArray = false;
+                }
+                continue;
+            }
+
+            if (c === '"') inString = true;
+            else if (c === '{' || c === '[') depth++;
+            else if (c === '}' || c === ']') {
+                depth--;
+                if (depth === 0) {
+                    events.push(parseValue<T>(buffer.slice(valueStart, pos + 1)));
+                    valueStart = -1;
+                }
+            }
+        }
+
+        // Drop consumed text so the buffer only holds the value in progress.
+        const keepFrom = valueStart === -1 ? pos : valueStart;
+        buffer = buffer.slice(keepFrom);
+        pos -= keepFrom;
+        if (valueStart !== -1) valueStart = 0;
+
+        return events;
+    };
+
+    return {
+        push(chunk) {
+            buffer += chunk;
+            return scan();
+        },
+        end() {
+            const events = scan();
+            if (valueStart !== -1) {
+                events.push({
+                    type: 'error',
+                    error: new StreamParseError('Stream ended inside an unterminated value', buffer)
+                });
+            }
+            buffer = '';
+            pos = 0;
+            valueStart = -1;
+            depth = 0;
+            inString = false;
+            inTopLevelArray = false;
+            return events;
+        },
+        get pending() {
+            return valueStart === -1 ? '' : buffer;
+        }
+    };
+}
+
+/** Adapts a text stream into a stream of parse events. */
+export async function* parseJsonStream<T = unknown>(stream: AsyncIterable<string>): AsyncGenerator<JsonStreamEvent<T>> {
+    const parser = createJsonStreamParser<T>();
+    for await (const chunk of stream) {
+        yield* parser.push(chunk);
+    }
+    yield* parser.end();
+}
+
+/** Parses complete text and returns the first top-level JSON array, or null. */
+export function extractJsonArray<T = unknown>(text: string): T[] | null {
+    const parser = createJsonStreamParser({ splitArrays: false });
+    for (const event of [...parser.push(text), ...parser.end()]) {
+        if (event.type === 'value' && Array.isArray(event.value)) return event.value as T[];
+    }
+    return null;
+}
+
+const OPENING_FENCE = /```[\w-]*[^\S\n]*\n?/;
+
+/**
+ * Extracts the content of the first markdown code fence, dropping any prose
+ * around it. Text without a fence is returned as-is. With `partial` set (the
+ * stream is still open), a dangling half-written fence at either end is held back.
+ */
+export function stripCodeFences(text: string, partial = false): string {
+    const open = OPENING_FENCE.exec(text);
+    if (!open) {
+        if (partial && /^\s*`{1,2}$|^\s*```[\w-]*$/.test(text)) return '';
+        return text.trim();
+    }
+
+    let body = text.slice(open.index + open[0].length);
+    const close = body.indexOf('```');
+    if (close !== -1) body = body.slice(0, close);
+    else if (partial) body = body.replace(/`{1,2}$/, '');
+
+    return body.trim();
+}
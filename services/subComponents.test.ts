@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { detectRepeatedComponents, toComponentName } from './subComponents';
+
+const repeat = (n: number, item: (i: number) => string) => Array.from({ length: n }, (_, i) => item(i + 1)).join('');
+
+interface CorpusCase {
+    name: string;
+    html: string;
+    /** `[name, tagName, count]` per reported component, in document order. */
+    expected: [string, string, number][];
+}
+
+const CORPUS: CorpusCase[] = [
+    {
+        name: 'list rows with different text',
+        html: `<ul>${repeat(3, i => `<li class="flex"><span>Relay ${i}</span><b>ONLINE</b></li>`)}</ul>`,
+        expected: [['ListItem', 'li', 3]]
+    },
+    {
+        name: 'a nested structure that appears once per card, which is part of the card',
+        html: `<main>${repeat(2, i => `<article><h3>Card ${i}</h3><div><p>x</p><p>y</p></div></article>`)}</main>`,
+        expected: [['Card', 'article', 2]]
+    },
+    {
+        name: 'a nested structure repeated within each card, which is its own component',
+        html: `<main>${repeat(2, i => `<article><h3>Card ${i}</h3><ul>${repeat(2, () => '<li><span>a</span><span>b</span></li>')}</ul></article>`)}</main>`,
+        expected: [['Card', 'article', 2], ['ListItem', 'li', 4]]
+    },
+    {
+        name: 'structures too small to extract',
+        html: `<div>${repeat(4, () => '<p><b>x</b></p>')}</div>`,
+        expected: []
+    },
+    {
+        name: 'different structures with the same tag, named apart',
+        html: `<div>${repeat(2, () => '<div class="flex"><span>a</span><span>b</span></div>')}${repeat(2, () => '<div class="flex"><i>a</i><i>b</i><i>c</i></div>')}</div>`,
+        expected: [['Row', 'div', 2], ['Row2', 'div', 2]]
+    }
+];
+
+describe('detectRepeatedComponents', () => {
+    for (const { name, html, expected } of CORPUS) {
+        it(name, () => {
+            expect(detectRepeatedComponents(html).map(c => [c.name, c.tagName, c.count])).toEqual(expected);
+        });
+    }
+
+    it('uses the first occurrence as the markup', () => {
+        const [row] = detectRepeatedComponents(`<ul>${repeat(2, i => `<li><span>Relay ${i}</span><b>ON</b></li>`)}</ul>`);
+        expect(row.html).toBe('<li><span>Relay 1</span><b>ON</b></li>');
+    });
+});
+
+describe('toComponentName', () => {
+    it('makes PascalCase names that start with a letter', () => {
+        expect(toComponentName('status row')).toBe('StatusRow');
+        expect(toComponentName('3d view')).toBe('Component3dView');
+        expect(toComponentName('—')).toBe('GeneratedComponent');
+    });
+});
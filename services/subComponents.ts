@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DesignSystem } from '../types';
+import { ExportFormat, componentFileName, exportComponent, htmlToStandaloneDocument } from './exporters';
+import { HtmlElement, HtmlNode, getAttribute, parseHtml } from './htmlParser';
+import { ZipEntry, createZip } from './zip';
+
+/** A structure that occurs more than once in an artifact, e.g. a status row or a card. */
+export interface RepeatedComponent {
+    /** Suggested PascalCase component name. */
+    name: string;
+    tagName: string;
+    /** How many times the structure occurs. */
+    count: number;
+    /** Source of its first occurrence, used as the component's markup. */
+    html: string;
+}
+
+// Anything smaller than an element with two children is too trivial to extract.
+const MIN_ELEMENTS = 3;
+const MAX_COMPONENTS = 8;
+const SKIPPED_ELEMENTS = new Set(['head', 'script', 'style', 'template', 'noscript']);
+
+const TAG_NAMES: Record<string, string> = {
+    li: 'ListItem',
+    tr: 'TableRow',
+    article: 'Card',
+    section: 'Section',
+    button: 'Button',
+    a: 'Link',
+    figure: 'Figure',
+    form: 'Form',
+    label: 'Field',
+    details: 'Disclosure',
+    svg: 'Icon'
+};
+
+interface Shape {
+    element: HtmlElement;
+    /** Tag structure with text and attributes ignored, so instances with different content match. */
+    signature: string;
+    elements: number;
+}
+
+/** Returns the shapes of `nodes`; they and all their descendants are also added to `all`. */
+function collectShapes(nodes: HtmlNode[], all: Shape[]): Shape[] {
+    return nodes.flatMap(node => {
+        if (node.type !== 'element' || SKIPPED_ELEMENTS.has(node.tagName)) return [];
+        const children = collectShapes(node.children, all);
+        const shape: Shape = {
+            element: node,
+            signature: `${node.tagName}(${children.map(c => c.signature).join(',')})`,
+            elements: 1 + children.reduce((sum, c) => sum + c.elements, 0)
+        };
+        all.push(shape);
+        return [shape];
+    });
+}
+
+const contains = (outer: HtmlElement, inner: HtmlElement) => outer.start! <= inner.start! && outer.end! >= inner.end!;
+
+const hasHeading = (element: HtmlElement): boolean =>
+    element.children.some(c => c.type === 'element' && (/^h[1-6]$/.test(c.tagName) || hasHeading(c)));
+
+function suggestName(element: HtmlElement): string {
+    if (TAG_NAMES[element.tagName]) return TAG_NAMES[element.tagName];
+    if (hasHeading(element)) return 'Card';
+    const classes = (getAttribute(element, 'class') ?? '').split(/\s+/);
+    return classes.includes('flex') && !classes.includes('flex-col') ? 'Row' : 'Item';
+}
+
+/** Turns free text into a usable component name: `status row` → `StatusRow`. */
+export function toComponentName(raw: string, fallback = 'GeneratedComponent'): string {
+    const name = raw.split(/[^a-zA-Z0-9]+/).filter(Boolean).map(w => w[0].toUpperCase() + w.slice(1)).join('');
+    if (!name) return fallback;
+    return /^\d/.test(name) ? `Component${name}` : name;
+}
+
+/**
+ * Finds structures repeated in `html`, in document order. A structure is left
+ * out when it only ever appears once inside each occurrence of a larger
+ * one, since it is then just part of that component rather than its own.
+ */
+export function detectRepeatedComponents(html: string): RepeatedComponent[] {
+    const shapes: Shape[] = [];
+    collectShapes(parseHtml(html), shapes);
+
+    const groups = new Map<string, Shape[]>();
+    shapes
+        .filter(s => s.elements >= MIN_ELEMENTS && s.element.start !== undefined && s.element.end !== undefined)
+        .forEach(s => groups.set(s.signature, [...(groups.get(s.signature) ?? []), s]));
+
+    const candidates = [...groups.values()]
+        .filter(group => group.length > 1)
+        .sort((a, b) => b[0].elements - a[0].elements || a[0].element.start! - b[0].element.start!);
+
+    const selected: Shape[][] = [];
+    for (const group of candidates) {
+        const isPart = selected.some(larger => group.every(s => larger.some(l => contains(l.element, s.element))) &&
+            larger.every(l => group.filter(s => contains(l.element, s.element)).length <= 1));
+        if (!isPart) selected.push(group);
+        if (selected.length === MAX_COMPONENTS) break;
+    }
+
+    const used = new Map<string, number>();
+    return selected
+        .sort((a, b) => a[0].element.start! - b[0].element.start!)
+        .map(group => {
+            const first = group[0].element;
+            const base = suggestName(first);
+            const n = (used.get(base) ?? 0) + 1;
+            used.set(base, n);
+            return {
+                name: n === 1 ? base : `${base}${n}`,
+                tagName: first.tagName,
+                count: group.length,
+                html: html.slice(first.start, first.end)
+            };
+        });
+}
+
+/** One file per component in `format`, named after it; clashing names get a numeric suffix. */
+export function buildComponentFiles(components: { name: string; html: string }[], format: ExportFormat, ds: DesignSystem): ZipEntry[] {
+    const used = new Set<string>();
+    return components.map(({ name, html }) => {
+        let unique = name;
+        for (let n = 2; used.has(unique); n++) unique = `${name}${n}`;
+        used.add(unique);
+        return {
+            path: componentFileName(format, unique),
+            content: format === 'html' ? htmlToStandaloneDocument(html, ds) : exportComponent(html, format, unique)
+        };
+    });
+}
+
+export function buildComponentsArchive(components: { name: string; html: string }[], format: ExportFormat, ds: DesignSystem): Blob {
+    return new Blob([createZip(buildComponentFiles(components, format, ds))], { type: 'application/zip' });
+}
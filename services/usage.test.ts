@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UsageRecord } from '../types';
+import {
+    ModelPrice,
+    UsageLedger,
+    addToLedger,
+    createUsageMeter,
+    dateKey,
+    formatCost,
+    isOverBudget,
+    summarizeLedger,
+    summarizeUsage
+} from './usage';
+
+const NOW = new Date(2026, 5, 15, 12).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+const PRICES: Record<string, ModelPrice> = { paid: { input: 1, output: 10 } };
+
+const record = (extra: Partial<UsageRecord> = {}): UsageRecord => ({
+    model: 'paid', label: 'Generation', inputTokens: 100_000, outputTokens: 10_000, latencyMs: 800, retries: 0, timestamp: NOW, ...extra
+});
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('usage ledger', () => {
+    it('adds calls up per day and model', () => {
+        let ledger: UsageLedger = {};
+        ledger = addToLedger(ledger, record());
+        ledger = addToLedger(ledger, record({ inputTokens: 1, outputTokens: 2 }));
+        ledger = addToLedger(ledger, record({ model: 'free' }));
+        ledger = addToLedger(ledger, record({ timestamp: NOW - DAY }));
+        expect(ledger[dateKey(NOW)]).toEqual({
+            paid: { calls: 2, inputTokens: 100_001, outputTokens: 10_002 },
+            free: { calls: 1, inputTokens: 100_000, outputTokens: 10_000 }
+        });
+        expect(Object.keys(ledger)).toEqual([dateKey(NOW), dateKey(NOW - DAY)]);
+    });
+
+    it('drops days past the retention window', () => {
+        const old = addToLedger({}, record({ timestamp: NOW - 91 * DAY }));
+        expect(addToLedger(old, record())).toEqual({ [dateKey(NOW)]: { paid: { calls: 1, inputTokens: 100_000, outputTokens: 10_000 } } });
+    });
+
+    it('prices totals, counting unpriced models apart', () => {
+        let ledger = addToLedger({}, record());
+        ledger = addToLedger(ledger, record({ model: 'free' }));
+        ledger = addToLedger(ledger, record({ timestamp: NOW - DAY }));
+        expect(summarizeLedger(ledger, PRICES, [dateKey()])).toEqual({ calls: 2, inputTokens: 200_000, outputTokens: 20_000, cost: 0.2, unpricedCalls: 1 });
+        expect(summarizeLedger(ledger, PRICES).cost).toBeCloseTo(0.4);
+    });
+});
+
+describe('isOverBudget', () => {
+    // One call today and one yesterday, at $0.20 each.
+    const ledger = () => addToLedger(addToLedger({}, record()), record({ timestamp: NOW - DAY }));
+
+    it('is never over without a budget', () => {
+        expect(isOverBudget(ledger(), { prices: PRICES, dailyBudget: null })).toBe(false);
+    });
+
+    it('counts only today, and is over once the budget is reached', () => {
+        expect(isOverBudget(ledger(), { prices: PRICES, dailyBudget: 0.21 })).toBe(false);
+        expect(isOverBudget(ledger(), { prices: PRICES, dailyBudget: 0.2 })).toBe(true);
+        expect(isOverBudget(ledger(), { prices: PRICES, dailyBudget: 0 })).toBe(true);
+    });
+
+    it('resets on the next day', () => {
+        vi.setSystemTime(NOW + DAY);
+        expect(isOverBudget(ledger(), { prices: PRICES, dailyBudget: 0.2 })).toBe(false);
+    });
+});
+
+describe('createUsageMeter', () => {
+    it('sums reported usage across attempts and times the first chunk', async () => {
+        const meter = createUsageMeter('paid', 'Generation', 'prompt');
+        meter.onUsage({ inputTokens: 10, outputTokens: 5 });
+        meter.onRetry();
+        vi.advanceTimersByTime(200);
+        const chunks: string[] = [];
+        for await (const chunk of meter.tap((async function* () { yield 'a'; yield 'b'; })())) chunks.push(chunk);
+        meter.onUsage({ inputTokens: 10, outputTokens: 7 });
+        vi.advanceTimersByTime(300);
+        expect(chunks).toEqual(['a', 'b']);
+        expect(meter.finish()).toEqual({
+            model: 'paid', label: 'Generation', inputTokens: 20, outputTokens: 12,
+            firstTokenMs: 200, latencyMs: 500, retries: 1, timestamp: NOW + 500
+        });
+    });
+
+    it('estimates tokens when the backend reports none', () => {
+        const meter = createUsageMeter('paid', 'Generation', 'x'.repeat(40));
+        meter.onChunk('y'.repeat(9));
+        expect(meter.finish()).toMatchObject({ inputTokens: 10, outputTokens: 3, estimated: true });
+        expect(createUsageMeter('paid', 'Generation', 'p').finish('given')).toMatchObject({ outputTokens: 2, estimated: true });
+    });
+
+    it('records nothing for a call that returned and reported nothing', () => {
+        expect(createUsageMeter('paid', 'Generation', 'prompt').finish()).toBeNull();
+    });
+});
+
+describe('summarizeUsage', () => {
+    it('averages latencies over the calls that have them', () => {
+        const summary = summarizeUsage([record({ firstTokenMs: 100, retries: 2 }), record({ model: 'free', latencyMs: 400, estimated: true })], PRICES);
+        expect(summary).toMatchObject({ calls: 2, cost: 0.2, unpricedCalls: 1, retries: 2, averageLatencyMs: 600, averageFirstTokenMs: 100, estimated: true });
+        expect(formatCost(summary.cost)).toBe('$0.20');
+        expect(formatCost(0.0012)).toBe('$0.0012');
+    });
+});
@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { TokenUsage } from './providers';
+import { Session, UsageRecord } from '../types';
+
+// Token, latency and cost accounting. Calls are recorded on the session or
+// artifact they belong to, and also in a daily ledger that survives deleting
+// sessions, so the budget counts everything that was actually spent.
+
+const SETTINGS_KEY = 'signal-canvas.usage-settings';
+const LEDGER_KEY = 'signal-canvas.usage-ledger';
+const LEDGER_DAYS = 90;
+
+/** US dollars per million tokens. */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+export interface UsageSettings {
+    /** Keyed by model name. Models without a price count as free. */
+    prices: Record<string, ModelPrice>;
+    /** US dollars per local calendar day; `null` for no limit. */
+    dailyBudget: number | null;
+}
+
+// List prices at the time of writing; they change, which is why they are editable.
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+    'gemini-3-flash-preview': { input: 0.5, output: 3 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'mock-hud-v1': { input: 0, output: 0 }
+};
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = { prices: DEFAULT_PRICES, dailyBudget: null };
+
+/** Rough count for backends that report none: about four characters per token. */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Measures one logical call, retries included. Pass `onUsage` with the
+ * request, feed streamed text through `onChunk` (or `tap`) and `onRetry`
+ * to `withRetry`, then call `finish`.
+ */
+export function createUsageMeter(model: string, label: string, prompt: string) {
+    const start = Date.now();
+    let firstTokenMs: number | undefined;
+    let retries = 0;
+    let streamed = '';
+    // Each attempt reports at most once, so summing covers attempts that failed part-way.
+    let reported: TokenUsage | null = null;
+
+    const onChunk = (text: string) => {
+        firstTokenMs ??= Date.now() - start;
+        streamed += text;
+    };
+
+    return {
+        onUsage: (usage: TokenUsage) => {
+            reported = {
+                inputTokens: (reported?.inputTokens ?? 0) + usage.inputTokens,
+                outputTokens: (reported?.outputTokens ?? 0) + usage.outputTokens
+            };
+        },
+        onChunk,
+        onRetry: () => { retries++; },
+        /** Passes a stream through `onChunk`. */
+        async *tap(stream: AsyncIterable<string>) {
+            for await (const chunk of stream) {
+                onChunk(chunk);
+                yield chunk;
+            }
+        },
+        /**
+         * The call's record, or `null` when nothing came back and nothing was
+         * reported. `output` defaults to the streamed text.
+         */
+        finish(output = streamed): UsageRecord | null {
+            if (!reported && !output) return null;
+            const tokens = reported ?? { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(output) };
+            return {
+                model,
+                label,
+                ...tokens,
+                ...(reported ? {} : { estimated: true }),
+                ...(firstTokenMs !== undefined ? { firstTokenMs } : {}),
+                latencyMs: Date.now() - start,
+                retries,
+                timestamp: Date.now()
+            };
+        }
+    };
+}
+
+/** Estimated cost in US dollars, or `null` when the model has no price. */
+export function costOf(model: string, inputTokens: number, outputTokens: number, prices: Record<string, ModelPrice>): number | null {
+    const price = prices[model];
+    return price ? (inputTokens * price.input + outputTokens * price.output) / 1e6 : null;
+}
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+    /** Calls to models missing from the price table, left out of `cost`. */
+    unpricedCalls: number;
+}
+
+const EMPTY_TOTALS: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedCalls: 0 };
+
+const addToTotals = (totals: UsageTotals, model: string, calls: number, inputTokens: number, outputTokens: number, prices: Record<string, ModelPrice>): UsageTotals => {
+    const cost = costOf(model, inputTokens, outputTokens, prices);
+    return {
+        calls: totals.calls + calls,
+        inputTokens: totals.inputTokens + inputTokens,
+        outputTokens: totals.outputTokens + outputTokens,
+        cost: totals.cost + (cost ?? 0),
+        unpricedCalls: totals.unpricedCalls + (cost === null ? calls : 0)
+    };
+};
+
+export interface UsageSummary extends UsageTotals {
+    retries: number;
+    averageLatencyMs: number | null;
+    averageFirstTokenMs: number | null;
+    /** Some calls had estimated token counts. */
+    estimated: boolean;
+}
+
+const average = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+export function summarizeUsage(records: UsageRecord[], prices: Record<string, ModelPrice>): UsageSummary {
+    const totals = records.reduce((t, r) => addToTotals(t, r.model, 1, r.inputTokens, r.outputTokens, prices), EMPTY_TOTALS);
+    return {
+        ...totals,
+        retries: records.reduce((sum, r) => sum + r.retries, 0),
+        averageLatencyMs: average(records.map(r => r.latencyMs)),
+        averageFirstTokenMs: average(records.flatMap(r => r.firstTokenMs !== undefined ? [r.firstTokenMs] : [])),
+        estimated: records.some(r => r.estimated)
+    };
+}
+
+/** Every call recorded on a session and its artifacts. */
+export const sessionUsage = (session: Session): UsageRecord[] =>
+    [...(session.usage ?? []), ...session.artifacts.flatMap(a => a.usage ?? [])];
+
+/** Per-day, per-model totals, keyed by local date (`YYYY-MM-DD`). */
+export type UsageLedger = Record<string, Record<string, { calls: number; inputTokens: number; outputTokens: number }>>;
+
+export const dateKey = (time = Date.now()) => {
+    const d = new Date(time);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/** Adds a call to the ledger, dropping days older than the retention window. */
+export function addToLedger(ledger: UsageLedger, record: UsageRecord): UsageLedger {
+    const day = dateKey(record.timestamp);
+    const entry = ledger[day]?.[record.model] ?? { calls: 0, inputTokens: 0, outputTokens: 0 };
+    const next: UsageLedger = {
+        ...ledger,
+        [day]: {
+            ...ledger[day],
+            [record.model]: {
+                calls: entry.calls + 1,
+                inputTokens: entry.inputTokens + record.inputTokens,
+                outputTokens: entry.outputTokens + record.outputTokens
+            }
+        }
+    };
+    const oldest = dateKey(Date.now() - LEDGER_DAYS * 24 * 60 * 60 * 1000);
+    return Object.fromEntries(Object.entries(next).filter(([key]) => key >= oldest));
+}
+
+/** Totals over the given days, or over the whole ledger. */
+export function summarizeLedger(ledger: UsageLedger, prices: Record<string, ModelPrice>, days?: string[]): UsageTotals {
+    return Object.entries(ledger)
+        .filter(([day]) => !days || days.includes(day))
+        .flatMap(([, models]) => Object.entries(models))
+        .reduce((t, [model, e]) => addToTotals(t, model, e.calls, e.inputTokens, e.outputTokens, prices), EMPTY_TOTALS);
+}
+
+export const isOverBudget = (ledger: UsageLedger, settings: UsageSettings) =>
+    settings.dailyBudget !== null && summarizeLedger(ledger, settings.prices, [dateKey()]).cost >= settings.dailyBudget;
+
+export const formatCost = (dollars: number) =>
+    dollars === 0 ? '$0.00' : dollars < 0.01 ? `$${dollars.toFixed(4)}` : `$${dollars.toFixed(2)}`;
+
+export function loadUsageSettings(): UsageSettings {
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        return stored ? { ...DEFAULT_USAGE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_USAGE_SETTINGS;
+    } catch {
+        return DEFAULT_USAGE_SETTINGS;
+    }
+}
+
+export function saveUsageSettings(settings: UsageSettings) {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.warn("Failed to save usage settings", e);
+    }
+}
+
+export function loadUsageLedger(): UsageLedger {
+    try {
+        const stored = localStorage.getItem(LEDGER_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch {
+        return {};
+    }
+}
+
+export function saveUsageLedger(ledger: UsageLedger) {
+    try {
+        localStorage.setItem(LEDGER_KEY, JSON.stringify(ledger));
+    } catch (e) {
+        console.warn("Failed to save usage ledger", e);
+    }
+}
@@ -3,11 +3,91 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+export interface ArtifactRevision {
+  id: string;
+  html: string;
+  /** What produced this version, e.g. "Original" or the refinement instruction. */
+  label: string;
+  timestamp: number;
+}
+
 export interface Artifact {
   id: string;
   styleName: string;
   html: string;
   status: 'streaming' | 'complete' | 'error';
+  /** Human-readable failure reason when `status` is 'error'. */
+  error?: string;
+  /** Every committed version of `html`, oldest first. Absent until the first edit. */
+  revisions?: ArtifactRevision[];
+  /** Index into `revisions` of the version currently shown in `html`. */
+  revisionIndex?: number;
+  /** User opted this artifact out of the hardened sandbox (same-origin, no CSP, no sanitization). */
+  trusted?: boolean;
+  /** Model calls that generated or edited this artifact, oldest first. */
+  usage?: UsageRecord[];
+  /** Saved to the gallery. */
+  starred?: boolean;
+  /** Free-form labels, normalized by `normalizeTag`. */
+  tags?: string[];
+}
+
+/** What one model call consumed and how long it took. */
+export interface UsageRecord {
+  model: string;
+  /** What the call was for, e.g. "Generation" or a refinement instruction. */
+  label: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** The backend reported no token counts, so they were estimated from the text. */
+  estimated?: boolean;
+  /** Milliseconds from the request to the first streamed text; absent for one-shot calls. */
+  firstTokenMs?: number;
+  /** Milliseconds from the request to the end of the response, retries included. */
+  latencyMs: number;
+  retries: number;
+  timestamp: number;
+}
+
+export interface DesignSystemPalette {
+    background: string;
+    surface: string;
+    text: string;
+    muted: string;
+    accent: string;
+    border: string;
+}
+
+export interface DesignSystemFonts {
+    /** CSS font-family stacks. */
+    sans: string;
+    mono: string;
+    /** Optional stylesheet (e.g. Google Fonts) that loads the families above. */
+    stylesheetUrl?: string;
+}
+
+/** A visual language that drives both the generation prompts and the preview environment. */
+export interface DesignSystem {
+    id: string;
+    name: string;
+    description: string;
+    colorScheme: 'dark' | 'light';
+    palette: DesignSystemPalette;
+    fonts: DesignSystemFonts;
+    /** Merged into `theme.extend` of the Tailwind config in previews and exports. */
+    tailwindTheme: Record<string, unknown>;
+    /** What is being designed, e.g. "HUD component". */
+    componentNoun: string;
+    /** One-line aesthetic appended to each style direction. */
+    aesthetic: string;
+    /** Guidance for choosing the style directions of a new session. */
+    directionHint: string;
+    promptRules: string[];
+    /** Seed examples for suggested prompts. */
+    examplePrompts: string[];
+    variationPersonas: string[];
+    /** Style directions used when the model does not return any. */
+    fallbackStyles: string[];
 }
 
 export interface Session {
@@ -15,7 +95,86 @@ export interface Session {
     prompt: string;
     timestamp: number;
     artifacts: Artifact[];
+    /** Snapshot of the design system the session was generated with. Absent on older sessions (HUD). */
+    designSystem?: DesignSystem;
+    /** Reference images sent with the prompt. */
+    attachments?: Attachment[];
+    /** Model calls made for the session as a whole (style directions, mutations, layouts). */
+    usage?: UsageRecord[];
+}
+
+/** An image sent to the model alongside a prompt. */
+export interface Attachment {
+    id: string;
+    name: string;
+    mimeType: string;
+    /** Base64 image data, without the `data:` prefix. */
+    data: string;
+    width: number;
+    height: number;
+}
+
+/** The prompts a template can stand in for. */
+export type PromptTemplateKind = 'styleDirections' | 'artifact' | 'variations' | 'placeholders';
+
+/** An editable prompt with `{{variable}}` placeholders, see `TEMPLATE_KINDS`. */
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    kind: PromptTemplateKind;
+    body: string;
+    /** Model used for calls made with this template; absent to use the configured one. */
+    model?: string;
+    temperature?: number;
 }
 
 export interface ComponentVariation { name: string; html: string; }
-export interface LayoutOption { name: string; css: string; previewHtml: string; }
\ No newline at end of file
+/**
+ * A page scaffold for composing artifacts. `previewHtml` marks each slot with
+ * a `data-slot="name"` element; `css` styles the scaffold.
+ */
+export interface LayoutOption { name: string; css: string; previewHtml: string; }
+
+/** Preview viewport chosen in focus mode. */
+export interface ViewportSettings {
+    /** A `VIEWPORT_PRESETS` id, or 'custom' to use `width`/`height`. */
+    presetId: string;
+    width: number;
+    height: number;
+    /** Swap width and height (landscape). */
+    rotated: boolean;
+    /** Scale the viewport down to fit instead of scrolling. */
+    fit: boolean;
+    /** Forces the preview's color scheme; `null` follows the design system. */
+    colorScheme: 'dark' | 'light' | null;
+}
+
+/** Something a running artifact reported through the preview bridge. */
+export interface DiagnosticEntry {
+    id: string;
+    kind: 'console' | 'error' | 'network' | 'csp';
+    level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+    message: string;
+    /** Stack trace or underlying error, when available. */
+    detail?: string;
+    timestamp: number;
+}
+
+export type AccessibilityRule = 'contrast' | 'image-alt' | 'control-name' | 'form-label' | 'heading-order' | 'focusable';
+
+export interface AccessibilityFinding {
+    rule: AccessibilityRule;
+    severity: 'serious' | 'moderate' | 'minor';
+    message: string;
+    /** A short CSS path to the element, for locating it in the source. */
+    selector: string;
+    /** The element's opening tag, truncated. */
+    snippet?: string;
+}
+
+export interface AccessibilityReport {
+    /** 0-100, see `scoreFindings`. */
+    score: number;
+    findings: AccessibilityFinding[];
+    timestamp: number;
+}
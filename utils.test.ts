@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_DESIGN_SYSTEMS } from './services/designSystems';
+import { wrapArtifactHtml } from './utils';
+
+const ds = BUILT_IN_DESIGN_SYSTEMS[0];
+const rootTag = (html: string) => /<html[^>]*>/.exec(html)![0];
+
+describe('wrapArtifactHtml', () => {
+    it('applies the scheme to fragments it wraps', () => {
+        expect(rootTag(wrapArtifactHtml('<p>x</p>', ds, { colorScheme: 'light' }))).toBe('<html class="light" style="color-scheme: light">');
+    });
+
+    it('switches the scheme of a full document on its own <html>', () => {
+        const page = '<!DOCTYPE html><html lang="en" class="dark h-full" style="margin:0;"><body>x</body></html>';
+        expect(rootTag(wrapArtifactHtml(page, ds, { colorScheme: 'light', trusted: true })))
+            .toBe('<html lang="en" class="h-full light" style="margin:0; color-scheme: light">');
+    });
+
+    it('gives a full document without <html> a root tag after the doctype', () => {
+        const wrapped = wrapArtifactHtml('<!doctype html><body>x</body>', ds, { colorScheme: 'dark', trusted: true });
+        expect(wrapped.startsWith('<!doctype html><html class="dark" style="color-scheme: dark">')).toBe(true);
+    });
+
+    it('leaves a full document alone without an override', () => {
+        const page = "<html class='light'><body>x</body></html>";
+        expect(rootTag(wrapArtifactHtml(page, ds, { trusted: true }))).toBe("<html class='light'>");
+    });
+});
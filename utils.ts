@@ -3,4 +3,122 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-export const generateId = () => Date.now().toString(36) + Math.random().toString(36).substring(2);
\ No newline at end of file
+import { DEFAULT_DESIGN_SYSTEM } from './services/designSystems';
+import { injectPreviewRuntime } from './services/previewRuntime';
+import { contentSecurityPolicyMeta, sanitizeArtifactHtml } from './services/sandbox';
+import { DesignSystem, ViewportSettings } from './types';
+import { VIEWPORT_PRESETS } from './constants';
+
+export const generateId = () => Date.now().toString(36) + Math.random().toString(36).substring(2);
+
+// Used when a preview is forced into the scheme its design system was not built for.
+const SCHEME_FALLBACK_COLORS = {
+    dark: { background: '#030407', text: '#e0faff', border: '#164e63' },
+    light: { background: '#ffffff', text: '#0f172a', border: '#cbd5e1' }
+};
+
+export interface WrapOptions {
+    /** Overrides the color scheme (the `dark`/`light` class and `color-scheme` on `<html>`), including a full document's own. */
+    colorScheme?: 'dark' | 'light';
+    /** Skips sanitization and the CSP. Only for artifacts the user has explicitly trusted. */
+    trusted?: boolean;
+}
+
+const HTML_START_TAG = /<html(?=[\s>])[^>]*>/i;
+
+/** Rewrites one attribute of a start tag, adding it when missing. */
+const updateAttribute = (tag: string, name: string, update: (value: string | null) => string) => {
+    const pattern = new RegExp(`\\s${name}(?:\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+)))?(?=[\\s/>])`, 'i');
+    const match = pattern.exec(tag);
+    const value = update(match ? match[1] ?? match[2] ?? match[3] ?? '' : null).replace(/"/g, '&quot;');
+    return match
+        ? tag.slice(0, match.index) + ` ${name}="${value}"` + tag.slice(match.index + match[0].length)
+        : tag.replace(/\s*\/?>$/, end => ` ${name}="${value}"${end}`);
+};
+
+/**
+ * Forces a full document into `colorScheme`: its `<html>` gets the scheme's
+ * class in place of the other one, and a `color-scheme` style after its own.
+ * Without an `<html>` tag one is added; the parser merges its attributes into
+ * the implied root.
+ */
+const applyColorScheme = (html: string, colorScheme: 'dark' | 'light') => {
+    const patch = (tag: string) => updateAttribute(
+        updateAttribute(tag, 'class', value => [...(value ?? '').split(/\s+/).filter(c => c && c !== 'dark' && c !== 'light'), colorScheme].join(' ')),
+        'style',
+        value => [value?.trim().replace(/;$/, ''), `color-scheme: ${colorScheme}`].filter(Boolean).join('; ')
+    );
+    if (HTML_START_TAG.test(html)) return html.replace(HTML_START_TAG, patch);
+    const doctype = /^\s*<!doctype[^>]*>/i.exec(html)?.[0] ?? '';
+    return doctype + patch('<html>') + html.slice(doctype.length);
+};
+
+// Wrap the generated HTML in a standard environment so Tailwind, fonts and colors match the design system
+export const wrapArtifactHtml = (html: string, designSystem: DesignSystem = DEFAULT_DESIGN_SYSTEM, options: WrapOptions = {}): string => {
+    if (!html) return '';
+
+    const csp = options.trusted ? '' : contentSecurityPolicyMeta(designSystem);
+    if (!options.trusted) html = sanitizeArtifactHtml(html).html;
+
+    // Check if the model already provided a full HTML document
+    if (html.includes('<html') || html.includes('<body')) {
+        return injectPreviewRuntime(options.colorScheme ? applyColorScheme(html, options.colorScheme) : html, csp);
+    }
+
+    const { fonts, tailwindTheme } = designSystem;
+    const colorScheme = options.colorScheme ?? designSystem.colorScheme;
+    const palette = colorScheme === designSystem.colorScheme ? designSystem.palette : SCHEME_FALLBACK_COLORS[colorScheme];
+
+    return injectPreviewRuntime(`
+        <!DOCTYPE html>
+        <html class="${colorScheme}" style="color-scheme: ${colorScheme}">
+        <head>
+            <script src="https://cdn.tailwindcss.com"></script>
+            <script>
+                tailwind.config = {
+                    darkMode: 'class',
+                    theme: {
+                        extend: ${JSON.stringify(tailwindTheme)}
+                    }
+                }
+            </script>
+            ${fonts.stylesheetUrl ? `<link href="${fonts.stylesheetUrl}" rel="stylesheet">` : ''}
+            <style>
+                body { 
+                    background-color: ${palette.background}; 
+                    color: ${palette.text}; 
+                    font-family: ${fonts.sans};
+                    margin: 0;
+                    padding: 1.5rem;
+                    min-height: 100vh;
+                    overflow-x: hidden;
+                }
+                ::-webkit-scrollbar { width: 4px; }
+                ::-webkit-scrollbar-track { background: rgba(0,0,0,0.2); }
+                ::-webkit-scrollbar-thumb { background: ${palette.border}; border-radius: 2px; }
+            </style>
+        </head>
+        <body>
+            ${html}
+        </body>
+        </html>
+    `, csp);
+};
+
+/** Resolves settings to the simulated viewport size, or null for "fill the card". */
+export const resolveViewportSize = (settings: ViewportSettings) => {
+    const preset = VIEWPORT_PRESETS.find(p => p.id === settings.presetId);
+    const width = settings.presetId === 'custom' ? settings.width : preset?.width;
+    const height = settings.presetId === 'custom' ? settings.height : preset?.height;
+    if (!width || !height) return null;
+    return settings.rotated ? { width: height, height: width } : { width, height };
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+};